@@ -0,0 +1,43 @@
+import { FinancialEngine } from '../lib/financial-engine';
+import { UserActionGroup } from '../lib/user-actions';
+
+// Five years of daily income, with weekly expenses and savings drains, in units of days
+const days = 5 * 365;
+const setup: UserActionGroup = {
+  timestamp: 0,
+  actions: [
+    { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 1000, overflowTargetId: 'savings-gate' },
+    { type: 'CreateOrUpdateAccount', accountId: 'fixed-expenses' },
+    { type: 'CreateOrUpdateAccount', accountId: 'savings-gate', capacity: 200, overflowTargetId: 'purchases' },
+    { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+    { type: 'CreateOrUpdateAccount', accountId: 'purchases' },
+    { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'fixed-expenses', maxRate: 200 / 7 },
+    { type: 'UpdateDrain', sourceAccountId: 'savings-gate', targetAccountId: 'savings', maxRate: 200 / 7 },
+  ]
+};
+const injection = (day: number): UserActionGroup => ({
+  timestamp: day,
+  actions: [{ type: 'InjectMoney', accountId: 'income', amount: 50 + (day % 7) * 10 }]
+});
+
+const engine = new FinancialEngine([setup]);
+
+let start = Date.now();
+for (let day = 1; day <= days; day++) {
+  engine.addActionGroup(injection(day));
+}
+console.log(`Appended ${days} daily action groups in ${Date.now() - start}ms (${engine.history.size} snapshots)`);
+
+start = Date.now();
+engine.updateActionGroup(days - 30, injection(days - 30));
+console.log(`Edited an action group from the last month in ${Date.now() - start}ms`);
+
+start = Date.now();
+engine.updateActionGroup(1, injection(1));
+console.log(`Edited the first action group in ${Date.now() - start}ms`);
+
+start = Date.now();
+for (let day = 0; day < days; day++) {
+  engine.calculateStateAtTime(day + 0.5);
+}
+console.log(`Queried the state on each of ${days} days in ${Date.now() - start}ms`);
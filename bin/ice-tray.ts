@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { runCli } from '../lib/cli';
+
+process.exitCode = runCli(process.argv.slice(2), {
+  readFile: path => fs.readFileSync(path, 'utf8'),
+  write: text => process.stdout.write(text),
+  writeError: text => process.stderr.write(text),
+  now: () => Date.now(),
+});
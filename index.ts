@@ -1,3 +1,22 @@
+export * from './lib/account-groups';
+export * from './lib/account-state';
+export * from './lib/action-log';
+export * from './lib/action-log-store';
+export * from './lib/bank-statements';
+export * from './lib/calendar';
+export * from './lib/currencies';
+export * from './lib/currency-totals';
+export * from './lib/financial-engine';
 export * from './lib/financial-model';
 export * from './lib/general';
+export * from './lib/goal-seeking';
+export * from './lib/graph-export';
+export * from './lib/history-events';
+export * from './lib/ledger';
+export * from './lib/money-arithmetic';
+export * from './lib/scenarios';
+export * from './lib/schedules';
+export * from './lib/snapshot-serialization';
+export * from './lib/time-series';
 export * from './lib/user-actions';
+export * from './lib/validation';
@@ -0,0 +1,68 @@
+import _ from 'lodash';
+import { AccountId, GroupId, Money, MoneyRate, Timestamp } from "./general";
+import { UserActionGroup } from "./user-actions";
+import { FinancialHistory, HistoryOptions } from "./financial-model";
+import { AccountView, getAccountViews, getAccountViewsFromHistory } from "./account-state";
+
+// The combined state of the accounts in a group at a particular time, such as
+// for showing the overall progress of a list of purchases
+export interface GroupView {
+  groupId: GroupId;
+  accountIds: AccountId[];
+  capacity: Money;
+  fillLevel: Money;
+  fillRate: MoneyRate;
+  // When the first account in the group that isn't already full is projected
+  // to reach capacity
+  earliestProjectedCompletion?: Timestamp;
+  // When every account in the group is projected to be full. Undefined if any
+  // account is not projected to reach capacity, or if they're all full already.
+  latestProjectedCompletion?: Timestamp;
+}
+
+export function getGroupViews(
+  actions: UserActionGroup[],
+  time: Timestamp,
+  options: HistoryOptions = {}
+): GroupView[] {
+  return groupAccountViews(getAccountViews(actions, time, options));
+}
+
+// Accounts that aren't in a group are omitted
+export function getGroupViewsFromHistory(
+  history: FinancialHistory,
+  time: Timestamp,
+  options: HistoryOptions = {}
+): GroupView[] {
+  return groupAccountViews(getAccountViewsFromHistory(history, time, options));
+}
+
+function groupAccountViews(views: AccountView[]): GroupView[] {
+  const accountViews = views.filter(view => view.groupId !== undefined);
+  const accountViewsByGroup = _.groupBy(accountViews, view => view.groupId);
+  return Object.keys(accountViewsByGroup)
+    .map(groupId => viewGroup(groupId, accountViewsByGroup[groupId]));
+}
+
+function viewGroup(groupId: GroupId, accountViews: AccountView[]): GroupView {
+  const view: GroupView = {
+    groupId,
+    accountIds: accountViews.map(account => account.accountId),
+    capacity: _.sumBy(accountViews, account => account.capacity),
+    fillLevel: _.sumBy(accountViews, account => account.fillLevel),
+    fillRate: _.sumBy(accountViews, account => account.fillRate),
+  };
+
+  const incomplete = accountViews.filter(account => account.fillLevel < account.capacity);
+  const completions = incomplete
+    .map(account => account.projectedToReachCapacity)
+    .filter((completion): completion is Timestamp => completion !== undefined);
+  if (completions.length) {
+    view.earliestProjectedCompletion = _.min(completions);
+  }
+  if (completions.length && completions.length === incomplete.length) {
+    view.latestProjectedCompletion = _.max(completions);
+  }
+
+  return view;
+}
@@ -1,7 +1,21 @@
-import { AccountId, Money, MoneyRate, Timestamp } from "./general";
+import { AccountId, CurrencyCode, GroupId, Money, MoneyRate, Timestamp } from "./general";
+import { UserActionGroup } from "./user-actions";
+import {
+  computeFinancialHistory, calculateSnapshotAtTime, extendHorizon, FinancialHistory, AccountState, HistoryOptions
+} from "./financial-model";
+import { unboundedSchedules } from "./schedules";
 
-export interface AccountState {
+// A plain-object view of an account at a particular time, for consumption by
+// the application (as opposed to the internal `AccountState` record)
+export interface AccountView {
   accountId: AccountId;
+  groupId?: GroupId;
+  currency?: CurrencyCode;
+  // Set by the `onFull` of the account
+  mark?: string;
+  // Only present if the account is frozen
+  frozen?: boolean;
+  capacity: Money;
   fillLevel: Money;
   fillRate: MoneyRate;
   inflowRate: MoneyRate;
@@ -9,3 +23,141 @@ export interface AccountState {
   projectedToReachCapacity?: Timestamp;
   projectedToRunOut?: Timestamp;
 }
+
+// An account that was closed, as it was just before it was closed
+export interface ClosedAccountView extends AccountView {
+  closedAt: Timestamp;
+  destinationAccountId: AccountId;
+  // The amount withdrawn, if the account was closed by `CompletePurchase`
+  purchaseAmount?: Money;
+}
+
+// How far ahead the projections look when there are schedules without an end
+// and no horizon, in periods of the longest of those schedules
+const projectionPeriods = 100;
+
+export function getAccountViews(
+  actions: UserActionGroup[],
+  time: Timestamp,
+  options: HistoryOptions = {}
+): AccountView[] {
+  const schedules = unboundedSchedules(actions);
+  if (options.horizon !== undefined || schedules.length === 0) {
+    return getAccountViewsFromHistory(computeFinancialHistory(actions, options), time, options);
+  }
+  // The schedules are expanded up to the time of the views, and then lazily
+  // past it until the projections are found, doubling how far ahead they look
+  const period = Math.max(...schedules.map(schedule => schedule.period));
+  let horizon = time;
+  let history = computeFinancialHistory(actions, { ...options, horizon });
+  let views = viewsAt(history, time, horizon, options);
+  for (let lookahead = period; lookahead <= projectionPeriods * period && views.some(isMissingProjection); lookahead *= 2) {
+    const previousHorizon = horizon;
+    horizon = time + lookahead;
+    history = extendHorizon(history, actions, previousHorizon, { ...options, horizon });
+    views = viewsAt(history, time, horizon, options);
+  }
+  return views;
+}
+
+export function getAccountViewsFromHistory(
+  history: FinancialHistory,
+  time: Timestamp,
+  options: HistoryOptions = {}
+): AccountView[] {
+  return viewsAt(history, time, Infinity, options);
+}
+
+// The projections only look at the history up to `until`, since it continues
+// as if the recurring actions had stopped after the horizon
+function viewsAt(history: FinancialHistory, time: Timestamp, until: Timestamp, options: HistoryOptions): AccountView[] {
+  const state = calculateSnapshotAtTime(history, time, options);
+  if (!state) {
+    return [];
+  }
+  // The history already contains every future nonlinearity, including those
+  // caused by cascades (e.g. an account that only starts filling once another
+  // account overflows into it)
+  const future = history.filter(snapshot => snapshot.timestamp >= time && snapshot.timestamp <= until);
+  return [...state.accounts.values()].map(account => viewAccount(account, future));
+}
+
+// An account with an infinite capacity never reaches it
+function isMissingProjection(view: AccountView): boolean {
+  return (view.fillLevel < view.capacity && isFinite(view.capacity) && view.projectedToReachCapacity === undefined) ||
+    (view.fillLevel > 0 && view.projectedToRunOut === undefined);
+}
+
+// The accounts that are closed at the given time (and whose IDs haven't been
+// used again)
+export function getClosedAccountViewsFromHistory(
+  history: FinancialHistory,
+  time: Timestamp,
+  options: HistoryOptions = {}
+): ClosedAccountView[] {
+  const state = calculateSnapshotAtTime(history, time, options);
+  if (!state) {
+    return [];
+  }
+  return [...state.closedAccounts.values()].map(closed => {
+    const view: ClosedAccountView = {
+      ...viewAccount(closed.account, FinancialHistory()),
+      closedAt: closed.timestamp,
+      destinationAccountId: closed.destinationAccountId,
+    };
+    if (closed.purchaseAmount !== undefined) {
+      view.purchaseAmount = closed.purchaseAmount;
+    }
+    return view;
+  });
+}
+
+function viewAccount(account: AccountState, future: FinancialHistory): AccountView {
+  const { accountId, capacity, fillLevel } = account;
+  const view: AccountView = {
+    accountId,
+    capacity,
+    fillLevel,
+    fillRate: account.fillRate,
+    inflowRate: account.drainInflows.reduce((a, x) => a + x, 0) +
+      account.overflowInflows.reduce((a, x) => a + x, 0),
+    drainRates: [...account.drainSizes]
+      .filter(([targetId, size]) => size > 0 || account.drainFractions.has(targetId))
+      .map(([targetId]) => ({ targetId, rate: account.drainEffectiveRates.get(targetId, 0) })),
+  };
+
+  if (account.groupId !== undefined) {
+    view.groupId = account.groupId;
+  }
+  if (account.currency !== undefined) {
+    view.currency = account.currency;
+  }
+  if (account.mark !== undefined) {
+    view.mark = account.mark;
+  }
+  if (account.frozen) {
+    view.frozen = true;
+  }
+
+  if (fillLevel < capacity) {
+    const reachesCapacity = future.find(snapshot => {
+      const futureAccount = snapshot.accounts.get(accountId);
+      return futureAccount !== undefined && futureAccount.fillLevel >= futureAccount.capacity;
+    });
+    if (reachesCapacity) {
+      view.projectedToReachCapacity = reachesCapacity.timestamp;
+    }
+  }
+
+  if (fillLevel > 0) {
+    const runsOut = future.find(snapshot => {
+      const futureAccount = snapshot.accounts.get(accountId);
+      return futureAccount !== undefined && futureAccount.fillLevel <= 0;
+    });
+    if (runsOut) {
+      view.projectedToRunOut = runsOut.timestamp;
+    }
+  }
+
+  return view;
+}
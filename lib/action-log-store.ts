@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import { UserActionGroup } from './user-actions';
+import {
+  ActionLogMigration, actionLogMigrations, currentActionLogVersion, parseActionLog, parseActionLogHeader,
+  serializeActionLog, serializeActionGroup, checkActionGroup, ActionLogFormatError
+} from './action-log';
+
+/**
+ * An append-only action log in a local file, in the format of
+ * `serializeActionLog`. The file is created when the first action group is
+ * appended.
+ *
+ * Logs at an older version can be loaded (they're migrated in memory), but
+ * must be upgraded before more action groups can be appended.
+ */
+export class ActionLogStore {
+  constructor (public readonly path: string, private migrations: ActionLogMigration[] = actionLogMigrations) {
+  }
+
+  // The action groups in the log, which can be passed straight to
+  // `computeFinancialHistory`
+  load(): UserActionGroup[] {
+    if (!fs.existsSync(this.path)) {
+      return [];
+    }
+    return parseActionLog(fs.readFileSync(this.path, 'utf8'), this.migrations);
+  }
+
+  append(actionGroup: UserActionGroup) {
+    // Check the action group before writing it, so that the log can't be left
+    // in a state that can't be loaded
+    const line = serializeActionGroup(checkActionGroup(actionGroup)) + '\n';
+    if (!fs.existsSync(this.path)) {
+      fs.writeFileSync(this.path, serializeActionLog([]), { flag: 'wx' });
+    } else {
+      const version = this.readVersion();
+      if (version !== currentActionLogVersion) {
+        throw new ActionLogFormatError(`Cannot append to an action log at version ${version} without upgrading it`);
+      }
+    }
+    fs.appendFileSync(this.path, line);
+  }
+
+  // Rewrites the log at the current version, if it's at an older version. The
+  // new log replaces the old one atomically.
+  upgrade() {
+    if (!fs.existsSync(this.path) || this.readVersion() === currentActionLogVersion) {
+      return;
+    }
+    const temporaryPath = `${this.path}.upgrade`;
+    fs.writeFileSync(temporaryPath, serializeActionLog(this.load()));
+    fs.renameSync(temporaryPath, this.path);
+  }
+
+  private readVersion(): number {
+    // The header is short, so there's no need to read the whole log
+    const buffer = Buffer.alloc(1024);
+    const file = fs.openSync(this.path, 'r');
+    let bytesRead: number;
+    try {
+      bytesRead = fs.readSync(file, buffer, 0, buffer.length, 0);
+    } finally {
+      fs.closeSync(file);
+    }
+    const text = buffer.toString('utf8', 0, bytesRead);
+    const endOfHeader = text.indexOf('\n');
+    return parseActionLogHeader(endOfHeader === -1 ? text : text.slice(0, endOfHeader)).version;
+  }
+}
@@ -0,0 +1,312 @@
+import { UserAction, UserActionGroup, RecurringAction } from './user-actions';
+
+/**
+ * The serialized form of a log of action groups, as JSON lines: a header line
+ * with the format version, followed by one action group per line, e.g.
+ *
+ *     {"format":"ice-tray-action-log","version":1}
+ *     {"timestamp":0,"actions":[{"type":"CreateOrUpdateAccount","accountId":"a"}]}
+ *
+ * Action fields that are present but undefined (such as `overflowTargetId`
+ * when an overflow is removed) are written as `null`, since JSON has no
+ * undefined. For the same reason, infinite numbers (such as the capacity of
+ * an uncapped account) are written as the strings `"Infinity"` and
+ * `"-Infinity"`.
+ */
+export const actionLogFormat = 'ice-tray-action-log';
+export const currentActionLogVersion = 1;
+
+export interface ActionLogHeader {
+  format: typeof actionLogFormat;
+  version: number;
+}
+
+// Upgrades a serialized action group from `fromVersion` to `fromVersion + 1`.
+// Migrations run before the schema check, so they work on the parsed JSON,
+// which is only known to be an object with an array of action objects.
+export interface ActionLogMigration {
+  fromVersion: number;
+  migrate: (actionGroup: SerializedActionGroup) => SerializedActionGroup;
+}
+
+export interface SerializedActionGroup {
+  actions: SerializedAction[];
+  [field: string]: unknown;
+}
+
+export interface SerializedAction {
+  [field: string]: unknown;
+}
+
+// Version 1 is the first version, so there is nothing to migrate yet
+export const actionLogMigrations: ActionLogMigration[] = [];
+
+export class ActionLogFormatError extends Error {
+  constructor (message: string, public line?: number) {
+    super(line !== undefined ? `Line ${line}: ${message}` : message);
+    this.name = 'ActionLogFormatError';
+  }
+}
+
+export function serializeActionLog(actionGroups: UserActionGroup[]): string {
+  const header: ActionLogHeader = { format: actionLogFormat, version: currentActionLogVersion };
+  return [header, ...actionGroups].map(serializeLine).join('\n') + '\n';
+}
+
+export function serializeActionGroup(actionGroup: UserActionGroup): string {
+  return serializeLine(actionGroup);
+}
+
+// The action group as it's written to the log, for embedding in other JSON
+// (see `checkActionGroup` for the reverse)
+export function encodeActionGroup(actionGroup: UserActionGroup): SerializedActionGroup {
+  return JSON.parse(serializeLine(actionGroup));
+}
+
+export function parseActionLog(
+  text: string,
+  migrations: ActionLogMigration[] = actionLogMigrations
+): UserActionGroup[] {
+  const lines = text.split('\n');
+  // A trailing newline doesn't start another action group
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    throw new ActionLogFormatError('Missing header');
+  }
+  const { version } = parseActionLogHeader(lines[0]);
+  return lines.slice(1).map((line, i) => {
+    const lineNumber = i + 2;
+    try {
+      return decodeActionGroup(migrateActionGroup(JSON.parse(line), version, migrations), 'actionGroup');
+    } catch (e) {
+      if (e instanceof ActionLogFormatError || e instanceof SyntaxError) {
+        throw new ActionLogFormatError(e.message, lineNumber);
+      }
+      throw e;
+    }
+  });
+}
+
+export function parseActionLogHeader(line: string): ActionLogHeader {
+  let header: unknown;
+  try {
+    header = JSON.parse(line);
+  } catch (e) {
+    throw new ActionLogFormatError(`Invalid header: ${e.message}`, 1);
+  }
+  if (!isRecord(header) || header.format !== actionLogFormat) {
+    throw new ActionLogFormatError(`Not an action log (expected a header with format "${actionLogFormat}")`, 1);
+  }
+  const version = header.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > currentActionLogVersion) {
+    throw new ActionLogFormatError(`Unsupported action log version ${version}`, 1);
+  }
+  return { format: actionLogFormat, version };
+}
+
+// Checks that the value is a well formed action group at the current version,
+// returning it with any `null` fields converted back to `undefined`
+export function checkActionGroup(value: unknown): UserActionGroup {
+  return decodeActionGroup(value, 'actionGroup');
+}
+
+function serializeLine(value: unknown): string {
+  return JSON.stringify(value, (_key, value) => {
+    if (value === undefined) {
+      return null;
+    }
+    return typeof value === 'number' && !isFinite(value) ? String(value) : value;
+  });
+}
+
+// Applies the migrations in turn to upgrade a serialized action group
+export function migrateActionGroup(
+  actionGroup: unknown,
+  fromVersion: number,
+  migrations: ActionLogMigration[] = actionLogMigrations,
+  toVersion: number = currentActionLogVersion
+): unknown {
+  if (fromVersion >= toVersion) {
+    return actionGroup;
+  }
+  let migrated = checkOutline(actionGroup);
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = migrations.find(migration => migration.fromVersion === version);
+    if (!migration) {
+      throw new ActionLogFormatError(`No migration from action log version ${version}`);
+    }
+    migrated = checkOutline(migration.migrate(migrated));
+  }
+  return migrated;
+}
+
+// The part of the shape of an action group that migrations can rely on
+function checkOutline(value: unknown): SerializedActionGroup {
+  if (!isRecord(value)) {
+    throw new ActionLogFormatError('Expected actionGroup to be an object');
+  }
+  const actions = value.actions;
+  if (!Array.isArray(actions)) {
+    throw new ActionLogFormatError('Expected actionGroup.actions to be an array');
+  }
+  return {
+    ...value,
+    actions: actions.map((action: unknown, i) => {
+      if (!isRecord(action)) {
+        throw new ActionLogFormatError(`Expected actionGroup.actions[${i}] to be an object`);
+      }
+      return action;
+    })
+  };
+}
+
+function isRecord(value: unknown): value is { [field: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Decoders check the shape of a parsed JSON value, and convert it to the
+// corresponding type
+type Decoder<T> = (value: unknown, path: string) => T;
+
+const string: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new ActionLogFormatError(`Expected ${path} to be a string`);
+  }
+  return value;
+};
+
+const number: Decoder<number> = (value, path) => {
+  if (value === 'Infinity' || value === '-Infinity') {
+    return Number(value);
+  }
+  if (typeof value !== 'number') {
+    throw new ActionLogFormatError(`Expected ${path} to be a number`);
+  }
+  return value;
+};
+
+function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) => value === undefined || value === null ? undefined : decoder(value, path);
+}
+
+function oneOf<T extends string>(...values: T[]): Decoder<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new ActionLogFormatError(`Expected ${path} to be one of ${values.map(v => `"${v}"`).join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new ActionLogFormatError(`Expected ${path} to be an array`);
+    }
+    return value.map((item, i) => decoder(item, `${path}[${i}]`));
+  };
+}
+
+// Fields that are absent stay absent, since some actions distinguish between
+// an absent field and an undefined one
+function object<T>(fields: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      throw new ActionLogFormatError(`Expected ${path} to be an object`);
+    }
+    for (const key of Object.keys(value)) {
+      if (!fields.hasOwnProperty(key)) {
+        throw new ActionLogFormatError(`Unexpected field ${path}.${key}`);
+      }
+    }
+    const result: Partial<T> = {};
+    for (const key of Object.keys(fields) as Array<keyof T & string>) {
+      const decoded = fields[key](value[key], `${path}.${key}`);
+      if (key in value) {
+        result[key] = decoded;
+      }
+    }
+    // Every field has been decoded, apart from optional ones that are absent
+    return result as T;
+  };
+}
+
+const shortfall = optional(oneOf('Reject', 'Clamp', 'PullFromOverflowSources'));
+
+const recurringActionDecoders: { [T in RecurringAction['type']]: Decoder<Extract<RecurringAction, { type: T }>> } = {
+  InjectMoney: object({ type: oneOf('InjectMoney'), accountId: string, amount: number }),
+};
+
+const actionDecoders: { [T in UserAction['type']]: Decoder<Extract<UserAction, { type: T }>> } = {
+  ...recurringActionDecoders,
+  CreateOrUpdateAccount: object({
+    type: oneOf('CreateOrUpdateAccount'),
+    accountId: string,
+    capacity: optional(number),
+    overflowTargetId: optional(string),
+    inflowPolicy: optional(oneOf('DrainsFirst', 'OverflowFirst')),
+    groupId: optional(string),
+    interestRate: optional(number),
+    currency: optional(string),
+    capacityRamp: optional(object({ rate: number, until: optional(number) })),
+    onFull: optional(object({ overflowTargetId: optional(string), mark: optional(string) })),
+  }),
+  UpdateDrain: object({
+    type: oneOf('UpdateDrain'),
+    sourceAccountId: string,
+    targetAccountId: string,
+    maxRate: number,
+    priority: optional(number),
+    weight: optional(number),
+    rateSchedule: optional(array(object({ from: number, maxRate: number }))),
+    balanceFraction: optional(number),
+  }),
+  DeleteDrain: object({ type: oneOf('DeleteDrain'), sourceAccountId: string, targetAccountId: string }),
+  DeleteAccount: object({ type: oneOf('DeleteAccount'), accountId: string }),
+  FreezeAccount: object({ type: oneOf('FreezeAccount'), accountId: string }),
+  UnfreezeAccount: object({ type: oneOf('UnfreezeAccount'), accountId: string }),
+  CloseAccount: object({ type: oneOf('CloseAccount'), accountId: string, destinationAccountId: string }),
+  CompletePurchase: object({ type: oneOf('CompletePurchase'), accountId: string, destinationAccountId: string }),
+  Withdraw: object({ type: oneOf('Withdraw'), accountId: string, amount: number, shortfall }),
+  Transfer: object({
+    type: oneOf('Transfer'),
+    sourceAccountId: string,
+    targetAccountId: string,
+    amount: number,
+    shortfall,
+  }),
+  ScheduleRecurring: object({
+    type: oneOf('ScheduleRecurring'),
+    scheduleId: string,
+    start: number,
+    period: number,
+    end: optional(number),
+    count: optional(number),
+    action: variant(recurringActionDecoders),
+  }),
+  CancelSchedule: object({ type: oneOf('CancelSchedule'), scheduleId: string }),
+  SetConversionRate: object({
+    type: oneOf('SetConversionRate'),
+    fromCurrency: string,
+    toCurrency: string,
+    rate: number,
+  }),
+};
+
+// Chooses the decoder according to the `type` field
+function variant<T extends { type: string }>(decoders: { [type: string]: Decoder<T> }): Decoder<T> {
+  return (value, path) => {
+    const type = isRecord(value) ? value.type : undefined;
+    if (typeof type !== 'string' || !decoders.hasOwnProperty(type)) {
+      throw new ActionLogFormatError(`Unknown action type ${JSON.stringify(type)} at ${path}`);
+    }
+    return decoders[type](value, path);
+  };
+}
+
+const decodeActionGroup: Decoder<UserActionGroup> = object({
+  timestamp: number,
+  actions: array(variant<UserAction>(actionDecoders)),
+});
@@ -0,0 +1,448 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import _ from 'lodash';
+import { AccountId, Money, Timestamp } from './general';
+import { UserAction, UserActionGroup, ShortfallPolicy } from './user-actions';
+import { computeFinancialHistory, calculateSnapshotAtTime, FinancialHistory, HistoryOptions } from './financial-model';
+import { millisecondsPerDay } from './calendar';
+
+/**
+ * Transactions from a real bank account, read from a CSV or OFX statement, so
+ * the model can be kept in step with real money. Statement dates are calendar
+ * timestamps (midnight UTC of the day, see `calendar.ts`), since statements
+ * only give the day of each transaction.
+ */
+export interface BankTransaction {
+  timestamp: Timestamp;
+  // Positive for money into the bank account, negative for money out of it
+  amount: Money;
+  payee: string;
+  memo?: string;
+  // The bank's ID for the transaction, if it has one (the FITID in OFX)
+  id?: string;
+  // The balance of the bank account after the transaction, if the statement
+  // has one
+  balance?: Money;
+}
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+// Which columns of a CSV statement hold what, by the names in its header row
+export interface CsvStatementOptions {
+  // Defaults to "Date"
+  date?: string;
+  // Any separator can be used in place of the slashes or dashes. Defaults to
+  // 'YYYY-MM-DD'.
+  dateFormat?: StatementDateFormat;
+  // The signed amount. Defaults to "Amount", unless there are debit and
+  // credit columns instead.
+  amount?: string;
+  // Columns for the money out and the money in, as positive amounts, for
+  // statements that don't have a signed amount
+  debit?: string;
+  credit?: string;
+  // Defaults to "Description"
+  payee?: string;
+  memo?: string;
+  id?: string;
+  // The running balance, if the statement has one
+  balance?: string;
+}
+
+// Maps transactions to the account they belong to in the model. A
+// transaction matches a rule if it matches all of the rule's conditions.
+export interface ImportRule {
+  // A string matches payees that contain it, ignoring case. A regular
+  // expression's global and sticky flags are ignored.
+  payee?: string | RegExp;
+  // The range of signed amounts to match, inclusive, where money out of the
+  // bank account is negative
+  minAmount?: Money;
+  maxAmount?: Money;
+  // Money in is injected into this account, and money out is withdrawn from it
+  accountId: AccountId;
+  // For money out. Defaults to 'Reject'.
+  shortfall?: ShortfallPolicy;
+}
+
+export interface BankImport {
+  // One action group per day that has matching transactions
+  actionGroups: UserActionGroup[];
+  // Transactions that no rule matched, which have no actions
+  unmatched: BankTransaction[];
+}
+
+// The balance of the bank account at the end of a statement day, compared
+// with the total balance of the accounts in the model that represent it
+export interface BalanceComparison {
+  // The statement day
+  timestamp: Timestamp;
+  statementBalance: Money;
+  modelledBalance: Money;
+  // modelledBalance - statementBalance
+  discrepancy: Money;
+}
+
+export interface Reconciliation {
+  accountIds: AccountId[];
+  // Each statement day that has a balance, in date order
+  days: BalanceComparison[];
+  // The days on which the balances differ by more than the tolerance
+  discrepancies: BalanceComparison[];
+}
+
+export interface ReconciliationOptions extends HistoryOptions {
+  // The largest discrepancy that is still considered to reconcile, to allow
+  // for floating point error. Defaults to 1e-6.
+  tolerance?: Money;
+}
+
+export class BankStatementFormatError extends Error {
+  constructor (message: string, public line?: number) {
+    super(line !== undefined ? `Line ${line}: ${message}` : message);
+    this.name = 'BankStatementFormatError';
+  }
+}
+
+// Reads a statement from a file, as OFX if it has an .ofx or .qfx extension
+// or looks like OFX, otherwise as CSV
+export function readBankStatement(filePath: string, csvOptions: CsvStatementOptions = {}): BankTransaction[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const isOfx = extension === '.ofx' || extension === '.qfx' ||
+    (extension !== '.csv' && /^\s*(OFXHEADER|<\?xml|<OFX>)/i.test(text));
+  return isOfx ? parseOfxStatement(text) : parseCsvStatement(text, csvOptions);
+}
+
+// The transactions in date order. The rows can be either oldest or newest
+// first.
+export function parseCsvStatement(text: string, options: CsvStatementOptions = {}): BankTransaction[] {
+  const rows = parseCsv(text).filter(row => row.cells.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    throw new BankStatementFormatError('Missing header row');
+  }
+  const header = rows[0].cells.map(cell => cell.trim());
+  const column = (name: string | undefined, required: boolean) => {
+    if (name === undefined) {
+      return undefined;
+    }
+    const index = header.findIndex(cell => cell.toLowerCase() === name.toLowerCase());
+    if (index === -1 && required) {
+      throw new BankStatementFormatError(`Missing column "${name}"`, rows[0].line);
+    }
+    return index === -1 ? undefined : index;
+  };
+  const hasDebitCredit = options.amount === undefined && (options.debit !== undefined || options.credit !== undefined);
+  const columns = {
+    date: column(options.date || 'Date', true),
+    amount: hasDebitCredit ? undefined : column(options.amount || 'Amount', true),
+    debit: column(options.debit, true),
+    credit: column(options.credit, true),
+    payee: column(options.payee || 'Description', true),
+    memo: column(options.memo, true),
+    id: column(options.id, true),
+    balance: column(options.balance, true),
+  };
+  const dateFormat = options.dateFormat || 'YYYY-MM-DD';
+
+  const transactions = rows.slice(1).map(({ cells, line }) => {
+    const cell = (index: number | undefined) => index !== undefined && index < cells.length ? cells[index].trim() : '';
+    const parse = <T>(parser: (text: string) => T, text: string) => {
+      try {
+        return parser(text);
+      } catch (e) {
+        if (e instanceof BankStatementFormatError) {
+          throw new BankStatementFormatError(e.message, line);
+        }
+        throw e;
+      }
+    };
+    const amountIn = (index: number | undefined) => cell(index) === '' ? 0 : parse(parseAmount, cell(index));
+    const transaction: BankTransaction = {
+      timestamp: parse(text => parseStatementDate(text, dateFormat), cell(columns.date)),
+      amount: columns.amount !== undefined
+        ? parse(parseAmount, cell(columns.amount))
+        : amountIn(columns.credit) - Math.abs(amountIn(columns.debit)),
+      payee: cell(columns.payee),
+    };
+    if (cell(columns.memo) !== '') {
+      transaction.memo = cell(columns.memo);
+    }
+    if (cell(columns.id) !== '') {
+      transaction.id = cell(columns.id);
+    }
+    if (cell(columns.balance) !== '') {
+      transaction.balance = parse(parseAmount, cell(columns.balance));
+    }
+    return transaction;
+  });
+
+  // Statements that list the newest transactions first do so within each day
+  // as well, so the whole list is reversed rather than just sorted
+  const newestFirst = transactions.length > 1 && transactions[0].timestamp > transactions[transactions.length - 1].timestamp;
+  return _.sortBy(newestFirst ? transactions.reverse() : transactions, transaction => transaction.timestamp);
+}
+
+/**
+ * The transactions in date order. OFX statements only give the ledger balance
+ * at the end of the statement, so the balance after each transaction is
+ * worked back from it.
+ *
+ * Both the SGML (version 1) and XML (version 2) forms of OFX are supported,
+ * for a single bank or credit card account.
+ */
+export function parseOfxStatement(text: string): BankTransaction[] {
+  if (!/<OFX>/i.test(text)) {
+    throw new BankStatementFormatError('Not an OFX statement (expected an <OFX> element)');
+  }
+  const transactions = blocks(text, 'STMTTRN').map(block => {
+    const transaction: BankTransaction = {
+      timestamp: parseOfxDate(requiredElement(block, 'DTPOSTED')),
+      amount: parseAmount(requiredElement(block, 'TRNAMT')),
+      payee: element(block, 'NAME') || element(block, 'MEMO') || '',
+    };
+    const memo = element(block, 'MEMO');
+    if (memo !== undefined && memo !== transaction.payee) {
+      transaction.memo = memo;
+    }
+    const id = element(block, 'FITID');
+    if (id !== undefined) {
+      transaction.id = id;
+    }
+    return transaction;
+  });
+  const sorted = _.sortBy(transactions, transaction => transaction.timestamp);
+
+  const [ledgerBalance] = blocks(text, 'LEDGERBAL');
+  if (ledgerBalance !== undefined) {
+    let balance = parseAmount(requiredElement(ledgerBalance, 'BALAMT'));
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      sorted[i].balance = balance;
+      balance -= sorted[i].amount;
+    }
+  }
+  return sorted;
+}
+
+// Turns the transactions into actions using the first rule that matches each
+// one
+export function importBankTransactions(transactions: BankTransaction[], rules: ImportRule[]): BankImport {
+  const actionGroups: UserActionGroup[] = [];
+  const unmatched: BankTransaction[] = [];
+  for (const transaction of transactions) {
+    const rule = rules.find(rule => matchesRule(transaction, rule));
+    if (!rule) {
+      unmatched.push(transaction);
+      continue;
+    }
+    const action: UserAction = transaction.amount >= 0
+      ? { type: 'InjectMoney', accountId: rule.accountId, amount: transaction.amount }
+      : { type: 'Withdraw', accountId: rule.accountId, amount: -transaction.amount };
+    if (action.type === 'Withdraw' && rule.shortfall !== undefined) {
+      action.shortfall = rule.shortfall;
+    }
+    const lastGroup = actionGroups[actionGroups.length - 1];
+    if (lastGroup && lastGroup.timestamp === transaction.timestamp) {
+      lastGroup.actions.push(action);
+    } else {
+      actionGroups.push({ timestamp: transaction.timestamp, actions: [action] });
+    }
+  }
+  return { actionGroups, unmatched };
+}
+
+export function reconcileWithStatement(
+  actions: UserActionGroup[],
+  transactions: BankTransaction[],
+  accountIds: AccountId[],
+  options: ReconciliationOptions = {}
+): Reconciliation {
+  return reconcileHistoryWithStatement(computeFinancialHistory(actions, options), transactions, accountIds, options);
+}
+
+/**
+ * Compares the statement balance at the end of each statement day with the
+ * total balance of the given accounts at the end of the same day (i.e. at the
+ * start of the next day, before any actions on it). The accounts are the ones
+ * that together represent the bank account, such as all the accounts that
+ * money is budgeted into before it's spent. Accounts that don't exist on a
+ * day count as empty.
+ */
+export function reconcileHistoryWithStatement(
+  history: FinancialHistory,
+  transactions: BankTransaction[],
+  accountIds: AccountId[],
+  options: ReconciliationOptions = {}
+): Reconciliation {
+  const tolerance = options.tolerance !== undefined ? options.tolerance : 1e-6;
+  // The last balance of each day, which is the balance at the end of the day
+  const closingBalances = new Map<Timestamp, Money>();
+  for (const transaction of transactions) {
+    if (transaction.balance !== undefined) {
+      closingBalances.set(transaction.timestamp, transaction.balance);
+    }
+  }
+  const days = _.sortBy([...closingBalances], ([timestamp]) => timestamp).map(([timestamp, statementBalance]) => {
+    const state = calculateSnapshotAtTime(history, timestamp + millisecondsPerDay, options);
+    const modelledBalance = _.sumBy(accountIds, accountId => {
+      const account = state && state.accounts.get(accountId);
+      return account ? account.fillLevel : 0;
+    });
+    return { timestamp, statementBalance, modelledBalance, discrepancy: modelledBalance - statementBalance };
+  });
+  return {
+    accountIds,
+    days,
+    discrepancies: days.filter(day => Math.abs(day.discrepancy) > tolerance)
+  };
+}
+
+function matchesRule(transaction: BankTransaction, rule: ImportRule): boolean {
+  if (typeof rule.payee === 'string' && !transaction.payee.toLowerCase().includes(rule.payee.toLowerCase())) {
+    return false;
+  }
+  // A copy without the global and sticky flags, which would make `test` start
+  // from where the last match of the same pattern ended
+  if (rule.payee instanceof RegExp &&
+    !new RegExp(rule.payee.source, rule.payee.flags.replace(/[gy]/g, '')).test(transaction.payee)) {
+    return false;
+  }
+  return (rule.minAmount === undefined || transaction.amount >= rule.minAmount) &&
+    (rule.maxAmount === undefined || transaction.amount <= rule.maxAmount);
+}
+
+// Amounts such as "-1,234.50", "$12.00" or "(12.00)", where the parentheses
+// mean a negative amount
+function parseAmount(text: string): Money {
+  let cleaned = text.replace(/[\s,$€£]/g, '');
+  let sign = 1;
+  const parenthesized = /^\((.*)\)$/.exec(cleaned);
+  if (parenthesized) {
+    cleaned = parenthesized[1];
+    sign = -1;
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    throw new BankStatementFormatError(`Invalid amount "${text}"`);
+  }
+  return sign * Number(cleaned);
+}
+
+function parseStatementDate(text: string, format: StatementDateFormat): Timestamp {
+  const parts = /^(\d{1,4})\D(\d{1,2})\D(\d{1,4})$/.exec(text);
+  if (!parts) {
+    throw new BankStatementFormatError(`Invalid date "${text}" (expected ${format})`);
+  }
+  const [first, second, third] = parts.slice(1).map(Number);
+  const [year, month, day] =
+    format === 'YYYY-MM-DD' ? [first, second, third] :
+    format === 'DD/MM/YYYY' ? [third, second, first] :
+    [third, first, second];
+  return toStatementDay(year < 100 ? 2000 + year : year, month, day, text);
+}
+
+// OFX dates are "YYYYMMDD", optionally followed by the time and time zone,
+// which are ignored since statements are by day
+function parseOfxDate(text: string): Timestamp {
+  const parts = /^(\d{4})(\d{2})(\d{2})/.exec(text);
+  if (!parts) {
+    throw new BankStatementFormatError(`Invalid OFX date "${text}"`);
+  }
+  return toStatementDay(Number(parts[1]), Number(parts[2]), Number(parts[3]), text);
+}
+
+function toStatementDay(year: number, month: number, day: number, text: string): Timestamp {
+  const timestamp = Date.UTC(year, month - 1, day);
+  const date = new Date(timestamp);
+  // `Date.UTC` rolls over out of range days and months rather than failing
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new BankStatementFormatError(`Invalid date "${text}"`);
+  }
+  return timestamp;
+}
+
+// RFC 4180 CSV: fields can be quoted, with doubled quotes inside them, and
+// quoted fields can span lines
+function parseCsv(text: string): { cells: string[], line: number }[] {
+  const rows: { cells: string[], line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') {
+          line++;
+        }
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      cells.push(cell);
+      rows.push({ cells, line: rowLine });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) {
+    throw new BankStatementFormatError('Unterminated quoted field', rowLine);
+  }
+  if (cell !== '' || cells.length) {
+    cells.push(cell);
+    rows.push({ cells, line: rowLine });
+  }
+  return rows;
+}
+
+// The contents of each element with the given name. Aggregate elements are
+// closed in both forms of OFX.
+function blocks(text: string, name: string): string[] {
+  const pattern = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, 'gi');
+  const result: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    result.push(match[1]);
+  }
+  return result;
+}
+
+// The value of a leaf element, which is only closed in XML OFX, so the value
+// ends at the next tag or line break
+function element(block: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+  if (!match || match[1].trim() === '') {
+    return undefined;
+  }
+  return match[1].trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, `'`)
+    .replace(/&amp;/g, '&');
+}
+
+function requiredElement(block: string, name: string): string {
+  const value = element(block, name);
+  if (value === undefined) {
+    throw new BankStatementFormatError(`Missing <${name}> in OFX statement`);
+  }
+  return value;
+}
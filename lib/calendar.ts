@@ -0,0 +1,321 @@
+import { AccountId, Money, MoneyRate, Timestamp } from './general';
+import { UserAction, UserActionGroup, UpdateDrain } from './user-actions';
+import { FinancialHistory, HistoryOptions } from './financial-model';
+import { AccountView, getAccountViews, getAccountViewsFromHistory } from './account-state';
+import { HistoryEvent, iterateEvents } from './history-events';
+import { Ledger, LedgerOptions, computeLedger } from './ledger';
+import { AccountTimeSeries, TimeSeriesPoint, getBalancePolylines, resampleBalances } from './time-series';
+import { FullBy, GoalCondition, GoalSeekOptions, GoalSeekResult, GoalVariable, NeverRunsOutBefore, seekGoal } from './goal-seeking';
+import { GroupView, getGroupViews, getGroupViewsFromHistory } from './account-groups';
+import { CurrencyTotal, getCurrencyTotals, getCurrencyTotalsFromHistory } from './currency-totals';
+
+/**
+ * The model works with any unit of time, as long as it's used consistently.
+ * The helpers here are for the calendar time base: timestamps in milliseconds
+ * since the Unix epoch (as for `Date.getTime`), and rates in money per
+ * millisecond. Calendar months and years are in UTC.
+ *
+ * The queries have calendar variants here, which take `CalendarTime`s and
+ * return dates alongside the timestamps. For anything else, convert times with
+ * `toTimestamp` and add dates to results with `withDate`.
+ */
+export const millisecondsPerSecond = 1000;
+export const millisecondsPerMinute = 60 * millisecondsPerSecond;
+export const millisecondsPerHour = 60 * millisecondsPerMinute;
+export const millisecondsPerDay = 24 * millisecondsPerHour;
+export const millisecondsPerWeek = 7 * millisecondsPerDay;
+// The average length of a year in the Gregorian calendar, and of a month
+export const millisecondsPerYear = 365.2425 * millisecondsPerDay;
+export const millisecondsPerMonth = millisecondsPerYear / 12;
+
+// A point in time given as a timestamp, a `Date` or a string that `Date.parse`
+// accepts, such as "2024-03-01" (midnight UTC) or "2024-03-01T09:00" (local
+// time)
+export type CalendarTime = Timestamp | Date | string;
+
+// An action group with a calendar time, such as written by hand
+export interface CalendarActionGroup {
+  timestamp: CalendarTime;
+  actions: UserAction[];
+}
+
+export interface CalendarAccountView extends AccountView {
+  // The time of the view
+  date: Date;
+  projectedToReachCapacityDate?: Date;
+  projectedToRunOutDate?: Date;
+}
+
+export type WithDate<T> = T & { date: Date };
+
+export interface CalendarLedger extends Ledger {
+  fromDate: Date;
+  toDate: Date;
+}
+
+export interface CalendarAccountTimeSeries extends AccountTimeSeries {
+  points: Array<WithDate<TimeSeriesPoint>>;
+}
+
+export type CalendarGoalCondition =
+  | CalendarFullBy
+  | CalendarNeverRunsOutBefore
+
+export interface CalendarFullBy extends Omit<FullBy, 'deadline'> {
+  deadline: CalendarTime;
+}
+
+export interface CalendarNeverRunsOutBefore extends Omit<NeverRunsOutBefore, 'deadline' | 'from'> {
+  deadline: CalendarTime;
+  from?: CalendarTime;
+}
+
+export interface CalendarGroupView extends GroupView {
+  // The time of the view
+  date: Date;
+  earliestProjectedCompletionDate?: Date;
+  latestProjectedCompletionDate?: Date;
+}
+
+export interface CalendarCurrencyTotal extends CurrencyTotal {
+  // The time of the totals
+  date: Date;
+}
+
+export function perDay(amount: Money): MoneyRate {
+  return amount / millisecondsPerDay;
+}
+
+export function perWeek(amount: Money): MoneyRate {
+  return amount / millisecondsPerWeek;
+}
+
+// The rate for an average month, so it doesn't pay exactly `amount` in any
+// particular month. See `perCalendarMonth` for that.
+export function perMonth(amount: Money): MoneyRate {
+  return amount / millisecondsPerMonth;
+}
+
+export function perYear(amount: Money): MoneyRate {
+  return amount / millisecondsPerYear;
+}
+
+/**
+ * The max rate and rate schedule for a drain that pays exactly `amount` in
+ * each calendar month from `from` until `until`, and nothing outside that. The
+ * rate steps at the start of each month, since a 31 day month pays `amount`
+ * at a lower rate than a 28 day month. Partial months at the start and end
+ * pay in proportion.
+ *
+ *     { type: 'UpdateDrain', sourceAccountId, targetAccountId, ...perCalendarMonth(50, '2024-01-01', '2025-01-01') }
+ */
+export function perCalendarMonth(
+  amount: Money,
+  from: CalendarTime,
+  until: CalendarTime
+): Pick<UpdateDrain, 'maxRate' | 'rateSchedule'> {
+  const start = toTimestamp(from);
+  const end = toTimestamp(until);
+  if (!(start < end)) {
+    throw new RangeError(`Invalid calendar month interval [${toDate(start).toISOString()}, ${toDate(end).toISOString()})`);
+  }
+  const monthlyRate = (monthStart: Timestamp) => amount / (addMonths(monthStart, 1) - monthStart);
+  const rateSchedule = [{ from: start, maxRate: monthlyRate(startOfMonth(start)) }];
+  for (let monthStart = addMonths(startOfMonth(start), 1); monthStart < end; monthStart = addMonths(monthStart, 1)) {
+    rateSchedule.push({ from: monthStart, maxRate: monthlyRate(monthStart) });
+  }
+  rateSchedule.push({ from: end, maxRate: 0 });
+  // Steps that have already started take effect immediately, so the drain
+  // can be updated at `start` or earlier
+  return { maxRate: 0, rateSchedule };
+}
+
+// The same day of the month, `months` later (or earlier, if negative). Days
+// past the end of a shorter month are clamped, so a month after January 31 is
+// the last day of February.
+export function addMonths(time: CalendarTime, months: number): Timestamp {
+  const date = toDate(toTimestamp(time));
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return target.getTime() + (date.getTime() - startOfDay(date.getTime()));
+}
+
+export function toTimestamp(time: CalendarTime): Timestamp {
+  if (typeof time === 'number') {
+    return time;
+  }
+  const timestamp = typeof time === 'string' ? Date.parse(time) : time.getTime();
+  if (isNaN(timestamp)) {
+    throw new RangeError(`Invalid date "${time}"`);
+  }
+  return timestamp;
+}
+
+export function toDate(timestamp: Timestamp): Date {
+  return new Date(timestamp);
+}
+
+// Adds the calendar date to a query result that has a timestamp, such as a
+// `HistoryEvent`, `DiscreteFlow` or `TimeSeriesPoint`
+export function withDate<T extends { timestamp: Timestamp }>(value: T): WithDate<T> {
+  return { ...value, date: toDate(value.timestamp) };
+}
+
+export function toActionGroups(actionGroups: CalendarActionGroup[]): UserActionGroup[] {
+  return actionGroups.map(({ timestamp, actions }) => ({ timestamp: toTimestamp(timestamp), actions }));
+}
+
+export function getCalendarAccountViews(
+  actions: UserActionGroup[],
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarAccountView[] {
+  const timestamp = toTimestamp(time);
+  return getAccountViews(actions, timestamp, options).map(view => toCalendarAccountView(view, timestamp));
+}
+
+export function getCalendarAccountViewsFromHistory(
+  history: FinancialHistory,
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarAccountView[] {
+  const timestamp = toTimestamp(time);
+  return getAccountViewsFromHistory(history, timestamp, options).map(view => toCalendarAccountView(view, timestamp));
+}
+
+export function* iterateCalendarEvents(
+  history: FinancialHistory,
+  from: CalendarTime,
+  to: CalendarTime = Infinity
+): IterableIterator<WithDate<HistoryEvent>> {
+  for (const event of iterateEvents(history, toTimestamp(from), toTimestamp(to))) {
+    yield withDate(event);
+  }
+}
+
+export function computeCalendarLedger(
+  actions: UserActionGroup[],
+  from: CalendarTime,
+  to: CalendarTime,
+  options: LedgerOptions = {}
+): CalendarLedger {
+  const ledger = computeLedger(actions, toTimestamp(from), toTimestamp(to), options);
+  return { ...ledger, fromDate: toDate(ledger.from), toDate: toDate(ledger.to) };
+}
+
+export function getCalendarBalancePolylines(
+  history: FinancialHistory,
+  accountIds: AccountId[],
+  from: CalendarTime,
+  to: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarAccountTimeSeries[] {
+  return getBalancePolylines(history, accountIds, toTimestamp(from), toTimestamp(to), options).map(toCalendarTimeSeries);
+}
+
+// The interval is a duration in milliseconds, such as `millisecondsPerDay`
+export function resampleCalendarBalances(
+  history: FinancialHistory,
+  accountIds: AccountId[],
+  from: CalendarTime,
+  to: CalendarTime,
+  interval: Timestamp,
+  options: HistoryOptions = {}
+): CalendarAccountTimeSeries[] {
+  return resampleBalances(history, accountIds, toTimestamp(from), toTimestamp(to), interval, options)
+    .map(toCalendarTimeSeries);
+}
+
+export function seekCalendarGoal(
+  actions: UserActionGroup[],
+  condition: CalendarGoalCondition,
+  variable: GoalVariable,
+  options: GoalSeekOptions = {}
+): GoalSeekResult {
+  return seekGoal(actions, toGoalCondition(condition), variable, options);
+}
+
+export function getCalendarGroupViews(
+  actions: UserActionGroup[],
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarGroupView[] {
+  const timestamp = toTimestamp(time);
+  return getGroupViews(actions, timestamp, options).map(view => toCalendarGroupView(view, timestamp));
+}
+
+export function getCalendarGroupViewsFromHistory(
+  history: FinancialHistory,
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarGroupView[] {
+  const timestamp = toTimestamp(time);
+  return getGroupViewsFromHistory(history, timestamp, options).map(view => toCalendarGroupView(view, timestamp));
+}
+
+export function getCalendarCurrencyTotals(
+  actions: UserActionGroup[],
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarCurrencyTotal[] {
+  const timestamp = toTimestamp(time);
+  return getCurrencyTotals(actions, timestamp, options).map(total => ({ ...total, date: toDate(timestamp) }));
+}
+
+export function getCalendarCurrencyTotalsFromHistory(
+  history: FinancialHistory,
+  time: CalendarTime,
+  options: HistoryOptions = {}
+): CalendarCurrencyTotal[] {
+  const timestamp = toTimestamp(time);
+  return getCurrencyTotalsFromHistory(history, timestamp, options).map(total => ({ ...total, date: toDate(timestamp) }));
+}
+
+function toCalendarAccountView(view: AccountView, timestamp: Timestamp): CalendarAccountView {
+  const calendarView: CalendarAccountView = { ...view, date: toDate(timestamp) };
+  if (view.projectedToReachCapacity !== undefined) {
+    calendarView.projectedToReachCapacityDate = toDate(view.projectedToReachCapacity);
+  }
+  if (view.projectedToRunOut !== undefined) {
+    calendarView.projectedToRunOutDate = toDate(view.projectedToRunOut);
+  }
+  return calendarView;
+}
+
+function toCalendarGroupView(view: GroupView, timestamp: Timestamp): CalendarGroupView {
+  const calendarView: CalendarGroupView = { ...view, date: toDate(timestamp) };
+  if (view.earliestProjectedCompletion !== undefined) {
+    calendarView.earliestProjectedCompletionDate = toDate(view.earliestProjectedCompletion);
+  }
+  if (view.latestProjectedCompletion !== undefined) {
+    calendarView.latestProjectedCompletionDate = toDate(view.latestProjectedCompletion);
+  }
+  return calendarView;
+}
+
+function toCalendarTimeSeries(series: AccountTimeSeries): CalendarAccountTimeSeries {
+  return { ...series, points: series.points.map(withDate) };
+}
+
+function toGoalCondition(condition: CalendarGoalCondition): GoalCondition {
+  switch (condition.type) {
+    case 'FullBy':
+      return { ...condition, deadline: toTimestamp(condition.deadline) };
+    case 'NeverRunsOutBefore':
+      return {
+        ...condition,
+        deadline: toTimestamp(condition.deadline),
+        from: condition.from !== undefined ? toTimestamp(condition.from) : undefined
+      };
+  }
+}
+
+function startOfMonth(timestamp: Timestamp): Timestamp {
+  const date = toDate(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function startOfDay(timestamp: Timestamp): Timestamp {
+  return timestamp - ((timestamp % millisecondsPerDay) + millisecondsPerDay) % millisecondsPerDay;
+}
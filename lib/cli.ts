@@ -0,0 +1,388 @@
+import { Money, Timestamp } from './general';
+import { UserActionGroup } from './user-actions';
+import { parseActionLog } from './action-log';
+import {
+  computeFinancialHistory, calculateSnapshotAtTime, countSnapshotsBefore, validateActions, noAccounts, HistoryOptions,
+  HistorySnapshot
+} from './financial-model';
+import { getAccountViews } from './account-state';
+import { HistoryEvent } from './history-events';
+import { describeAccountGraph, accountGraphToDot, accountGraphToGraphMl, accountGraphToMermaid, AccountGraph } from './graph-export';
+import { serializeSnapshot } from './snapshot-serialization';
+import {
+  millisecondsPerSecond, millisecondsPerMinute, millisecondsPerHour, millisecondsPerDay, millisecondsPerWeek
+} from './calendar';
+import { assertUnreachable, never } from './utils';
+
+export type TimeUnit = 'ms' | 's' | 'min' | 'h' | 'day' | 'week';
+
+const millisecondsPerUnit: { [unit in TimeUnit]: number } = {
+  ms: 1,
+  s: millisecondsPerSecond,
+  min: millisecondsPerMinute,
+  h: millisecondsPerHour,
+  day: millisecondsPerDay,
+  week: millisecondsPerWeek,
+};
+
+// How timestamps in the log relate to calendar time. Without a unit,
+// timestamps are just numbers and dates can't be used.
+export interface TimeBase {
+  unit?: TimeUnit;
+  // The calendar time of timestamp 0, in milliseconds since the Unix epoch
+  epoch: number;
+}
+
+// The file system and console, so that the CLI can be run in tests
+export interface CliIo {
+  readFile: (path: string) => string;
+  write: (text: string) => void;
+  writeError: (text: string) => void;
+  // Milliseconds since the Unix epoch
+  now: () => number;
+}
+
+// A problem with the command line, as opposed to a problem with the log
+export class CliUsageError extends Error {
+  constructor (message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const cliUsage = `Usage: ice-tray <command> <log> [options]
+
+Commands:
+  state <log> [--at <time>]                       Balances and rates of each account
+  forecast <log> [--account <id>] [--at <time>]   When accounts will fill up or run out
+  history <log> [--from <time>] [--to <time>] [--json]
+                                                  The snapshots in the history
+  validate <log>                                  Problems that prevent the log from running
+  export-graph <log> [--at <time>] [--format dot|graphml|mermaid]
+                                                  The account structure as a diagram
+
+Options:
+  --time-unit <ms|s|min|h|day|week>   What one unit of time in the log is. Needed to
+                                      use dates and "now" as times.
+  --epoch <date>                      The date of time 0 (default 1970-01-01)
+  --horizon <time>                    When recurring actions stop. By default,
+                                      schedules that have no end stop after the
+                                      last action, or as far ahead as the state
+                                      or forecast looks
+
+Times are numbers in the units of the log, dates such as 2024-03-01,
+2024-03-01T09:00 or 2024-03-01T09:00Z, or "now". The default for --at is now,
+or the time of the last action in the log if there's no --time-unit.
+`;
+
+interface Command {
+  options: string[];
+  flags: string[];
+  run: (log: UserActionGroup[], args: ParsedArgs, context: CommandContext) => number;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string>;
+  flags: Set<string>;
+}
+
+interface CommandContext {
+  io: CliIo;
+  timeBase: TimeBase;
+  historyOptions: HistoryOptions;
+  parseTime: (text: string) => Timestamp;
+  // The default for `--at`
+  now: Timestamp;
+}
+
+const globalOptions = ['time-unit', 'epoch', 'horizon'];
+
+const commands: { [name: string]: Command } = {
+  'state': { options: ['at'], flags: [], run: runState },
+  'forecast': { options: ['at', 'account'], flags: [], run: runForecast },
+  'history': { options: ['from', 'to'], flags: ['json'], run: runHistory },
+  'validate': { options: [], flags: [], run: runValidate },
+  'export-graph': { options: ['at', 'format'], flags: [], run: runExportGraph },
+};
+
+/**
+ * Runs the `ice-tray` command line tool with the given arguments (not
+ * including the node executable and script), and returns the exit code: 0 for
+ * success, 1 if the log is invalid or can't be run, and 2 for a bad command
+ * line.
+ */
+export function runCli(args: string[], io: CliIo): number {
+  if (args.length === 0 || args[0] === '--help' || args[0] === 'help') {
+    io.write(cliUsage);
+    return args.length === 0 ? 2 : 0;
+  }
+  try {
+    const [commandName, ...rest] = args;
+    const command = commands.hasOwnProperty(commandName) ? commands[commandName] : undefined;
+    if (!command) {
+      throw new CliUsageError(`Unknown command "${commandName}"`);
+    }
+    const parsed = parseArgs(rest, [...globalOptions, ...command.options], command.flags);
+    if (parsed.positional.length !== 1) {
+      throw new CliUsageError(`Expected one log file, but got ${parsed.positional.length}`);
+    }
+    const timeBase = parseTimeBase(parsed.options);
+    const parseTimeOption = (text: string) => parseTime(text, timeBase, io.now());
+    const horizon = parsed.options.get('horizon');
+    const historyOptions: HistoryOptions = horizon !== undefined ? { horizon: parseTimeOption(horizon) } : {};
+    const log = parseActionLog(io.readFile(parsed.positional[0]));
+    // Without a time unit, the present can't be placed in the time of the log,
+    // so it's taken to be the time of the last action
+    const now = timeBase.unit !== undefined ? parseTimeOption('now') : lastActionTime(log);
+    return command.run(log, parsed, { io, timeBase, historyOptions, parseTime: parseTimeOption, now });
+  } catch (e) {
+    if (e instanceof CliUsageError) {
+      io.writeError(`${e.message}\nRun "ice-tray --help" for usage\n`);
+      return 2;
+    }
+    if (e instanceof Error) {
+      io.writeError(`${e.message}\n`);
+      return 1;
+    }
+    throw e;
+  }
+}
+
+// Parses a time given on the command line: a number in the units of the log, a
+// date, or "now"
+export function parseTime(text: string, timeBase: TimeBase, now: number): Timestamp {
+  if (isNumber(text)) {
+    return Number(text);
+  }
+  const { unit, epoch } = timeBase;
+  if (unit === undefined) {
+    throw new CliUsageError(`"${text}" is not a number (dates need a --time-unit)`);
+  }
+  const milliseconds = text === 'now' ? now : parseDate(text);
+  return (milliseconds - epoch) / millisecondsPerUnit[unit];
+}
+
+// Formats a timestamp as a date if the time base has a unit, or as a number
+// otherwise. Dates at midnight UTC are shown without the time.
+export function formatTime(timestamp: Timestamp, timeBase: TimeBase): string {
+  const { unit, epoch } = timeBase;
+  if (unit === undefined) {
+    return String(timestamp);
+  }
+  const iso = new Date(epoch + timestamp * millisecondsPerUnit[unit]).toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function runState(log: UserActionGroup[], args: ParsedArgs, { io, timeBase, historyOptions, parseTime, now }: CommandContext): number {
+  const at = args.options.has('at') ? parseTime(args.options.get('at') || never) : now;
+  const views = getAccountViews(log, at, horizonAt(at, historyOptions));
+  io.write(`State at ${formatTime(at, timeBase)}\n\n`);
+  io.write(formatTable(
+    ['Account', 'Balance', 'Capacity', 'Fill rate', 'Inflow', 'Drains'],
+    views.map(view => [
+      view.accountId,
+      formatAmount(view.fillLevel),
+      formatAmount(view.capacity),
+      formatAmount(view.fillRate),
+      formatAmount(view.inflowRate),
+      view.drainRates.map(({ targetId, rate }) => `${targetId}: ${formatAmount(rate)}`).join(', ')
+    ])));
+  return 0;
+}
+
+function runForecast(log: UserActionGroup[], args: ParsedArgs, { io, timeBase, historyOptions, parseTime, now }: CommandContext): number {
+  const at = args.options.has('at') ? parseTime(args.options.get('at') || never) : now;
+  const accountId = args.options.get('account');
+  const views = getAccountViews(log, at, historyOptions)
+    .filter(view => accountId === undefined || view.accountId === accountId);
+  if (accountId !== undefined && views.length === 0) {
+    io.writeError(`Account "${accountId}" doesn't exist at ${formatTime(at, timeBase)}\n`);
+    return 1;
+  }
+  const projected = (time: Timestamp | undefined, alreadyThere: boolean) =>
+    time !== undefined ? formatTime(time, timeBase) : alreadyThere ? 'now' : 'never';
+  io.write(`Forecast from ${formatTime(at, timeBase)}\n\n`);
+  io.write(formatTable(
+    ['Account', 'Balance', 'Capacity', 'Fill rate', 'Reaches capacity', 'Runs out'],
+    views.map(view => [
+      view.accountId,
+      formatAmount(view.fillLevel),
+      formatAmount(view.capacity),
+      formatAmount(view.fillRate),
+      projected(view.projectedToReachCapacity, view.fillLevel >= view.capacity),
+      projected(view.projectedToRunOut, view.fillLevel <= 0)
+    ])));
+  return 0;
+}
+
+function runHistory(log: UserActionGroup[], args: ParsedArgs, { io, timeBase, historyOptions, parseTime }: CommandContext): number {
+  const from = args.options.has('from') ? parseTime(args.options.get('from') || never) : -Infinity;
+  const to = args.options.has('to') ? parseTime(args.options.get('to') || never) : Infinity;
+  const history = computeFinancialHistory(log, historyOptions);
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const snapshot = history.get(i, never);
+    if (snapshot.timestamp > to) {
+      break;
+    }
+    if (args.flags.has('json')) {
+      io.write(JSON.stringify(serializeSnapshot(snapshot)) + '\n');
+    } else {
+      io.write(formatSnapshot(snapshot, timeBase));
+    }
+  }
+  return 0;
+}
+
+function runValidate(log: UserActionGroup[], args: ParsedArgs, { io, timeBase, historyOptions }: CommandContext): number {
+  const diagnostics = validateActions(log, historyOptions);
+  if (diagnostics.length === 0) {
+    io.write(`OK: ${log.length} action groups\n`);
+    return 0;
+  }
+  for (const { actionGroupIndex, kind, message } of diagnostics) {
+    // Action groups are numbered from 1, as are the lines of the log after
+    // the header
+    io.write(`Action group ${actionGroupIndex + 1} (at ${formatTime(log[actionGroupIndex].timestamp, timeBase)}): ${kind}: ${message}\n`);
+  }
+  return 1;
+}
+
+function runExportGraph(log: UserActionGroup[], args: ParsedArgs, { io, historyOptions, parseTime, now }: CommandContext): number {
+  const at = args.options.has('at') ? parseTime(args.options.get('at') || never) : now;
+  const formats: { [format: string]: (graph: AccountGraph) => string } = {
+    dot: accountGraphToDot,
+    graphml: accountGraphToGraphMl,
+    mermaid: accountGraphToMermaid,
+  };
+  const format = args.options.get('format') || 'dot';
+  if (!formats.hasOwnProperty(format)) {
+    throw new CliUsageError(`Unknown graph format "${format}"`);
+  }
+  const history = computeFinancialHistory(log, horizonAt(at, historyOptions));
+  const snapshot = calculateSnapshotAtTime(history, at, historyOptions);
+  const graph = describeAccountGraph(snapshot ? snapshot.accounts : noAccounts, { formatMoney: formatAmount });
+  io.write(formats[format](graph));
+  return 0;
+}
+
+function parseArgs(args: string[], options: string[], flags: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: new Map(), flags: new Set() };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    // Both `--at 5` and `--at=5`
+    const [name, inlineValue] = splitOnce(arg.slice(2), '=');
+    if (flags.includes(name) && inlineValue === undefined) {
+      parsed.flags.add(name);
+    } else if (options.includes(name)) {
+      const value = inlineValue !== undefined ? inlineValue : args[++i];
+      if (value === undefined) {
+        throw new CliUsageError(`Missing value for --${name}`);
+      }
+      parsed.options.set(name, value);
+    } else {
+      throw new CliUsageError(`Unknown option --${name}`);
+    }
+  }
+  return parsed;
+}
+
+function parseTimeBase(options: Map<string, string>): TimeBase {
+  const unit = options.get('time-unit');
+  if (unit !== undefined && !millisecondsPerUnit.hasOwnProperty(unit)) {
+    throw new CliUsageError(`Unknown time unit "${unit}"`);
+  }
+  const epoch = options.get('epoch');
+  return {
+    unit: unit as TimeUnit | undefined,
+    epoch: epoch !== undefined ? parseDate(epoch) : 0
+  };
+}
+
+// Dates are the same as a `CalendarTime` string: dates without a time are
+// midnight UTC, and dates with a time but no time zone are local time (as for
+// `Date.parse`). Numbers aren't dates, even though `Date.parse` accepts some.
+function parseDate(text: string): number {
+  const milliseconds = isNumber(text) ? NaN : Date.parse(text);
+  if (isNaN(milliseconds)) {
+    throw new CliUsageError(`Invalid date "${text}" (expected a date such as 2024-03-01 for midnight UTC, ` +
+      '2024-03-01T09:00 for local time, 2024-03-01T09:00Z or 2024-03-01T09:00+10:00)');
+  }
+  return milliseconds;
+}
+
+function isNumber(text: string): boolean {
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text);
+}
+
+function lastActionTime(log: UserActionGroup[]): Timestamp {
+  return log.length > 0 ? log.reduce((latest, actionGroup) => Math.max(latest, actionGroup.timestamp), -Infinity) : 0;
+}
+
+// The state at a time doesn't depend on recurring actions after it, so they
+// don't need to be computed (and logs with unbounded schedules don't need a
+// horizon)
+function horizonAt(time: Timestamp, options: HistoryOptions): HistoryOptions {
+  return { ...options, horizon: Math.min(time, options.horizon !== undefined ? options.horizon : Infinity) };
+}
+
+function formatSnapshot(snapshot: HistorySnapshot, timeBase: TimeBase): string {
+  const events = snapshot.events
+    .filter(event => event.type !== 'ActionApplied')
+    .map(describeEvent);
+  const heading = `${formatTime(snapshot.timestamp, timeBase)}${events.size ? `: ${events.join(', ')}` : ''}\n`;
+  const table = formatTable(
+    ['Account', 'Balance', 'Capacity', 'Fill rate'],
+    [...snapshot.accounts.values()].map(account => [
+      account.accountId,
+      formatAmount(account.fillLevel),
+      formatAmount(account.capacity),
+      formatAmount(account.fillRate)
+    ]));
+  return `${heading}${table.replace(/^(?=.)/gm, '  ')}\n`;
+}
+
+function describeEvent(event: HistoryEvent): string {
+  switch (event.type) {
+    case 'ActionApplied': return 'Actions applied';
+    case 'AccountFilled': return `${event.accountId} filled`;
+    case 'AccountEmptied': return `${event.accountId} emptied`;
+    case 'OverflowStarted': return `${event.accountId} started overflowing into ${event.targetId}`;
+    case 'OverflowStopped': return `${event.accountId} stopped overflowing into ${event.targetId}`;
+    case 'DrainStarved': return `drain from ${event.accountId} to ${event.targetId} starved`;
+    case 'DrainRestored': return `drain from ${event.accountId} to ${event.targetId} restored`;
+    case 'OnFullApplied': return `${event.accountId} full` +
+      (event.targetId !== undefined ? `, now overflowing into ${event.targetId}` : '') +
+      (event.mark !== undefined ? ` (${event.mark})` : '');
+    case 'AccountFrozen': return `${event.accountId} frozen`;
+    case 'AccountUnfrozen': return `${event.accountId} unfrozen`;
+    case 'AccountClosed': return `${event.accountId} closed into ${event.destinationId}`;
+    default: return assertUnreachable(event);
+  }
+}
+
+// Right-aligns the columns that are all numbers
+function formatTable(headings: string[], rows: string[][]): string {
+  const columns = headings.map((heading, column) => ({
+    width: Math.max(heading.length, ...rows.map(row => row[column].length)),
+    numeric: rows.every(row => row[column] !== '' && !isNaN(Number(row[column])))
+  }));
+  const formatRow = (row: string[]) => row
+    .map((cell, column) => columns[column].numeric ? cell.padStart(columns[column].width) : cell.padEnd(columns[column].width))
+    .join('  ')
+    .trimEnd();
+  return [headings, ...rows].map(formatRow).join('\n') + '\n';
+}
+
+function formatAmount(amount: Money): string {
+  return String(Math.round(amount * 100) / 100);
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + separator.length)];
+}
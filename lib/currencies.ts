@@ -0,0 +1,50 @@
+import * as i from 'immutable';
+import { CurrencyCode } from './general';
+import { UserActionGroup } from './user-actions';
+
+// Conversion rates by currency pair (see `currencyPair`)
+export type ConversionRates = i.Map<string, number>;
+
+export const noConversionRates: ConversionRates = i.Map<string, number>();
+
+// Anything that rates can be looked up in by currency pair, such as
+// `ConversionRates` or a plain `Map`
+export interface ConversionRateLookup {
+  get(pair: string): number | undefined;
+}
+
+export function currencyPair(fromCurrency: CurrencyCode, toCurrency: CurrencyCode): string {
+  return JSON.stringify([fromCurrency, toCurrency]);
+}
+
+/**
+ * The factor to multiply an amount by when it flows from an account in one
+ * currency to an account in another, or undefined if there is no rate for the
+ * pair. Money flows between accounts in the same currency (or without a
+ * currency) unchanged.
+ */
+export function conversionFactor(
+  rates: ConversionRateLookup,
+  fromCurrency: CurrencyCode | undefined,
+  toCurrency: CurrencyCode | undefined
+): number | undefined {
+  if (fromCurrency === undefined || toCurrency === undefined || fromCurrency === toCurrency) {
+    return 1;
+  }
+  const rate = rates.get(currencyPair(fromCurrency, toCurrency));
+  if (rate !== undefined) {
+    return rate;
+  }
+  const inverseRate = rates.get(currencyPair(toCurrency, fromCurrency));
+  return inverseRate !== undefined ? 1 / inverseRate : undefined;
+}
+
+// Updates the conversion rates according to the actions in the group
+export function applyConversionRateActions(rates: ConversionRates, actionGroup: UserActionGroup): ConversionRates {
+  for (const action of actionGroup.actions) {
+    if (action.type === 'SetConversionRate') {
+      rates = rates.set(currencyPair(action.fromCurrency, action.toCurrency), action.rate);
+    }
+  }
+  return rates;
+}
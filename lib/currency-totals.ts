@@ -0,0 +1,56 @@
+import _ from 'lodash';
+import { AccountId, CurrencyCode, Money, MoneyRate, Timestamp } from "./general";
+import { UserActionGroup } from "./user-actions";
+import { FinancialHistory, HistoryOptions } from "./financial-model";
+import { AccountView, getAccountViews, getAccountViewsFromHistory } from "./account-state";
+
+// The combined state of the accounts in one currency at a particular time,
+// since balances in different currencies can't be added together
+export interface CurrencyTotal {
+  // Undefined for the accounts without a currency
+  currency?: CurrencyCode;
+  accountIds: AccountId[];
+  capacity: Money;
+  fillLevel: Money;
+  fillRate: MoneyRate;
+}
+
+export function getCurrencyTotals(
+  actions: UserActionGroup[],
+  time: Timestamp,
+  options: HistoryOptions = {}
+): CurrencyTotal[] {
+  return totalAccountViews(getAccountViews(actions, time, options));
+}
+
+// In order of the first account in each currency
+export function getCurrencyTotalsFromHistory(
+  history: FinancialHistory,
+  time: Timestamp,
+  options: HistoryOptions = {}
+): CurrencyTotal[] {
+  return totalAccountViews(getAccountViewsFromHistory(history, time, options));
+}
+
+function totalAccountViews(views: AccountView[]): CurrencyTotal[] {
+  const accountViewsByCurrency = new Map<CurrencyCode | undefined, AccountView[]>();
+  for (const view of views) {
+    const views = accountViewsByCurrency.get(view.currency) || [];
+    views.push(view);
+    accountViewsByCurrency.set(view.currency, views);
+  }
+  return [...accountViewsByCurrency].map(([currency, accountViews]) => totalCurrency(currency, accountViews));
+}
+
+function totalCurrency(currency: CurrencyCode | undefined, accountViews: AccountView[]): CurrencyTotal {
+  const total: CurrencyTotal = {
+    accountIds: accountViews.map(account => account.accountId),
+    capacity: _.sumBy(accountViews, account => account.capacity),
+    fillLevel: _.sumBy(accountViews, account => account.fillLevel),
+    fillRate: _.sumBy(accountViews, account => account.fillRate),
+  };
+  if (currency !== undefined) {
+    total.currency = currency;
+  }
+  return total;
+}
@@ -0,0 +1,145 @@
+import _ from 'lodash';
+import { UserActionGroup } from './user-actions';
+import { Timestamp } from './general';
+import {
+  FinancialHistory, Accounts, HistorySnapshot, HistoryOptions, noAccounts, continueFinancialHistory,
+  countSnapshotsBefore, calculateSnapshotAtTime, initialHistory, defaultHorizon
+} from './financial-model';
+import { checkAccountGraph, IceTrayValidationError } from './validation';
+
+/**
+ * Holds the financial history for a log of action groups, and keeps it up to
+ * date as action groups are added, updated or removed.
+ *
+ * Only the part of the history at or after a change is recomputed, so
+ * appending an action group to the end of the log only needs to compute
+ * forward from the last snapshot.
+ *
+ * Action groups are identified by their index in timestamp order (see
+ * `actions`). Action groups with the same timestamp are kept in the order they
+ * were added.
+ *
+ * Without a horizon in the options, schedules without an end are expanded up
+ * to the last action group, and then lazily up to the latest time queried.
+ */
+export class FinancialEngine {
+  private sortedActions: UserActionGroup[] = [];
+  private currentHistory: FinancialHistory;
+  private horizon: Timestamp = -Infinity;
+
+  constructor(actions: UserActionGroup[] = [], private options: HistoryOptions = {}) {
+    this.currentHistory = initialHistory([], options);
+    this.recompute(_.sortBy(actions, 'timestamp'), -Infinity);
+  }
+
+  get actions(): ReadonlyArray<UserActionGroup> {
+    return this.sortedActions;
+  }
+
+  get history(): FinancialHistory {
+    return this.currentHistory;
+  }
+
+  // Returns the index of the new action group
+  addActionGroup(actionGroup: UserActionGroup): number {
+    const index = _.sortedLastIndexBy(this.sortedActions, actionGroup, 'timestamp');
+    const actions = [...this.sortedActions];
+    actions.splice(index, 0, actionGroup);
+    this.recompute(actions, actionGroup.timestamp);
+    return index;
+  }
+
+  // Adds several action groups at once, recomputing the history only once
+  addActionGroups(actionGroups: UserActionGroup[]) {
+    if (actionGroups.length === 0) {
+      return;
+    }
+    const actions = [...this.sortedActions];
+    for (const actionGroup of _.sortBy(actionGroups, 'timestamp')) {
+      actions.splice(_.sortedLastIndexBy(actions, actionGroup, 'timestamp'), 0, actionGroup);
+    }
+    this.recompute(actions, Math.min(...actionGroups.map(actionGroup => actionGroup.timestamp)));
+  }
+
+  // Returns the new index of the action group, which may have moved if its
+  // timestamp changed
+  updateActionGroup(index: number, actionGroup: UserActionGroup): number {
+    const previous = this.getActionGroup(index);
+    const actions = [...this.sortedActions];
+    actions.splice(index, 1);
+    const newIndex = _.sortedLastIndexBy(actions, actionGroup, 'timestamp');
+    actions.splice(newIndex, 0, actionGroup);
+    this.recompute(actions, Math.min(previous.timestamp, actionGroup.timestamp));
+    return newIndex;
+  }
+
+  removeActionGroup(index: number) {
+    const previous = this.getActionGroup(index);
+    const actions = [...this.sortedActions];
+    actions.splice(index, 1);
+    this.recompute(actions, previous.timestamp);
+  }
+
+  calculateSnapshotAtTime(targetTime: Timestamp): HistorySnapshot | undefined {
+    if (this.options.horizon === undefined && targetTime > this.horizon) {
+      this.recompute(this.sortedActions, this.horizon, targetTime);
+    }
+    return calculateSnapshotAtTime(this.currentHistory, targetTime, this.options);
+  }
+
+  calculateStateAtTime(targetTime: Timestamp): Accounts {
+    const state = this.calculateSnapshotAtTime(targetTime);
+    return state ? state.accounts : noAccounts;
+  }
+
+  private getActionGroup(index: number): UserActionGroup {
+    if (index < 0 || index >= this.sortedActions.length) {
+      throw new RangeError(`Action group index ${index} is out of range`);
+    }
+    return this.sortedActions[index];
+  }
+
+  // Recomputes the history from the last snapshot before the given time. The
+  // engine is left unchanged if the new actions are invalid.
+  private recompute(sortedActions: UserActionGroup[], fromTimestamp: Timestamp, minimumHorizon: Timestamp = -Infinity) {
+    const diagnostics = checkAccountGraph(sortedActions, this.options.initialSnapshot);
+    if (diagnostics.length) {
+      throw new IceTrayValidationError(diagnostics);
+    }
+    const horizon = this.horizonFor(sortedActions, minimumHorizon);
+    // The history after the old horizon continued as if the recurring actions
+    // had stopped
+    if (horizon > this.horizon) {
+      fromTimestamp = Math.min(fromTimestamp, this.horizon);
+    }
+    // The initial snapshot (if any) is never truncated, so the actions must
+    // all be after it
+    const initialSnapshotCount = initialHistory(sortedActions, this.options).size;
+    const snapshotCount = Math.max(countSnapshotsBefore(this.currentHistory, fromTimestamp), initialSnapshotCount);
+    const firstActionGroupIndex = _.sortedIndexBy<{ timestamp: Timestamp }>(sortedActions, { timestamp: fromTimestamp }, 'timestamp');
+    const history = continueFinancialHistory(
+      this.currentHistory.setSize(snapshotCount),
+      sortedActions,
+      firstActionGroupIndex,
+      diagnostics,
+      { ...this.options, horizon });
+    if (diagnostics.length) {
+      throw new IceTrayValidationError(diagnostics);
+    }
+    this.sortedActions = sortedActions;
+    this.currentHistory = history;
+    this.horizon = horizon;
+  }
+
+  // Schedules that have been expanded stay expanded, even if the actions that
+  // took the horizon that far are removed
+  private horizonFor(sortedActions: UserActionGroup[], minimumHorizon: Timestamp): Timestamp {
+    if (this.options.horizon !== undefined) {
+      return this.options.horizon;
+    }
+    const horizon = defaultHorizon(sortedActions);
+    return horizon < Infinity
+      ? Math.max(horizon, minimumHorizon, this.horizon < Infinity ? this.horizon : -Infinity)
+      : horizon;
+  }
+}
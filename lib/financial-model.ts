@@ -1,53 +1,143 @@
-import { UserActionGroup, CreateOrUpdateAccount, UserAction, InjectMoney, UpdateDrain, DeleteDrain, DeleteAccount } from './user-actions';
-import { Timestamp, AccountId, Money, MoneyRate } from './general';
+import {
+  UserActionGroup, CreateOrUpdateAccount, UserAction, InjectMoney, UpdateDrain, DeleteDrain, DeleteAccount, InflowPolicy,
+  Withdraw, Transfer, ShortfallPolicy, DrainRateStep, OnFull, FreezeAccount, UnfreezeAccount, CloseAccount,
+  CompletePurchase
+} from './user-actions';
+import { Timestamp, AccountId, Money, MoneyRate, GroupId, ScheduleId, CurrencyCode } from './general';
 import _ from 'lodash';
 import * as i from 'immutable';
 import { Record, RecordOf } from 'immutable';
 import { unexpected, assertUnreachable, never } from './utils';
+import { checkAccountGraph, IceTrayValidationError, ValidationDiagnostic } from './validation';
+import { MoneyArithmetic, floatingPointArithmetic } from './money-arithmetic';
+import {
+  Schedules, noSchedules, applyScheduleActions, nextOccurrence, nextOccurrenceTime, advanceSchedule, isUnbounded,
+  unboundedSchedules
+} from './schedules';
+import { HistoryEvent } from './history-events';
+import { ConversionRates, noConversionRates, applyConversionRateActions, conversionFactor } from './currencies';
 
 interface AccountStateFields {
   // Static (updated through actions)
   accountId: AccountId;
   capacity: Money;
+  // The capacity in the representation of the arithmetic (see
+  // `HistoryOptions.arithmetic`), if that isn't `capacity` itself
+  exactCapacity?: unknown;
   overflowTargetId?: AccountId;
   drainSizes: i.Map<AccountId, MoneyRate>;
+  // Only present for drains that were given a priority or weight
+  drainPriorities: i.Map<AccountId, number>;
+  drainWeights: i.Map<AccountId, number>;
+  // The steps of each drain's rate schedule that are still to come
+  drainRateSchedules: i.Map<AccountId, DrainRateStep[]>;
+  // Only present for drains that take a fraction of the balance
+  drainFractions: i.Map<AccountId, number>;
+  inflowPolicy: InflowPolicy;
+  groupId?: GroupId;
+  interestRate: number;
+  currency?: CurrencyCode;
+  // Change in capacity per unit of time, until `capacityRampEnd` (if defined)
+  // or until the capacity reaches zero
+  capacityRate: MoneyRate;
+  capacityRampEnd?: Timestamp;
+  // Applied (and cleared) when the account next becomes full
+  onFull?: OnFull;
+  mark?: string;
+  // See `FreezeAccount`
+  frozen: boolean;
 
   // Transient (updated through `updateTransients`)
   fillLevel: Money;
+  // Like `exactCapacity`
+  exactFillLevel?: unknown;
   fillRate: MoneyRate;
   overflowRate: MoneyRate;
   drainEffectiveRates: i.Map<AccountId, MoneyRate>;
   drainInflows: i.Map<AccountId, MoneyRate>;
   overflowInflows: i.Map<AccountId, MoneyRate>;
+  // Defined while the fill level is free to move with the balance-proportional
+  // flows (interest and balance-fraction drains), in which case the fill level
+  // follows `dL/dt = growthRate * L + b` rather than a straight line, and the
+  // fill rate and balance-fraction drain rates are only instantaneous. See
+  // `projectFillLevel`.
+  growthRate?: number;
 }
 
 export type AccountState = RecordOf<AccountStateFields>;
 export const AccountState = Record<AccountStateFields>({
   accountId: '',
   capacity: 0,
+  exactCapacity: undefined,
   fillLevel: 0,
+  exactFillLevel: undefined,
   fillRate: 0,
   overflowTargetId: undefined,
   overflowRate: 0,
   drainSizes: i.Map<AccountId, MoneyRate>(),
+  drainPriorities: i.Map<AccountId, number>(),
+  drainWeights: i.Map<AccountId, number>(),
+  drainRateSchedules: i.Map<AccountId, DrainRateStep[]>(),
+  drainFractions: i.Map<AccountId, number>(),
+  inflowPolicy: 'DrainsFirst',
+  groupId: undefined,
+  interestRate: 0,
+  currency: undefined,
+  capacityRate: 0,
+  capacityRampEnd: undefined,
+  onFull: undefined,
+  mark: undefined,
+  frozen: false,
   drainEffectiveRates: i.Map<AccountId, MoneyRate>(),
   drainInflows: i.Map<AccountId, MoneyRate>(),
   overflowInflows: i.Map<AccountId, MoneyRate>(),
+  growthRate: undefined,
 });
 
 export type Accounts = i.Map<AccountId, AccountState>;
 
+// An account that was closed by `CloseAccount` or `CompletePurchase`
+export interface ClosedAccountFields {
+  timestamp: Timestamp;
+  destinationAccountId: AccountId;
+  // The amount withdrawn by `CompletePurchase`
+  purchaseAmount?: Money;
+  // The final state of the account, just before it was closed
+  account: AccountState;
+}
+
+export type ClosedAccount = RecordOf<ClosedAccountFields>;
+export const ClosedAccount = Record<ClosedAccountFields>({
+  timestamp: 0,
+  destinationAccountId: '',
+  purchaseAmount: undefined,
+  account: AccountState(),
+});
+
 export interface HistorySnapshotFields {
   timestamp: Timestamp;
   accounts: i.Map<AccountId, AccountState>;
+  schedules: Schedules;
+  conversionRates: ConversionRates;
+  // The accounts that have been closed, until their IDs are used again
+  closedAccounts: i.Map<AccountId, ClosedAccount>;
+  // Why the snapshot exists (see `HistoryEvent`). Projections between
+  // snapshots have no events.
+  events: i.List<HistoryEvent>;
 }
 
 export type HistorySnapshot = RecordOf<HistorySnapshotFields>;
 export const HistorySnapshot = Record<HistorySnapshotFields>({
   timestamp: 0,
-  accounts: i.Map<AccountId, AccountState>()
+  accounts: i.Map<AccountId, AccountState>(),
+  schedules: noSchedules,
+  conversionRates: noConversionRates,
+  closedAccounts: i.Map<AccountId, ClosedAccount>(),
+  events: i.List<HistoryEvent>()
 });
 
+const noEvents = i.List<HistoryEvent>();
+
 interface AccountNonlinearity {
   // Note: the modifier is used to avoid issues of numeric inaccuracy. That is,
   // we could calculate the next nonlinearity event, but due to calculation
@@ -55,12 +145,16 @@ interface AccountNonlinearity {
   // The modifier is a way to force the relevant part of the state to the exact
   // trigger of the nonlinearity. For example, if the nonlinearity is from an
   // account getting full, then modifier will _make_ the account full. The
-  // modifier is applied after the linear projection, and is intended to clean
-  // up any numeric errors in projection. The modifier is a function rather than
-  // a state just for performance reasons, since the code that calculates the
-  // modifier does it on all accounts with nonlinearities, even though most of
-  // these are not used in each step.
+  // modifier is applied as part of the linear projection, and the fill level
+  // it produces is passed to the `MoneyArithmetic` as a pinned level, so that
+  // money is still conserved when the modifier corrects a numeric error. The
+  // modifier is a function rather than a state just for performance reasons,
+  // since the code that calculates the modifier does it on all accounts with
+  // nonlinearities, even though most of these are not used in each step.
   modifier: (account: AccountState) => AccountState;
+  // Whether the modifier sets the fill level as described above, as opposed to
+  // only changing how the account behaves from now on (e.g. a drain rate step)
+  pinsFillLevel: boolean;
   accountId: AccountId;
 }
 
@@ -69,6 +163,50 @@ interface NonLinearities {
   accounts: AccountNonlinearity[];
 }
 
+export interface HistoryOptions {
+  // The numeric backend for balances. Defaults to `floatingPointArithmetic`.
+  arithmetic?: MoneyArithmetic<unknown>;
+  // Called for each discrete flow as the history is computed
+  onDiscreteFlow?: (flow: DiscreteFlow) => void;
+  // Recurring actions are only applied up to and including this time, and the
+  // history after it continues as if they had stopped. Defaults to Infinity if
+  // every schedule has an end or a count, and otherwise to the time of the
+  // last action group (see `defaultHorizon`).
+  horizon?: Timestamp;
+  // A snapshot to continue from (such as a checkpoint loaded with
+  // `deserializeSnapshot`), instead of starting with no accounts. The actions
+  // must all be after the snapshot, and the snapshot is the first in the
+  // resulting history.
+  initialSnapshot?: HistorySnapshot;
+}
+
+export type DiscreteFlowKind =
+  | 'Injection' // Money entering the model
+  | 'Withdrawal' // Money leaving the model, including the balance of a deleted account
+  | 'Overflow' // A once-off overflow, such as when an injection takes an account past capacity
+  | 'Transfer' // Money moved from one account to another by a `Transfer` action
+
+// A movement of money at a single point in time, as opposed to the continuous
+// flows through drains and overflows
+export interface DiscreteFlow {
+  timestamp: Timestamp;
+  kind: DiscreteFlowKind;
+  // Undefined for money entering the model
+  sourceId?: AccountId;
+  // Undefined for money leaving the model
+  targetId?: AccountId;
+  // In the currency of the source, or of the target for money entering the
+  // model
+  amount: Money;
+  // The amount that arrived, if the flow was converted to the target's
+  // currency
+  targetAmount?: Money;
+}
+
+// A discrete flow whose timestamp is not known yet, because it's being
+// calculated deep within the processing of a single point in time
+type PendingFlow = Omit<DiscreteFlow, 'timestamp'>;
+
 export type FinancialHistory = i.List<HistorySnapshot>;
 export const FinancialHistory = () => i.List<HistorySnapshot>();
 
@@ -76,68 +214,363 @@ export const noAccounts: Accounts = i.Map<AccountId, AccountState>();
 
 export const emptyAccount: AccountState = AccountState();
 
-export function calculateStateAtTime(actions: UserActionGroup[], targetTime: number): Accounts {
-  const history: FinancialHistory = computeFinancialHistory(actions);
+// Whether the fixed-rate drains of the account are waiting for it to stop
+// overflowing, because of its "OverflowFirst" inflow policy. A full account
+// with that policy only overflows while its drains wait.
+export function drainsWaitForOverflow(account: AccountState): boolean {
+  return account.inflowPolicy === 'OverflowFirst' && account.overflowRate > 0;
+}
+
+export function calculateStateAtTime(
+  actions: UserActionGroup[],
+  targetTime: number,
+  options: HistoryOptions = {}
+): Accounts {
+  // Recurring actions after the target time can't affect the state at the
+  // target time
+  const horizon = Math.min(targetTime, options.horizon !== undefined ? options.horizon : Infinity);
+  const history: FinancialHistory = computeFinancialHistory(actions, { ...options, horizon });
+  const state = calculateSnapshotAtTime(history, targetTime, options);
+  return state ? state.accounts : noAccounts;
+}
+
+// Projects the last snapshot before the target time (if there is one) forward
+// to the target time. The options should match those used to compute the
+// history.
+export function calculateSnapshotAtTime(
+  history: FinancialHistory,
+  targetTime: number,
+  options: HistoryOptions = {}
+): HistorySnapshot | undefined {
+  const index = countSnapshotsBefore(history, targetTime);
+  if (index === 0) {
+    return undefined;
+  }
+  return projectLinear(history.get(index - 1, never), targetTime, getArithmetic(options));
+}
+
+// The number of snapshots in the history that are strictly before the given
+// time. The snapshots are ordered by timestamp, so this is a binary search.
+export function countSnapshotsBefore(history: FinancialHistory, time: Timestamp): number {
+  let low = 0;
+  let high = history.size;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (history.get(mid, never).timestamp < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function computeFinancialHistory(actions: UserActionGroup[], options: HistoryOptions = {}): FinancialHistory {
+  const diagnostics = checkAccountGraph(actions, options.initialSnapshot);
+  if (diagnostics.length) {
+    throw new IceTrayValidationError(diagnostics);
+  }
+  const horizon = options.horizon !== undefined ? options.horizon : defaultHorizon(actions);
+  const history = replaySortedActions(actions, diagnostics, { ...options, horizon });
+  if (diagnostics.length) {
+    throw new IceTrayValidationError(diagnostics);
+  }
+  return history;
+}
+
+// Schedules without an end can only be expanded up to a finite time, which by
+// default is the time of the last action group. Queries about later times
+// extend the horizon as far as they need (see `extendHorizon`).
+export function defaultHorizon(actions: UserActionGroup[]): Timestamp {
+  return unboundedSchedules(actions).length > 0 ? lastActionGroupTime(actions) : Infinity;
+}
 
-  for (let i = history.size - 1; i >= 0; i--) {
-    const state = history.get(i, never);
-    if (state.timestamp < targetTime) {
-      return projectLinear(state, targetTime).accounts;
+/**
+ * Recomputes the part of a history from `horizon` onwards with the later
+ * horizon in the options, given the same actions that it was computed from.
+ * The snapshots before the old horizon don't depend on the recurring actions
+ * after it, so they're kept.
+ */
+export function extendHorizon(
+  history: FinancialHistory,
+  actions: UserActionGroup[],
+  horizon: Timestamp,
+  options: HistoryOptions
+): FinancialHistory {
+  const order = _.sortBy(_.range(actions.length), i => actions[i].timestamp);
+  const sortedActions = order.map(i => actions[i]);
+  // The initial snapshot (if any) is never truncated
+  const snapshotCount = Math.max(countSnapshotsBefore(history, horizon), initialHistory(sortedActions, options).size);
+  const firstActionGroupIndex = _.sortedIndexBy<{ timestamp: Timestamp }>(sortedActions, { timestamp: horizon }, 'timestamp');
+  const diagnostics: ValidationDiagnostic[] = [];
+  const extended = continueFinancialHistory(
+    history.setSize(snapshotCount), sortedActions, firstActionGroupIndex, diagnostics, options);
+  if (diagnostics.length) {
+    for (const diagnostic of diagnostics) {
+      diagnostic.actionGroupIndex = order[diagnostic.actionGroupIndex];
     }
+    throw new IceTrayValidationError(diagnostics);
   }
+  return extended;
+}
+
+/**
+ * Checks the actions for problems that would prevent the financial history
+ * from being computed, without throwing.
+ *
+ * Problems with the balances (such as overdrawn accounts) can only be found by
+ * replaying the actions, which is only possible if the account graph is well
+ * formed, so these are only reported if there are no problems with the graph.
+ * Recurring actions are only checked up to the horizon, which defaults to the
+ * time of the last action group.
+ */
+export function validateActions(actions: UserActionGroup[], options: HistoryOptions = {}): ValidationDiagnostic[] {
+  const diagnostics = checkAccountGraph(actions, options.initialSnapshot);
+  if (diagnostics.length === 0) {
+    const horizon = options.horizon !== undefined ? options.horizon : lastActionGroupTime(actions);
+    replaySortedActions(actions, diagnostics, { ...options, horizon });
+  }
+  return diagnostics;
+}
 
-  return noAccounts;
+function lastActionGroupTime(actions: UserActionGroup[]): Timestamp {
+  return actions.reduce((latest, actionGroup) => Math.max(latest, actionGroup.timestamp), -Infinity);
 }
 
-export function computeFinancialHistory(actions: UserActionGroup[]): FinancialHistory {
-  // TODO: Check for malformed account graphs, with cycles or self-references
-  // TODO: Check for negative flow rates
-  // TODO: Validate for invalid transactions, such as taking too much out of account
-  actions = _.sortBy(actions, 'timestamp');
-  return i.List<HistorySnapshot>().withMutations(history => {
-    let state: HistorySnapshot = HistorySnapshot({ timestamp: -Infinity, accounts: noAccounts });
+function replaySortedActions(
+  actions: UserActionGroup[],
+  diagnostics: ValidationDiagnostic[],
+  options: HistoryOptions
+): FinancialHistory {
+  const order = _.sortBy(_.range(actions.length), i => actions[i].timestamp);
+  const history = continueFinancialHistory(initialHistory(actions, options), order.map(i => actions[i]), 0, diagnostics, options);
+  // Diagnostics refer to the original order of the actions
+  for (const diagnostic of diagnostics) {
+    diagnostic.actionGroupIndex = order[diagnostic.actionGroupIndex];
+  }
+  return history;
+}
+
+// The history before any actions are applied, which is either empty or just
+// the initial snapshot
+export function initialHistory(actions: UserActionGroup[], options: HistoryOptions): FinancialHistory {
+  const { initialSnapshot } = options;
+  if (!initialSnapshot) {
+    return FinancialHistory();
+  }
+  for (const actionGroup of actions) {
+    if (actionGroup.timestamp <= initialSnapshot.timestamp) {
+      throw new RangeError(`Action group at ${actionGroup.timestamp} is not after the initial snapshot at ${initialSnapshot.timestamp}`);
+    }
+  }
+  return FinancialHistory().push(initialSnapshot);
+}
+
+/**
+ * Continues the given history by applying the action groups from
+ * `firstActionGroupIndex` onwards (and any recurring actions that they
+ * schedule), starting from the last snapshot in the history.
+ *
+ * The action groups must be sorted by timestamp, and the history must not
+ * contain any snapshots at or after the first action group to be applied.
+ * Action groups before `firstActionGroupIndex` are assumed to already be
+ * reflected in the history.
+ */
+export function continueFinancialHistory(
+  history: FinancialHistory,
+  sortedActions: UserActionGroup[],
+  firstActionGroupIndex: number,
+  diagnostics: ValidationDiagnostic[],
+  options: HistoryOptions = {}
+): FinancialHistory {
+  const arithmetic = getArithmetic(options);
+  return history.withMutations(history => {
+    let state: HistorySnapshot = history.size > 0
+      ? history.get(history.size - 1, never)
+      : HistorySnapshot({ timestamp: -Infinity, accounts: noAccounts });
     const dirtyAccounts: AccountId[] = [];
-    for (const actionGroup of actions) {
-      // "Natural" non-linearity events that occur between user actions, such as accounts reaching capacity
-      // TODO: Test cases for this
-      for (const intermediate of computeIntermediateStates(state, actionGroup.timestamp)) {
+    const flows: PendingFlow[] = [];
+    const closedAccounts: ClosedAccount[] = [];
+
+    const applyActionGroup = (
+      actionGroup: UserActionGroup,
+      getActionGroupIndex: () => number,
+      scheduleId?: ScheduleId
+    ) => {
+      // "Natural" non-linearity events that occur between user actions, such as accounts reaching capacity.
+      // Those at the same time as the action group happen before it.
+      for (const intermediate of computeIntermediateStates(state, actionGroup.timestamp, arithmetic, options)) {
         state = intermediate;
         history.push(state);
       }
       const timestamp = actionGroup.timestamp;
-      state = projectLinear(state, timestamp);
-      state = state.set('accounts', applyActions(state.accounts, actionGroup, dirtyAccounts));
-      state = state.set('accounts', updateTransients(state.accounts, dirtyAccounts));
+      const previousAccounts = state.accounts;
+      state = projectLinear(state, timestamp, arithmetic);
+      const roundedOntoLimits = findRoundedOntoLimits(previousAccounts, state.accounts);
+      const stateBeforeActions = state;
+      state = state.set('conversionRates', applyConversionRateActions(state.conversionRates, actionGroup));
+      if (state.conversionRates !== stateBeforeActions.conversionRates) {
+        // Every flow between currencies needs to be converted at the new rate
+        for (const [accountId, account] of state.accounts) {
+          if (account.currency !== undefined) {
+            dirtyAccounts.push(accountId);
+          }
+        }
+      }
+      state = state.set('accounts',
+        applyActions(state.accounts, actionGroup, dirtyAccounts, flows, closedAccounts, arithmetic, state.conversionRates));
+      state = state.set('schedules', applyScheduleActions(state.schedules, actionGroup));
+      state = state.set('closedAccounts', state.closedAccounts.withMutations(closed => {
+        for (const closedAccount of closedAccounts) {
+          closed.set(closedAccount.account.accountId, closedAccount);
+        }
+        // An ID that's used again is no longer closed
+        for (const accountId of closed.keys()) {
+          if (state.accounts.has(accountId)) {
+            closed.delete(accountId);
+          }
+        }
+      }));
+      const rejected = checkForOverdraw(state.accounts, actionGroup, getActionGroupIndex, diagnostics);
+      if (rejected) {
+        // The action group is rejected as a whole
+        state = stateBeforeActions;
+        dirtyAccounts.length = 0;
+        flows.length = 0;
+        closedAccounts.length = 0;
+      }
+      dirtyAccounts.push(...roundedOntoLimits.filter(accountId => state.accounts.has(accountId)));
+      state = state.set('accounts', updateTransients(state.accounts, dirtyAccounts, flows, arithmetic, state.conversionRates));
+      if (!rejected) {
+        const applied: HistoryEvent = scheduleId !== undefined
+          ? { type: 'ActionApplied', timestamp, actionGroup, scheduleId }
+          : { type: 'ActionApplied', timestamp, actionGroup };
+        const closed: HistoryEvent[] = closedAccounts.map(({ account, destinationAccountId }) =>
+          ({ type: 'AccountClosed', timestamp, accountId: account.accountId, destinationId: destinationAccountId, actionGroup }));
+        closedAccounts.length = 0;
+        state = state.set('events', i.List([
+          applied,
+          ...detectEvents(previousAccounts, state.accounts, timestamp, actionGroup),
+          ...closed
+        ]));
+      }
+      emitDiscreteFlows(flows, timestamp, options);
       history.push(HistorySnapshot(state));
+    };
+
+    // Recurring actions are expanded lazily, as the timeline reaches them.
+    // Occurrences at the same time as an action group happen before it.
+    const applyOccurrencesUntil = (time: Timestamp) => {
+      let schedule = nextOccurrence(state.schedules);
+      while (schedule && nextOccurrenceTime(schedule) <= time) {
+        const { definition } = schedule;
+        if (time === Infinity && isUnbounded(definition)) {
+          throw new RangeError(`Schedule "${definition.scheduleId}" has no end, so a finite horizon is required`);
+        }
+        state = state.set('schedules', advanceSchedule(state.schedules, schedule));
+        applyActionGroup(
+          { timestamp: nextOccurrenceTime(schedule), actions: [definition.action] },
+          () => sortedActions.findIndex(actionGroup => actionGroup.actions.includes(definition)),
+          definition.scheduleId);
+        schedule = nextOccurrence(state.schedules);
+      }
+    };
+
+    for (let actionGroupIndex = firstActionGroupIndex; actionGroupIndex < sortedActions.length; actionGroupIndex++) {
+      const actionGroup = sortedActions[actionGroupIndex];
+      applyOccurrencesUntil(actionGroup.timestamp);
+      applyActionGroup(actionGroup, () => actionGroupIndex);
     }
+    applyOccurrencesUntil(options.horizon !== undefined ? options.horizon : Infinity);
 
-    for (const intermediate of computeIntermediateStates(state, Infinity)) {
+    for (const intermediate of computeIntermediateStates(state, Infinity, arithmetic, options)) {
       history.push(intermediate);
     }
   });
 }
 
+function emitDiscreteFlows(flows: PendingFlow[], timestamp: Timestamp, options: HistoryOptions) {
+  const { onDiscreteFlow } = options;
+  if (onDiscreteFlow) {
+    for (const flow of flows) {
+      onDiscreteFlow({ timestamp, ...flow });
+    }
+  }
+  flows.length = 0;
+}
+
+function getArithmetic(options: HistoryOptions): MoneyArithmetic<unknown> {
+  return options.arithmetic || floatingPointArithmetic;
+}
+
+// The fill level of the account in the representation of the arithmetic
+function exactFillLevel(account: AccountState, arithmetic: MoneyArithmetic<unknown>): unknown {
+  return account.exactFillLevel !== undefined ? account.exactFillLevel : arithmetic.fromNumber(account.fillLevel);
+}
+
+function exactCapacity(account: AccountState, arithmetic: MoneyArithmetic<unknown>): unknown {
+  return account.exactCapacity !== undefined ? account.exactCapacity : arithmetic.fromNumber(account.capacity);
+}
+
+// Sets the fill level from an amount in the representation of the arithmetic,
+// which is only kept separately if it isn't the JS number itself
+function setFillLevel(account: AccountState, fillLevel: unknown, arithmetic: MoneyArithmetic<unknown>): AccountState {
+  const number = arithmetic.toNumber(fillLevel);
+  return account.merge({ fillLevel: number, exactFillLevel: fillLevel !== number ? fillLevel : undefined });
+}
+
+function setCapacity(account: AccountState, capacity: unknown, arithmetic: MoneyArithmetic<unknown>): AccountState {
+  const number = arithmetic.toNumber(capacity);
+  return account.merge({ capacity: number, exactCapacity: capacity !== number ? capacity : undefined });
+}
+
 function* computeIntermediateStates(
   state: HistorySnapshot,
-  targetTimestamp: number
+  targetTimestamp: number,
+  arithmetic: MoneyArithmetic<unknown>,
+  options: HistoryOptions
 ): IterableIterator<HistorySnapshot> {
   const dirtyAccounts: AccountId[] = [];
+  const flows: PendingFlow[] = [];
   let nextNonlinearities = calculateNextNonlinearities(state);
-  while (nextNonlinearities.timestamp < targetTimestamp) {
-    state = projectLinear(state, nextNonlinearities.timestamp);
-    for (const { accountId, modifier } of nextNonlinearities.accounts) {
-      const accounts = state.accounts;
-      state = state.set('accounts', accounts
-        .set(accountId, modifier(accounts.get(accountId, never))));
+  // Up to and including the target time. There are no more nonlinearities if
+  // the next one is at Infinity.
+  while (isFinite(nextNonlinearities.timestamp) && nextNonlinearities.timestamp <= targetTimestamp) {
+    const previousAccounts = state.accounts;
+    state = projectLinear(state, nextNonlinearities.timestamp, arithmetic, nextNonlinearities.accounts);
+    for (const { accountId } of nextNonlinearities.accounts) {
       dirtyAccounts.push(accountId);
     }
-    state = state.set('accounts', updateTransients(state.accounts, dirtyAccounts));
+    dirtyAccounts.push(...findRoundedOntoLimits(previousAccounts, state.accounts));
+    state = state.set('accounts', updateTransients(state.accounts, dirtyAccounts, flows, arithmetic, state.conversionRates));
+    state = state.set('events', i.List(detectEvents(previousAccounts, state.accounts, state.timestamp)));
+    emitDiscreteFlows(flows, state.timestamp, options);
     yield state;
     nextNonlinearities = calculateNextNonlinearities(state);
   }
 }
 
-function projectLinear(state: HistorySnapshot, timestamp: number): HistorySnapshot {
+// Accounts that the arithmetic rounded onto zero or their capacity, which can be
+// slightly before the nonlinearity expected from their balance. Their flows
+// need updating like those of any account that empties or fills.
+function findRoundedOntoLimits(previousAccounts: Accounts, accounts: Accounts): AccountId[] {
+  const accountIds: AccountId[] = [];
+  for (const [accountId, account] of accounts) {
+    const previous = previousAccounts.get(accountId, account);
+    if ((account.fillLevel === 0 && previous.fillLevel > 0 && account.fillRate < 0) ||
+      (account.fillLevel === account.capacity && previous.fillLevel < previous.capacity && account.fillRate > account.capacityRate)) {
+      accountIds.push(accountId);
+    }
+  }
+  return accountIds;
+}
+
+function projectLinear(
+  state: HistorySnapshot,
+  timestamp: number,
+  arithmetic: MoneyArithmetic<unknown>,
+  nonlinearities: AccountNonlinearity[] = []
+): HistorySnapshot {
   /*
   This function is optimized for just a few accounts being in a transient state.
   Likely, most accounts in a budget are either full or empty and not changing.
@@ -145,48 +578,271 @@ function projectLinear(state: HistorySnapshot, timestamp: number): HistorySnapsh
   Note: a linear projection will never make any accounts "dirty" in the sense
   that they need to be evaluated for transient changes (by updateTransients),
   because it is assumed to be used only to move along a linear segment of the
-  account state.
+  account state. (The exception is an account that the arithmetic rounds onto
+  a limit early, see `findRoundedOntoLimits`.)
+
+  Accounts with interest or balance-fraction drains (and the targets of those
+  drains) curve rather than move in a straight line, but the segment is still
+  free of nonlinearities, so they're projected in closed form (see
+  `projectFillLevel`) and their instantaneous rates are brought up to date.
+  Other accounts keep the plain linear path.
   */
 
   const deltaTime = timestamp - state.timestamp;
-  return HistorySnapshot({
-    timestamp,
-    accounts: state.accounts.withMutations(accounts => {
-      // Making a copy because I'm not entirely sure if the immutable-js library
-      // has taken into account the possibility of iterating over a collection
-      // while mutating it, like the builtin collections do.
-      const toIterate = [...accounts.keys()];
-      for (const accountId of toIterate) {
-        const account = accounts.get(accountId, never);
-        if (account.fillRate !== 0) {
-          accounts.set(accountId, account.set('fillLevel', account.fillLevel + account.fillRate * deltaTime))
+  // An account can have several nonlinearities at once, such as becoming full
+  // at the same time as a drain rate step
+  const accountNonlinearities = _.groupBy(nonlinearities, nonlinearity => nonlinearity.accountId);
+  const curvedInflows = findCurvedInflows(state.accounts, state.conversionRates);
+  const isCurved = (accountId: AccountId, account: AccountState) =>
+    account.growthRate !== undefined || curvedInflows.has(accountId);
+  const changing = [...state.accounts]
+    .filter(([accountId, account]) => account.fillRate !== 0 ||
+      account.capacityRate !== 0 ||
+      isCurved(accountId, account) ||
+      accountNonlinearities.hasOwnProperty(accountId));
+  // Capacities are projected before the modifiers, so that a modifier that
+  // fills an account fills it to its capacity at the new time
+  const withCapacities = changing.map(([, account]) => account.capacityRate !== 0
+    ? setCapacity(account, arithmetic.projectLevels(
+      [exactCapacity(account, arithmetic)], [account.capacityRate], deltaTime, [undefined])[0], arithmetic)
+    : account);
+  const modified = changing.map(([accountId], i) => {
+    const modifiers = accountNonlinearities[accountId];
+    return modifiers ? modifiers.reduce((account, { modifier }) => modifier(account), withCapacities[i]) : undefined;
+  });
+  const pinnedLevels = changing.map(([accountId, account], i) => {
+    const modifiers = accountNonlinearities[accountId];
+    const projected = modified[i] || withCapacities[i];
+    if (modifiers && modifiers.some(modifier => modifier.pinsFillLevel)) {
+      return exactFillLevel(projected, arithmetic);
+    }
+    // A full account keeps up with its ramping capacity exactly
+    return isTrackingCapacity(state.accounts, account) ? exactCapacity(projected, arithmetic) : undefined;
+  });
+  // Curved accounts are given the average rate over the segment, so that the
+  // arithmetic still moves them to the right level
+  const rates = changing.map(([accountId, account]) => isCurved(accountId, account) && deltaTime > 0
+    ? (projectFillLevel(account, deltaTime, curvedInflows.get(accountId)) - account.fillLevel) / deltaTime
+    : account.fillRate);
+  const fillLevels = arithmetic.projectLevels(
+    changing.map(([, account]) => exactFillLevel(account, arithmetic)),
+    rates,
+    deltaTime,
+    pinnedLevels);
+
+  return state
+    .set('timestamp', timestamp)
+    .set('events', noEvents)
+    .set('accounts', state.accounts.withMutations(accounts => {
+      changing.forEach(([accountId, account], i) => {
+        let projected = setFillLevel(modified[i] || withCapacities[i], fillLevels[i], arithmetic);
+        const { growthRate } = account;
+        if (growthRate !== undefined) {
+          // The fill rate of a curved account is `growthRate * L + b`, where
+          // `b` is the part that doesn't depend on the balance
+          const change = projected.fillLevel - account.fillLevel;
+          projected = projected.set('fillRate', account.fillRate + growthRate * change);
+          for (const [targetAccountId, fraction] of account.drainFractions) {
+            if (!state.accounts.get(targetAccountId, emptyAccount).frozen) {
+              projected = projected.setIn(['drainEffectiveRates', targetAccountId], fraction * projected.fillLevel);
+            }
+          }
+        }
+        accounts.set(accountId, projected);
+      });
+      for (const [targetAccountId, inflows] of curvedInflows) {
+        let target = accounts.get(targetAccountId, never);
+        for (const { source, fraction, conversion } of inflows) {
+          const rate = fraction * conversion * accounts.get(source.accountId, never).fillLevel;
+          target = target
+            .set('fillRate', target.fillRate + rate - target.drainInflows.get(source.accountId, 0))
+            .setIn(['drainInflows', source.accountId], rate);
         }
+        accounts.set(targetAccountId, target);
       }
-    })
-  });
+    }));
+}
+
+// A balance-fraction drain from an account whose balance is curving, which
+// makes the inflow to the target curve as well
+interface CurvedInflow {
+  source: AccountState;
+  fraction: number;
+  // From the source's currency to the target's
+  conversion: number;
+}
+
+function findCurvedInflows(accounts: Accounts, conversionRates: ConversionRates): Map<AccountId, CurvedInflow[]> {
+  const curvedInflows = new Map<AccountId, CurvedInflow[]>();
+  for (const source of accounts.values()) {
+    if (source.growthRate === undefined) {
+      continue;
+    }
+    for (const [targetAccountId, fraction] of source.drainFractions) {
+      const target = accounts.get(targetAccountId, emptyAccount);
+      if (target.frozen) {
+        continue;
+      }
+      const inflows = curvedInflows.get(targetAccountId) || [];
+      const conversion = convert(conversionRates, source, target);
+      inflows.push({ source, fraction, conversion });
+      curvedInflows.set(targetAccountId, inflows);
+    }
+  }
+  return curvedInflows;
+}
+
+/**
+ * The exact fill level of the account after `deltaTime`, if nothing
+ * nonlinear happens in between.
+ *
+ * An account whose balance is free to move with its interest and
+ * balance-fraction drains follows `dL/dt = g * L + b`, which gives
+ * `L(t) = L0 + r0 * (e^(g t) - 1) / g` in terms of the initial fill rate `r0`.
+ * Balance-fraction drains only go to sinks (see `checkAccountGraph`), so the
+ * fill level of a target is the integral of its inflows. Everything else is a
+ * straight line.
+ */
+function projectFillLevel(account: AccountState, deltaTime: number, curvedInflows: CurvedInflow[] = []): Money {
+  const { fillLevel, fillRate, growthRate } = account;
+  if (growthRate !== undefined) {
+    return fillLevel + fillRate * growthFactor(growthRate, deltaTime);
+  }
+  let level = fillLevel + fillRate * deltaTime;
+  // The fill rate already includes the inflow at the start of the segment
+  for (const { source, fraction, conversion } of curvedInflows) {
+    level += fraction * conversion * (integrateFillLevel(source, deltaTime) - source.fillLevel * deltaTime);
+  }
+  return level;
+}
+
+/**
+ * The integral of the account's fill level over the next `duration`, if
+ * nothing nonlinear happens in between. This is what's needed to find how much
+ * interest is earned or how much a balance-fraction drain takes.
+ */
+export function integrateFillLevel(account: AccountState, duration: number): number {
+  return account.fillLevel * duration +
+    account.fillRate * integratedGrowthFactor(account.growthRate || 0, duration);
+}
+
+// `(e^(g t) - 1) / g`, which tends to `t` as `g` tends to 0
+function growthFactor(growthRate: number, t: number): number {
+  return growthRate === 0 ? t : Math.expm1(growthRate * t) / growthRate;
+}
+
+// The integral of `growthFactor` from 0 to `t`, which tends to `t^2 / 2` as
+// `g` tends to 0. The series avoids cancellation when `g t` is small.
+function integratedGrowthFactor(growthRate: number, t: number): number {
+  const gt = growthRate * t;
+  return Math.abs(gt) < 1e-3
+    ? t * t / 2 * (1 + gt / 3 + gt * gt / 12 + gt * gt * gt / 60)
+    : (Math.expm1(gt) - gt) / (growthRate * growthRate);
+}
+
+// How long until the account reaches the given level, if it ever does. The
+// fill rate must be moving the account towards the level. The level can move
+// linearly (such as a ramping capacity), but only for accounts that don't
+// curve.
+function timeToReachLevel(
+  account: AccountState,
+  level: Money,
+  curvedInflows: CurvedInflow[] | undefined,
+  levelRate: MoneyRate = 0
+): number {
+  const { fillLevel, fillRate, growthRate } = account;
+  if (curvedInflows) {
+    return solveMonotonic(deltaTime => projectFillLevel(account, deltaTime, curvedInflows) >= level);
+  }
+  if (growthRate === undefined || growthRate === 0) {
+    return (level - fillLevel) / (fillRate - levelRate);
+  }
+  // Inverting `L(t) = L0 + r0 * (e^(g t) - 1) / g`. The account never reaches
+  // the level if it approaches an equilibrium short of it.
+  const x = growthRate * (level - fillLevel) / fillRate;
+  return x > -1 ? Math.log1p(x) / growthRate : Infinity;
+}
+
+// The earliest time from now at which the condition holds, for a condition
+// that stays true once it's true. Infinity if it never holds.
+function solveMonotonic(condition: (deltaTime: number) => boolean): number {
+  let upper = 1;
+  while (!condition(upper)) {
+    upper *= 2;
+    if (!isFinite(upper)) {
+      return Infinity;
+    }
+  }
+  let lower = 0;
+  // Bisect until the bounds are adjacent floating point numbers
+  while (true) {
+    const middle = lower + (upper - lower) / 2;
+    if (middle <= lower || middle >= upper) {
+      return upper;
+    }
+    if (condition(middle)) {
+      upper = middle;
+    } else {
+      lower = middle;
+    }
+  }
 }
 
 function calculateNextNonlinearities(state: HistorySnapshot): NonLinearities {
   let earliestNonlinearities: NonLinearities = { timestamp: Infinity, accounts: [] };
+  const curvedInflows = findCurvedInflows(state.accounts, state.conversionRates);
   for (const [accountId, account] of state.accounts) {
+    const accountCurvedInflows = curvedInflows.get(accountId);
+
     // Fill up
 
     // Note: an account can be at or above capacity with a positive fill level,
-    // if there is nowhere for it to overflow to
-    if (account.fillRate > 0 && account.fillLevel < account.capacity) {
-      const timestamp = state.timestamp + (account.capacity - account.fillLevel) / account.fillRate;
+    // if there is nowhere for it to overflow to. The target of a curved inflow
+    // can start filling even if its fill rate is zero right now.
+    if ((account.fillRate > account.capacityRate || accountCurvedInflows) && account.fillLevel < account.capacity) {
+      const timestamp = state.timestamp + timeToReachLevel(account, account.capacity, accountCurvedInflows, account.capacityRate);
       nonlinearity(timestamp, {
         accountId,
-        modifier: account => account.set('fillLevel', account.capacity)
+        // A capacity ramping down to meet an empty account can overshoot zero
+        // by a rounding error
+        modifier: account => account.capacity > 0
+          ? account.merge({ fillLevel: account.capacity, exactFillLevel: account.exactCapacity })
+          : account.merge({ fillLevel: 0, exactFillLevel: undefined }),
+        pinsFillLevel: true
       })
     }
 
     // Empty
     if (account.fillRate < 0 && account.fillLevel > 0) {
-      const timestamp = state.timestamp + account.fillLevel / (-account.fillRate);
+      const timestamp = state.timestamp + timeToReachLevel(account, 0, accountCurvedInflows);
       nonlinearity(timestamp, {
         accountId,
-        modifier: account => account.set('fillLevel', 0)
+        modifier: account => account.merge({ fillLevel: 0, exactFillLevel: undefined }),
+        pinsFillLevel: true
+      });
+    }
+
+    // End of a capacity ramp, at its end time or when the capacity reaches
+    // zero. An end that's already due happens straight away.
+    if (account.capacityRate !== 0) {
+      const untilEmpty = account.capacityRate < 0 ? account.capacity / -account.capacityRate : Infinity;
+      const untilEnd = account.capacityRampEnd !== undefined ? account.capacityRampEnd - state.timestamp : Infinity;
+      nonlinearity(state.timestamp + Math.max(0, Math.min(untilEmpty, untilEnd)), {
+        accountId,
+        modifier: account => (account.capacity < 0 ? account.merge({ capacity: 0, exactCapacity: undefined }) : account)
+          .set('capacityRate', 0)
+          .set('capacityRampEnd', undefined),
+        pinsFillLevel: false
+      });
+    }
+
+    // Drain rate steps. A step that's already due (because it's at the same time
+    // as an action group) happens straight away.
+    for (const [targetAccountId, [step]] of account.drainRateSchedules) {
+      nonlinearity(Math.max(step.from, state.timestamp), {
+        accountId,
+        modifier: account => applyDrainRateStep(account, targetAccountId),
+        pinsFillLevel: false
       });
     }
   }
@@ -194,7 +850,7 @@ function calculateNextNonlinearities(state: HistorySnapshot): NonLinearities {
   return earliestNonlinearities;
 
   function nonlinearity(timestamp: number, nonlinearity: AccountNonlinearity) {
-    if (timestamp <= earliestNonlinearities.timestamp) {
+    if (timestamp <= earliestNonlinearities.timestamp && isFinite(timestamp)) {
       if (timestamp === earliestNonlinearities.timestamp) {
         earliestNonlinearities.accounts.push(nonlinearity);
       } else {
@@ -204,69 +860,502 @@ function calculateNextNonlinearities(state: HistorySnapshot): NonLinearities {
   }
 }
 
-function applyActions(accounts: Accounts, actionGroup: UserActionGroup, dirtyAccounts: AccountId[]): Accounts {
+// Finds the changes between two consecutive snapshots that are worth
+// reporting. Accounts that weren't touched are the same object in both.
+function detectEvents(
+  previousAccounts: Accounts,
+  accounts: Accounts,
+  timestamp: Timestamp,
+  actionGroup?: UserActionGroup
+): HistoryEvent[] {
+  const events: HistoryEvent[] = [];
+  const cause = actionGroup ? { actionGroup } : {};
+  const isFull = (account: AccountState) => account.fillLevel >= account.capacity;
+  // A drain that's blocked by a frozen account or waiting for the overflow
+  // isn't starved
+  const isStarved = (accounts: Accounts, account: AccountState, targetId: AccountId) =>
+    account.drainEffectiveRates.get(targetId, 0) < account.drainSizes.get(targetId, 0) &&
+    !account.frozen && !accounts.get(targetId, emptyAccount).frozen && !drainsWaitForOverflow(account);
+  // The `onFull` that was pending once the actions of the group (if any) were
+  // applied
+  const pendingOnFull = (accountId: AccountId, previous: AccountState) => {
+    let onFull = previous.onFull;
+    for (const action of actionGroup ? actionGroup.actions : []) {
+      if (action.type === 'DeleteAccount' && action.accountId === accountId) {
+        onFull = undefined;
+      } else if (action.type === 'CreateOrUpdateAccount' && action.accountId === accountId && 'onFull' in action) {
+        onFull = action.onFull;
+      }
+    }
+    return onFull;
+  };
+
+  for (const [accountId, account] of accounts) {
+    const previous = previousAccounts.get(accountId, emptyAccount);
+    if (previous === account) {
+      continue;
+    }
+    if (!isFull(previous) && isFull(account)) {
+      events.push({ type: 'AccountFilled', timestamp, accountId, ...cause });
+    }
+    if (previous.fillLevel > 0 && account.fillLevel <= 0) {
+      events.push({ type: 'AccountEmptied', timestamp, accountId, ...cause });
+    }
+    if (!previous.frozen && account.frozen) {
+      events.push({ type: 'AccountFrozen', timestamp, accountId, ...cause });
+    } else if (previous.frozen && !account.frozen) {
+      events.push({ type: 'AccountUnfrozen', timestamp, accountId, ...cause });
+    }
+    if (pendingOnFull(accountId, previous) !== undefined && account.onFull === undefined && isFull(account)) {
+      events.push({
+        type: 'OnFullApplied',
+        timestamp,
+        accountId,
+        ...(account.overflowTargetId !== undefined ? { targetId: account.overflowTargetId } : {}),
+        ...(account.mark !== undefined ? { mark: account.mark } : {}),
+        ...cause
+      });
+    }
+    const { overflowTargetId } = account;
+    if (overflowTargetId !== undefined) {
+      if (previous.overflowRate <= 0 && account.overflowRate > 0) {
+        events.push({ type: 'OverflowStarted', timestamp, accountId, targetId: overflowTargetId, ...cause });
+      } else if (previous.overflowRate > 0 && account.overflowRate <= 0) {
+        events.push({ type: 'OverflowStopped', timestamp, accountId, targetId: overflowTargetId, ...cause });
+      }
+    }
+    for (const [targetId, size] of account.drainSizes) {
+      if (size > 0 && !isStarved(previousAccounts, previous, targetId) && isStarved(accounts, account, targetId)) {
+        events.push({ type: 'DrainStarved', timestamp, accountId, targetId, ...cause });
+      } else if (size > 0 && isStarved(previousAccounts, previous, targetId) && !isStarved(accounts, account, targetId)) {
+        events.push({ type: 'DrainRestored', timestamp, accountId, targetId, ...cause });
+      }
+    }
+  }
+  return events;
+}
+
+// Action groups are atomic, so an account is only overdrawn if it's negative
+// once all the actions in the group have been applied. Returns true if the
+// group is overdrawn, in which case it should be rejected.
+function checkForOverdraw(
+  accounts: Accounts,
+  actionGroup: UserActionGroup,
+  getActionGroupIndex: () => number,
+  diagnostics: ValidationDiagnostic[]
+): boolean {
+  const withdrawals = new Map<AccountId, UserAction>();
+  for (const action of actionGroup.actions) {
+    if (action.type === 'InjectMoney' && action.amount < 0) {
+      withdrawals.set(action.accountId, action);
+    } else if (action.type === 'Withdraw') {
+      withdrawals.set(action.accountId, action);
+    } else if (action.type === 'Transfer') {
+      withdrawals.set(action.sourceAccountId, action);
+    } else if (action.type === 'CompletePurchase') {
+      withdrawals.set(action.accountId, action);
+    }
+  }
+  let overdrawn = false;
+  for (const [accountId, action] of withdrawals) {
+    const fillLevel = accounts.get(accountId, emptyAccount).fillLevel;
+    if (fillLevel < 0) {
+      overdrawn = true;
+      diagnostics.push({
+        actionGroupIndex: getActionGroupIndex(),
+        action,
+        kind: 'Overdraw',
+        message: `Account "${accountId}" is overdrawn by ${-fillLevel}, so the action group at ${actionGroup.timestamp} is rejected`
+      });
+    }
+  }
+  return overdrawn;
+}
+
+function applyActions(
+  accounts: Accounts,
+  actionGroup: UserActionGroup,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  closedAccounts: ClosedAccount[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates
+): Accounts {
   for (const action of actionGroup.actions) {
-    accounts = dispatchAction(accounts, action, dirtyAccounts);
+    accounts = dispatchAction(
+      accounts, action, actionGroup.timestamp, dirtyAccounts, flows, closedAccounts, arithmetic, conversionRates);
   }
   return accounts;
 }
 
-function dispatchAction(accounts: Accounts, action: UserAction, dirtyAccounts: AccountId[]): Accounts {
+function dispatchAction(
+  accounts: Accounts,
+  action: UserAction,
+  timestamp: Timestamp,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  closedAccounts: ClosedAccount[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates
+): Accounts {
   switch (action.type) {
-    case 'CreateOrUpdateAccount': return createOrUpdateAccount(accounts, action, dirtyAccounts);
-    case 'InjectMoney': return injectMoney(accounts, action, dirtyAccounts);
-    case 'UpdateDrain': return updateDrain(accounts, action, dirtyAccounts);
+    case 'CreateOrUpdateAccount': return createOrUpdateAccount(accounts, action, dirtyAccounts, arithmetic);
+    case 'InjectMoney': return injectMoney(accounts, action, dirtyAccounts, flows, arithmetic);
+    case 'Withdraw': return withdraw(accounts, action, dirtyAccounts, flows, arithmetic);
+    case 'Transfer': return transfer(accounts, action, dirtyAccounts, flows, arithmetic, conversionRates);
+    case 'UpdateDrain': return updateDrain(accounts, action, timestamp, dirtyAccounts);
     case 'DeleteDrain': return deleteDrain(accounts, action, dirtyAccounts);
-    case 'DeleteAccount': return deleteAccount(accounts, action, dirtyAccounts);
+    case 'DeleteAccount': return deleteAccount(accounts, action, dirtyAccounts, flows);
+    case 'FreezeAccount': return setFrozen(accounts, action, true, dirtyAccounts);
+    case 'UnfreezeAccount': return setFrozen(accounts, action, false, dirtyAccounts);
+    case 'CloseAccount':
+      return closeAccount(accounts, action, timestamp, dirtyAccounts, flows, closedAccounts, arithmetic, conversionRates);
+    case 'CompletePurchase':
+      return completePurchase(accounts, action, timestamp, dirtyAccounts, flows, closedAccounts, arithmetic, conversionRates);
+    // Schedules don't affect accounts directly (see `applyScheduleActions`)
+    case 'ScheduleRecurring': return accounts;
+    case 'CancelSchedule': return accounts;
+    // Conversion rates don't affect accounts directly (see `applyConversionRateActions`)
+    case 'SetConversionRate': return accounts;
     default: return assertUnreachable(action);
   }
 }
 
-function deleteAccount(accounts: Accounts, action: DeleteAccount, dirtyAccounts: AccountId[]): Accounts {
+function deleteAccount(
+  accounts: Accounts,
+  action: DeleteAccount,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[]
+): Accounts {
   return accounts.withMutations(accounts => {
     const account = accounts.get(action.accountId, emptyAccount);
+    if (account.fillLevel !== 0) {
+      flows.push({ kind: 'Withdrawal', sourceId: action.accountId, amount: account.fillLevel });
+    }
+    // The accounts it was flowing into stop receiving it
     for (const drainAccountId of account.drainEffectiveRates.keys()) {
       accounts.deleteIn([drainAccountId, 'drainInflows', action.accountId]);
+      dirtyAccounts.push(drainAccountId);
     }
     if (account.overflowTargetId !== undefined) {
       accounts.deleteIn([account.overflowTargetId, 'overflowInflows', action.accountId]);
+      dirtyAccounts.push(account.overflowTargetId);
     }
     accounts.delete(action.accountId);
   });
 }
 
+function setFrozen(
+  accounts: Accounts,
+  action: FreezeAccount | UnfreezeAccount,
+  frozen: boolean,
+  dirtyAccounts: AccountId[]
+): Accounts {
+  const { accountId } = action;
+  // The flows into the account start or stop as well
+  markSourcesDirty(accounts, accountId, dirtyAccounts);
+  dirtyAccounts.push(accountId);
+  return accounts.setIn([accountId, 'frozen'], frozen);
+}
+
+function closeAccount(
+  accounts: Accounts,
+  action: CloseAccount | CompletePurchase,
+  timestamp: Timestamp,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  closedAccounts: ClosedAccount[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates,
+  purchaseAmount?: Money
+): Accounts {
+  const { accountId, destinationAccountId: targetId } = action;
+  const account = accounts.get(accountId, never);
+  closedAccounts.push(ClosedAccount({ timestamp, destinationAccountId: targetId, purchaseAmount, account }));
+
+  // The remaining balance goes to the destination
+  if (account.fillLevel !== 0) {
+    const conversion = convert(conversionRates, account, accounts.get(targetId, emptyAccount));
+    const balance = exactFillLevel(account, arithmetic);
+    const received = conversion === 1 ? balance : arithmetic.convert(balance, conversion);
+    accounts = adjustFillLevel(accounts, targetId, received, arithmetic);
+    flows.push(conversion === 1
+      ? { kind: 'Transfer', sourceId: accountId, targetId, amount: account.fillLevel }
+      : { kind: 'Transfer', sourceId: accountId, targetId, amount: account.fillLevel, targetAmount: arithmetic.toNumber(received) });
+  }
+  dirtyAccounts.push(targetId);
+
+  // As do the flows from other accounts
+  for (let [sourceAccountId, source] of accounts) {
+    if (sourceAccountId === accountId) {
+      continue;
+    }
+    const original = source;
+    if (source.overflowTargetId === accountId) {
+      [accounts, source] = switchOverflowTarget(accounts, source, targetId, dirtyAccounts);
+    }
+    if (source.onFull !== undefined && source.onFull.overflowTargetId === accountId) {
+      source = source.set('onFull', { ...source.onFull, overflowTargetId: targetId });
+    }
+    if (source.drainSizes.has(accountId)) {
+      source = redirectDrain(source, accountId, targetId);
+    }
+    if (source !== original) {
+      accounts = accounts.set(sourceAccountId, source);
+      dirtyAccounts.push(sourceAccountId);
+    }
+  }
+
+  // Its own flows stop
+  for (const drainAccountId of account.drainEffectiveRates.keys()) {
+    if (accounts.has(drainAccountId)) {
+      accounts = accounts.deleteIn([drainAccountId, 'drainInflows', accountId]);
+      dirtyAccounts.push(drainAccountId);
+    }
+  }
+  if (account.overflowTargetId !== undefined && accounts.has(account.overflowTargetId)) {
+    accounts = accounts.deleteIn([account.overflowTargetId, 'overflowInflows', accountId]);
+    dirtyAccounts.push(account.overflowTargetId);
+  }
+  return accounts.delete(accountId);
+}
+
+function completePurchase(
+  accounts: Accounts,
+  action: CompletePurchase,
+  timestamp: Timestamp,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  closedAccounts: ClosedAccount[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates
+): Accounts {
+  const { accountId } = action;
+  const account = accounts.get(accountId, never);
+  const { capacity } = account;
+  accounts = accounts.set(accountId, setFillLevel(account,
+    arithmetic.subtract(exactFillLevel(account, arithmetic), exactCapacity(account, arithmetic)), arithmetic));
+  if (accounts.get(accountId, never).fillLevel < 0) {
+    // Left overdrawn, so that the group is rejected (see `checkForOverdraw`)
+    return accounts;
+  }
+  if (capacity > 0) {
+    flows.push({ kind: 'Withdrawal', sourceId: accountId, amount: capacity });
+  }
+  return closeAccount(accounts, action, timestamp, dirtyAccounts, flows, closedAccounts, arithmetic, conversionRates, capacity);
+}
+
+// Moves the drain (with its schedule and policy) to a different target. The
+// effective rate is recalculated by `updateTransients`.
+function redirectDrain(account: AccountState, fromId: AccountId, toId: AccountId): AccountState {
+  const move = <T>(map: i.Map<AccountId, T>) => map.has(fromId)
+    ? map.set(toId, map.get(fromId, never)).delete(fromId)
+    : map;
+  return account
+    .set('drainSizes', move(account.drainSizes))
+    .set('drainPriorities', move(account.drainPriorities))
+    .set('drainWeights', move(account.drainWeights))
+    .set('drainRateSchedules', move(account.drainRateSchedules))
+    .set('drainFractions', move(account.drainFractions))
+    .deleteIn(['drainEffectiveRates', fromId]);
+}
+
 function deleteDrain(accounts: Accounts, action: DeleteDrain, dirtyAccounts: AccountId[]): Accounts {
   dirtyAccounts.push(action.sourceAccountId);
-  return accounts.setIn([action.sourceAccountId, 'drainSizes', action.targetAccountId], 0);
+  return accounts
+    .setIn([action.sourceAccountId, 'drainSizes', action.targetAccountId], 0)
+    .deleteIn([action.sourceAccountId, 'drainRateSchedules', action.targetAccountId])
+    .deleteIn([action.sourceAccountId, 'drainFractions', action.targetAccountId])
+    .deleteIn([action.sourceAccountId, 'drainPriorities', action.targetAccountId])
+    .deleteIn([action.sourceAccountId, 'drainWeights', action.targetAccountId]);
 }
 
-function injectMoney(accounts: Accounts, action: InjectMoney, dirtyAccounts: AccountId[]): Accounts {
+function injectMoney(
+  accounts: Accounts,
+  action: InjectMoney,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  arithmetic: MoneyArithmetic<unknown>
+): Accounts {
   const { accountId } = action;
   let account = accounts.get(accountId, emptyAccount);
   if (account.accountId !== action.accountId) {
     account = account.set('accountId', action.accountId);
   }
-  account = account.set('fillLevel', account.fillLevel + action.amount);
+  const exactAmount = arithmetic.fromNumber(action.amount);
+  const amount = arithmetic.toNumber(exactAmount);
+  account = setFillLevel(account, arithmetic.add(exactFillLevel(account, arithmetic), exactAmount), arithmetic);
+  if (amount > 0) {
+    flows.push({ kind: 'Injection', targetId: accountId, amount });
+  } else if (amount < 0) {
+    flows.push({ kind: 'Withdrawal', sourceId: accountId, amount: -amount });
+  }
   dirtyAccounts.push(accountId);
   return accounts.set(accountId, account);
 }
 
-function updateDrain(accounts: Accounts, action: UpdateDrain, dirtyAccounts: AccountId[]): Accounts {
+function withdraw(
+  accounts: Accounts,
+  action: Withdraw,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  arithmetic: MoneyArithmetic<unknown>
+): Accounts {
+  const amount = arithmetic.fromNumber(action.amount);
+  const shortfall = action.shortfall || 'Reject';
+  for (const [sourceId, taken] of takeFunds(accounts, action.accountId, amount, shortfall, arithmetic)) {
+    accounts = takeFromFillLevel(accounts, sourceId, taken, arithmetic);
+    dirtyAccounts.push(sourceId);
+    flows.push({ kind: 'Withdrawal', sourceId, amount: arithmetic.toNumber(taken) });
+  }
+  return accounts;
+}
+
+function transfer(
+  accounts: Accounts,
+  action: Transfer,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates
+): Accounts {
+  const { targetAccountId: targetId } = action;
+  const amount = arithmetic.fromNumber(action.amount);
+  const shortfall = action.shortfall || 'Reject';
+  for (const [sourceId, taken] of takeFunds(accounts, action.sourceAccountId, amount, shortfall, arithmetic)) {
+    const conversion = convert(conversionRates, accounts.get(sourceId, emptyAccount), accounts.get(targetId, emptyAccount));
+    const received = conversion === 1 ? taken : arithmetic.convert(taken, conversion);
+    accounts = takeFromFillLevel(accounts, sourceId, taken, arithmetic);
+    accounts = adjustFillLevel(accounts, targetId, received, arithmetic);
+    dirtyAccounts.push(sourceId, targetId);
+    flows.push(conversion === 1
+      ? { kind: 'Transfer', sourceId, targetId, amount: arithmetic.toNumber(taken) }
+      : { kind: 'Transfer', sourceId, targetId, amount: arithmetic.toNumber(taken), targetAmount: arithmetic.toNumber(received) });
+  }
+  return accounts;
+}
+
+// Adds an amount in the representation of the arithmetic. The account may not
+// exist yet if it's created later in the same group.
+function adjustFillLevel(accounts: Accounts, accountId: AccountId, amount: unknown, arithmetic: MoneyArithmetic<unknown>): Accounts {
+  const account = accounts.get(accountId, emptyAccount).set('accountId', accountId);
+  return accounts.set(accountId, setFillLevel(account, arithmetic.add(exactFillLevel(account, arithmetic), amount), arithmetic));
+}
+
+function takeFromFillLevel(accounts: Accounts, accountId: AccountId, amount: unknown, arithmetic: MoneyArithmetic<unknown>): Accounts {
+  const account = accounts.get(accountId, emptyAccount).set('accountId', accountId);
+  return accounts.set(accountId, setFillLevel(account, arithmetic.subtract(exactFillLevel(account, arithmetic), amount), arithmetic));
+}
+
+// Decides how much to take from which accounts to make up the given amount
+// from the given account. With the 'Reject' policy (or if there isn't enough
+// even in the overflow sources) the account is left overdrawn, which rejects
+// the group when the group is checked for overdraws.
+function takeFunds(
+  accounts: Accounts,
+  accountId: AccountId,
+  amount: unknown,
+  shortfall: ShortfallPolicy,
+  arithmetic: MoneyArithmetic<unknown>
+): Array<[AccountId, unknown]> {
+  const isPositive = (amount: unknown) => arithmetic.toNumber(amount) > 0;
+  // The whole balance is taken exactly if the amount is at least that much
+  const atMostAvailable = (amount: unknown, account: AccountState) => {
+    if (account.fillLevel <= 0) {
+      return arithmetic.fromNumber(0);
+    }
+    return arithmetic.toNumber(amount) < account.fillLevel ? amount : exactFillLevel(account, arithmetic);
+  };
+  const account = accounts.get(accountId, emptyAccount);
+  switch (shortfall) {
+    case 'Reject': return isPositive(amount) ? [[accountId, amount]] : [];
+    case 'Clamp': {
+      const taken = atMostAvailable(amount, account);
+      return isPositive(taken) ? [[accountId, taken]] : [];
+    }
+    case 'PullFromOverflowSources': {
+      const taken: Array<[AccountId, unknown]> = [];
+      let remaining = amount;
+      // Breadth first, so that the nearest sources are used first
+      const toVisit = [accountId];
+      const visited = new Set<AccountId>(toVisit);
+      while (isPositive(remaining) && toVisit.length) {
+        const sourceId = toVisit.shift() || unexpected();
+        const amountFromSource = atMostAvailable(remaining, accounts.get(sourceId, emptyAccount));
+        if (isPositive(amountFromSource)) {
+          taken.push([sourceId, amountFromSource]);
+          remaining = arithmetic.subtract(remaining, amountFromSource);
+        }
+        // Only sources in the same currency, since the shortfall is in this
+        // account's currency
+        const overflowSources = accounts.filter(overflowSource => overflowSource.overflowTargetId === sourceId &&
+          sameCurrency(overflowSource, account));
+        for (const overflowSourceId of overflowSources.keys()) {
+          if (!visited.has(overflowSourceId)) {
+            visited.add(overflowSourceId);
+            toVisit.push(overflowSourceId);
+          }
+        }
+      }
+      if (isPositive(remaining)) {
+        taken.push([accountId, remaining]);
+      }
+      return taken;
+    }
+    default: return assertUnreachable(shortfall);
+  }
+}
+
+function updateDrain(
+  accounts: Accounts,
+  action: UpdateDrain,
+  timestamp: Timestamp,
+  dirtyAccounts: AccountId[]
+): Accounts {
+  const { targetAccountId } = action;
   let sourceAccount = accounts.get(action.sourceAccountId, emptyAccount);
   if (sourceAccount.accountId !== action.sourceAccountId) {
     sourceAccount = sourceAccount.set('accountId', action.sourceAccountId);
   }
 
-  sourceAccount = sourceAccount.setIn(['drainSizes', action.targetAccountId], action.maxRate);
+  sourceAccount = sourceAccount.setIn(['drainSizes', targetAccountId], action.maxRate);
+  sourceAccount = sourceAccount.deleteIn(['drainRateSchedules', targetAccountId]);
+  sourceAccount = action.balanceFraction !== undefined
+    ? sourceAccount.setIn(['drainFractions', targetAccountId], action.balanceFraction)
+    : sourceAccount.deleteIn(['drainFractions', targetAccountId]);
+  if (action.rateSchedule && action.rateSchedule.length) {
+    sourceAccount = sourceAccount.setIn(['drainRateSchedules', targetAccountId], action.rateSchedule);
+    // Steps that have already started take effect immediately
+    while (sourceAccount.drainRateSchedules.has(targetAccountId) &&
+      sourceAccount.drainRateSchedules.get(targetAccountId, never)[0].from <= timestamp) {
+      sourceAccount = applyDrainRateStep(sourceAccount, targetAccountId);
+    }
+  }
+  if (action.priority !== undefined) {
+    sourceAccount = sourceAccount.setIn(['drainPriorities', action.targetAccountId], action.priority);
+  }
+  if (action.weight !== undefined) {
+    sourceAccount = sourceAccount.setIn(['drainWeights', action.targetAccountId], action.weight);
+  }
 
   dirtyAccounts.push(action.sourceAccountId);
   return accounts.set(action.sourceAccountId, sourceAccount);
 }
 
+// Changes the drain to the rate of the next step in its schedule
+function applyDrainRateStep(account: AccountState, targetAccountId: AccountId): AccountState {
+  const [step, ...remainingSteps] = account.drainRateSchedules.get(targetAccountId, never);
+  account = account.setIn(['drainSizes', targetAccountId], step.maxRate);
+  return remainingSteps.length
+    ? account.setIn(['drainRateSchedules', targetAccountId], remainingSteps)
+    : account.deleteIn(['drainRateSchedules', targetAccountId]);
+}
+
 function createOrUpdateAccount(
   accounts: Accounts,
   action: CreateOrUpdateAccount,
-  dirtyAccounts: AccountId[]
+  dirtyAccounts: AccountId[],
+  arithmetic: MoneyArithmetic<unknown>
 ): Accounts {
   const { accountId } = action;
   let account = accounts.get(accountId, emptyAccount);
@@ -274,98 +1363,214 @@ function createOrUpdateAccount(
     account = account.set('accountId', action.accountId);
   }
   if (action.capacity !== undefined) {
-    account = account.set('capacity', action.capacity);
+    account = setCapacity(account, arithmetic.fromNumber(action.capacity), arithmetic);
+  }
+  if (action.inflowPolicy !== undefined) {
+    account = account.set('inflowPolicy', action.inflowPolicy);
+  }
+  if ('groupId' in action) {
+    account = account.set('groupId', action.groupId);
+  }
+  if (action.interestRate !== undefined) {
+    account = account.set('interestRate', action.interestRate);
+  }
+  if ('currency' in action && action.currency !== account.currency) {
+    account = account.set('currency', action.currency);
+    // Flows into the account need to be converted to the new currency
+    markSourcesDirty(accounts, accountId, dirtyAccounts);
   }
-  // TODO: I think this can be done as part of changing the overflow rate, if we
-  // assume that absent overflows are equivalent to zero rate
   if (('overflowTargetId' in action) && action.overflowTargetId !== account.overflowTargetId) {
-    const previousOverflowTargetId = account.overflowTargetId;
-    // Disconnect the old overflow target
-    if (previousOverflowTargetId !== undefined) {
-      accounts = accounts.set(previousOverflowTargetId, accounts.get(previousOverflowTargetId, emptyAccount)
-        .setIn(['overflowInflows', accountId], 0));
-    }
-    account = account.set('overflowTargetId', action.overflowTargetId);
+    [accounts, account] = switchOverflowTarget(accounts, account, action.overflowTargetId, dirtyAccounts);
+  }
+  if (action.capacityRamp !== undefined) {
+    account = account
+      .set('capacityRate', action.capacityRamp.rate)
+      .set('capacityRampEnd', action.capacityRamp.rate !== 0 ? action.capacityRamp.until : undefined);
+  }
+  if ('onFull' in action) {
+    account = account.set('onFull', action.onFull);
   }
   dirtyAccounts.push(accountId);
 
   return accounts.set(accountId, account);
 }
 
-function updateTransients(accounts: Accounts, dirtyAccounts: AccountId[]): Accounts {
+// The accounts that overflow or drain into the account need updating when
+// something about it changes how much they can send it
+function markSourcesDirty(accounts: Accounts, accountId: AccountId, dirtyAccounts: AccountId[]) {
+  for (const [sourceAccountId, sourceAccount] of accounts) {
+    if (sourceAccount.overflowTargetId === accountId || sourceAccount.drainSizes.has(accountId)) {
+      dirtyAccounts.push(sourceAccountId);
+    }
+  }
+}
+
+// TODO: I think this can be done as part of changing the overflow rate, if we
+// assume that absent overflows are equivalent to zero rate
+function switchOverflowTarget(
+  accounts: Accounts,
+  account: AccountState,
+  overflowTargetId: AccountId | undefined,
+  dirtyAccounts: AccountId[]
+): [Accounts, AccountState] {
+  const previousOverflowTargetId = account.overflowTargetId;
+  // Disconnect the old overflow target
+  if (previousOverflowTargetId !== undefined) {
+    accounts = accounts.set(previousOverflowTargetId, accounts.get(previousOverflowTargetId, emptyAccount)
+      .setIn(['overflowInflows', account.accountId], 0));
+    dirtyAccounts.push(previousOverflowTargetId);
+  }
+  // Any continuous overflow needs to be recalculated for the new target
+  account = account
+    .set('overflowTargetId', overflowTargetId)
+    .set('overflowRate', 0);
+  return [accounts, account];
+}
+
+// Whether the account is full and its capacity is ramping, with the level
+// moving with the capacity and the rest of the inflow overflowing. An account
+// whose overflow is blocked by freezing can be over capacity, and moves freely.
+function isTrackingCapacity(accounts: Accounts, account: AccountState): boolean {
+  return account.capacityRate !== 0 &&
+    account.overflowTargetId !== undefined &&
+    !account.frozen &&
+    !accounts.get(account.overflowTargetId, emptyAccount).frozen &&
+    account.fillLevel >= account.capacity &&
+    account.fillRate === account.capacityRate;
+}
+
+function updateTransients(
+  accounts: Accounts,
+  dirtyAccounts: AccountId[],
+  flows: PendingFlow[],
+  arithmetic: MoneyArithmetic<unknown>,
+  conversionRates: ConversionRates
+): Accounts {
   while (dirtyAccounts.length) {
     const accountId = dirtyAccounts.shift() || unexpected();
     let account = accounts.get(accountId, emptyAccount);
     let accountChanged = false;
 
+    // A pending change for when the account is full. It's applied before the
+    // once-off overflow, so that any excess goes to the new target.
+    const { onFull } = account;
+    if (onFull !== undefined && account.fillLevel >= account.capacity) {
+      if ('overflowTargetId' in onFull && onFull.overflowTargetId !== account.overflowTargetId) {
+        [accounts, account] = switchOverflowTarget(accounts, account, onFull.overflowTargetId, dirtyAccounts);
+      }
+      if ('mark' in onFull) {
+        account = account.set('mark', onFull.mark);
+      }
+      account = account.set('onFull', undefined);
+      accountChanged = true;
+    }
+
+    // Flows into and out of a frozen account are stopped (see `FreezeAccount`)
+    const isBlocked = (targetAccountId: AccountId) =>
+      account.frozen || accounts.get(targetAccountId, emptyAccount).frozen;
+
     // Calculate once-off overflow
-    const overflowTargetId = account.overflowTargetId;
+    const overflowTargetId = account.overflowTargetId !== undefined && !isBlocked(account.overflowTargetId)
+      ? account.overflowTargetId
+      : undefined;
     if (account.fillLevel >= account.capacity && overflowTargetId !== undefined) {
-      const overflowAmount = account.fillLevel - account.capacity;
-      account = account.set('fillLevel', account.capacity);
+      const capacity = exactCapacity(account, arithmetic);
+      const overflowAmount = arithmetic.subtract(exactFillLevel(account, arithmetic), capacity);
+      account = setFillLevel(account, capacity, arithmetic);
       accountChanged = true;
-      let overflowAccount = accounts.get(overflowTargetId, emptyAccount);
-      overflowAccount = overflowAccount.set('fillLevel', overflowAccount.fillLevel + overflowAmount);
-      accounts = accounts.set(overflowTargetId, overflowAccount);
+      const conversion = convert(conversionRates, account, accounts.get(overflowTargetId, emptyAccount));
+      const received = conversion === 1 ? overflowAmount : arithmetic.convert(overflowAmount, conversion);
+      accounts = adjustFillLevel(accounts, overflowTargetId, received, arithmetic);
       dirtyAccounts.push(overflowTargetId);
+      const amount = arithmetic.toNumber(overflowAmount);
+      if (amount > 0) {
+        flows.push(conversion === 1
+          ? { kind: 'Overflow', sourceId: accountId, targetId: overflowTargetId, amount }
+          : { kind: 'Overflow', sourceId: accountId, targetId: overflowTargetId, amount, targetAmount: arithmetic.toNumber(received) });
+      }
     }
 
     const drainInflowRate = account.drainInflows.reduce((a, x) => a + x, 0);
     const overflowInflowRate = account.overflowInflows.reduce((a, x) => a + x, 0);
-    const effectiveInflowRate = drainInflowRate + overflowInflowRate;
-    let effectiveDrainRate: number;
+    const effectiveInflowRate = account.frozen ? 0 : drainInflowRate + overflowInflowRate;
+
+    // Balance-fraction drains and interest are proportional to the balance, so
+    // they're accounted for in the growth rate rather than the drain rate
+    const fillLevel = account.fillLevel;
+    const drainFractions = account.drainFractions.map((fraction, targetAccountId) => isBlocked(targetAccountId) ? 0 : fraction);
+    const growthRate = (account.frozen ? 0 : account.interestRate) - drainFractions.reduce((a, x) => a + x, 0);
+
+    // With the "OverflowFirst" policy, the inflow of a full account goes to the
+    // overflow and its fixed-rate drains wait until it's no longer full. They
+    // only wait while the account would keep overflowing without them.
+    const overflowFirst = account.inflowPolicy === 'OverflowFirst' &&
+      overflowTargetId !== undefined &&
+      account.fillLevel >= account.capacity &&
+      effectiveInflowRate + growthRate * fillLevel > account.capacityRate;
 
     // Drains and fill rate
-    const totalPotentialDrainRate = account.drainSizes.reduce((a, x) => a + x, 0);
+    const drainSizes = account.drainSizes.map((size, targetAccountId) => overflowFirst || isBlocked(targetAccountId) ? 0 : size);
+    const totalPotentialDrainRate = drainSizes.reduce((a, x) => a + x, 0);
+    let effectiveDrainRate: number;
+    let intendedDrainRates: i.Map<AccountId, MoneyRate>;
     // Run the drains at full capacity?
     if (account.fillLevel > 0 || effectiveInflowRate >= totalPotentialDrainRate) {
       effectiveDrainRate = totalPotentialDrainRate;
-      const drainSizes = account.drainSizes;
-      const drainEffectiveRates = account.drainEffectiveRates;
-      for (const [targetAccountId, potentialRate] of drainSizes) {
-        const effectiveRate = drainEffectiveRates.get(targetAccountId, 0);
-        if (effectiveRate !== potentialRate) {
-          account = account.setIn(['drainEffectiveRates', targetAccountId], potentialRate);
-          accountChanged = true;
-          accounts = accounts.setIn([targetAccountId, 'drainInflows', accountId], potentialRate);
-          dirtyAccounts.push(targetAccountId);
-        }
-      }
+      intendedDrainRates = drainSizes;
     } else { // The drains are limited by inflow rate
       effectiveDrainRate = effectiveInflowRate;
-      const drainSizes = account.drainSizes;
-      const drainEffectiveRates = account.drainEffectiveRates;
-      for (const [targetAccountId, potentialRate] of drainSizes) {
-        const effectiveRate = drainEffectiveRates.get(targetAccountId, 0);
-        // Inflow is divided proportionately between the drains
-        const intendedRate = effectiveInflowRate * potentialRate / totalPotentialDrainRate;
-        if (effectiveRate !== intendedRate) {
-          account = account.setIn(['drainEffectiveRates', targetAccountId], intendedRate);
-          accountChanged = true;
-          accounts = accounts.setIn([targetAccountId, 'drainInflows', accountId], intendedRate);
-          dirtyAccounts.push(targetAccountId);
-        }
+      intendedDrainRates = allocateDrainInflow(account, drainSizes, effectiveInflowRate);
+    }
+    intendedDrainRates = intendedDrainRates.merge(drainFractions.map(fraction => fraction * fillLevel));
+    const drainEffectiveRates = account.drainEffectiveRates;
+    for (const [targetAccountId, intendedRate] of intendedDrainRates) {
+      const effectiveRate = drainEffectiveRates.get(targetAccountId, 0);
+      if (effectiveRate !== intendedRate) {
+        account = account.setIn(['drainEffectiveRates', targetAccountId], intendedRate);
+        accountChanged = true;
+      }
+      // The inflow of the target is in its own currency, so it can change
+      // because of a conversion rate even if the drain rate doesn't
+      const targetAccount = accounts.get(targetAccountId, emptyAccount);
+      const inflowRate = intendedRate * convert(conversionRates, account, targetAccount);
+      if (targetAccount.drainInflows.get(accountId, 0) !== inflowRate) {
+        accounts = accounts.setIn([targetAccountId, 'drainInflows', accountId], inflowRate);
+        dirtyAccounts.push(targetAccountId);
       }
     }
 
-    const potentialFillRate = effectiveInflowRate - effectiveDrainRate;
+    const potentialFillRate = effectiveInflowRate - effectiveDrainRate + growthRate * fillLevel;
     let fillRate: number;
     let overflowRate: number;
-    if (potentialFillRate > 0 && (account.fillLevel < account.capacity || account.overflowTargetId === undefined)) {
+    let free: boolean;
+    const atCapacity = account.fillLevel >= account.capacity && overflowTargetId !== undefined;
+    if (account.frozen) {
+      fillRate = 0;
+      overflowRate = 0;
+      free = false;
+    } else if (potentialFillRate > 0 && !atCapacity) {
       // Filling up
       fillRate = potentialFillRate;
       overflowRate = 0;
-    } else if (potentialFillRate < 0) {
-      // Filling down.
+      free = true;
+    } else if (atCapacity && account.capacityRate !== 0 && potentialFillRate >= account.capacityRate) {
+      // Keeping up with a ramping capacity and overflowing the rest
+      fillRate = account.capacityRate;
+      overflowRate = potentialFillRate - account.capacityRate;
+      free = false;
+    } else if (potentialFillRate < 0 || (atCapacity && account.capacityRate !== 0)) {
+      // Filling down, or falling behind a capacity that's ramping up.
       // Note that this should never fill below empty because when empty, the
       // drains will stop draining and so the fill rate can't be negative when
       // empty (unless the inflow is negative)
       fillRate = potentialFillRate;
       overflowRate = 0;
+      free = true;
     } else {
       // Overflowing or stationary
       fillRate = 0;
       overflowRate = potentialFillRate;
+      free = false;
     }
 
     if (account.fillRate !== fillRate) {
@@ -373,12 +1578,26 @@ function updateTransients(accounts: Accounts, dirtyAccounts: AccountId[]): Accou
       accountChanged = true;
     }
 
+    // Accounts without interest or balance-fraction drains stay linear
+    const curvedGrowthRate = free && (account.interestRate !== 0 || account.drainFractions.size > 0)
+      ? growthRate
+      : undefined;
+    if (account.growthRate !== curvedGrowthRate) {
+      account = account.set('growthRate', curvedGrowthRate);
+      accountChanged = true;
+    }
+
     if (account.overflowRate !== overflowRate) {
       account = account.set('overflowRate', overflowRate);
       accountChanged = true;
-      if (overflowTargetId !== undefined) {
-        accounts.set(overflowTargetId, accounts.get(overflowTargetId, emptyAccount)
-          .setIn(['overflowInflows', accountId], overflowRate));
+    }
+    // Including a blocked target, whose inflow is then zero
+    if (account.overflowTargetId !== undefined) {
+      const overflowAccount = accounts.get(account.overflowTargetId, emptyAccount);
+      const inflowRate = overflowRate * convert(conversionRates, account, overflowAccount);
+      if (overflowAccount.overflowInflows.get(accountId, 0) !== inflowRate) {
+        accounts = accounts.set(account.overflowTargetId, overflowAccount.setIn(['overflowInflows', accountId], inflowRate));
+        dirtyAccounts.push(account.overflowTargetId);
       }
     }
 
@@ -389,3 +1608,65 @@ function updateTransients(accounts: Accounts, dirtyAccounts: AccountId[]): Accou
 
   return accounts;
 }
+
+// The factor for converting a flow from one account to another. The account
+// graph is checked for flows between currencies without a rate.
+function convert(conversionRates: ConversionRates, source: AccountState, target: AccountState): number {
+  return conversionFactor(conversionRates, source.currency, target.currency) || unexpected();
+}
+
+function sameCurrency(a: AccountState, b: AccountState): boolean {
+  return a.currency === undefined || b.currency === undefined || a.currency === b.currency;
+}
+
+/**
+ * Divides the inflow of an account between its drains, for when the account is
+ * empty and the inflow can't satisfy all the drains.
+ *
+ * Drains with a lower `priority` number are satisfied first. Drains with the
+ * same priority share what's left according to their weights (which default
+ * to their max rate, so that the inflow is divided proportionately), with any
+ * share beyond a drain's max rate going to the other drains at that priority.
+ * The drain sizes are the account's, except for drains that are blocked.
+ */
+function allocateDrainInflow(
+  account: AccountState,
+  drainSizes: i.Map<AccountId, MoneyRate>,
+  inflowRate: MoneyRate
+): i.Map<AccountId, MoneyRate> {
+  let remaining = inflowRate;
+  const allocation = new Map<AccountId, MoneyRate>();
+  const drainsByPriority = _.groupBy([...drainSizes.keys()], targetAccountId =>
+    account.drainPriorities.get(targetAccountId, 0));
+  const priorities = _.sortBy(Object.keys(drainsByPriority), Number);
+  for (const priority of priorities) {
+    let unsatisfied = drainsByPriority[priority];
+    let satisfiedAny = true;
+    while (satisfiedAny && unsatisfied.length) {
+      satisfiedAny = false;
+      const weights = unsatisfied.map(targetAccountId =>
+        account.drainWeights.get(targetAccountId, drainSizes.get(targetAccountId, 0)));
+      const totalWeight = _.sum(weights);
+      // Drains whose share is more than they can take are given their max rate,
+      // and the rest is shared again between the others
+      for (const [n, targetAccountId] of unsatisfied.entries()) {
+        const maxRate = drainSizes.get(targetAccountId, 0);
+        const share = totalWeight > 0 ? remaining * weights[n] / totalWeight : 0;
+        if (share >= maxRate) {
+          allocation.set(targetAccountId, maxRate);
+          satisfiedAny = true;
+        }
+      }
+      if (satisfiedAny) {
+        remaining -= _.sum(unsatisfied.filter(id => allocation.has(id)).map(id => allocation.get(id) || 0));
+        unsatisfied = unsatisfied.filter(id => !allocation.has(id));
+      } else {
+        for (const [n, targetAccountId] of unsatisfied.entries()) {
+          allocation.set(targetAccountId, totalWeight > 0 ? remaining * weights[n] / totalWeight : 0);
+        }
+        remaining = 0;
+      }
+    }
+  }
+  return i.Map(allocation);
+}
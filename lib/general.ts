@@ -1,4 +1,11 @@
 export type AccountId = string;
+export type ScheduleId = string;
+export type GroupId = string;
+// Such as "AUD". Any string can be used, as long as it's used consistently.
+export type CurrencyCode = string;
 export type Money = number;
+// Money per unit of time
 export type MoneyRate = number;
+// Any unit can be used, as long as it's used consistently. See `calendar.ts`
+// for timestamps in milliseconds since the Unix epoch.
 export type Timestamp = number;
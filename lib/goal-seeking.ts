@@ -0,0 +1,228 @@
+import { AccountId, Timestamp } from './general';
+import { UserAction, UserActionGroup } from './user-actions';
+import {
+  computeFinancialHistory, calculateSnapshotAtTime, countSnapshotsBefore, FinancialHistory, HistoryOptions, HistorySnapshot
+} from './financial-model';
+import { IceTrayValidationError } from './validation';
+import { never } from './utils';
+
+export type GoalCondition =
+  | FullBy
+  | NeverRunsOutBefore
+
+// The account reaches its capacity at or before the deadline (it doesn't need
+// to still be full at the deadline)
+export interface FullBy {
+  type: 'FullBy';
+  accountId: AccountId;
+  deadline: Timestamp;
+}
+
+// The account has a positive balance whenever it exists from `from` (defaults
+// to the start of the history) up to and including the deadline
+export interface NeverRunsOutBefore {
+  type: 'NeverRunsOutBefore';
+  accountId: AccountId;
+  deadline: Timestamp;
+  from?: Timestamp;
+}
+
+// The action that the solver is free to change, by index into the action
+// groups as given and into the actions of the group. The value is the amount
+// of an `InjectMoney`, the amount injected by a `ScheduleRecurring`, or the
+// `maxRate` of an `UpdateDrain`.
+export interface GoalVariable {
+  actionGroupIndex: number;
+  actionIndex: number;
+}
+
+export interface GoalSeekOptions extends HistoryOptions {
+  // The range of values to search. There's no upper bound by default, in
+  // which case the solver keeps doubling the value until the condition is met.
+  min?: number;
+  max?: number;
+  // How far the result can be above the true minimum. Defaults to 1e-6.
+  tolerance?: number;
+  // The most histories to compute before giving up. Defaults to 200.
+  maxEvaluations?: number;
+}
+
+export type GoalSeekResult =
+  | GoalSolved
+  | GoalUnsolvable
+
+export interface GoalSolved {
+  type: 'Solved';
+  value: number;
+  // The action groups with the value substituted
+  actions: UserActionGroup[];
+  // The number of histories computed
+  evaluations: number;
+}
+
+export interface GoalUnsolvable {
+  type: 'Unsolvable';
+  reason: string;
+  evaluations: number;
+}
+
+/**
+ * Finds the smallest value of the variable for which the condition is met
+ * (e.g. "what weekly injection into `income` is needed for `phone` to be full
+ * by March 1?"), by computing the history for different values.
+ *
+ * The condition is assumed to be monotonic in the variable, i.e. once a value
+ * meets the condition, every larger value does too. This is true when the
+ * variable adds money upstream of the account, but not for a drain out of the
+ * account or one of the accounts that feeds it. Values for which the actions
+ * are invalid (such as a shortfall that rejects an action group) are treated
+ * as not meeting the condition.
+ */
+export function seekGoal(
+  actions: UserActionGroup[],
+  condition: GoalCondition,
+  variable: GoalVariable,
+  options: GoalSeekOptions = {}
+): GoalSeekResult {
+  const tolerance = options.tolerance !== undefined ? options.tolerance : 1e-6;
+  const maxEvaluations = options.maxEvaluations !== undefined ? options.maxEvaluations : 200;
+  const min = options.min !== undefined ? options.min : 0;
+  const max = options.max !== undefined ? options.max : Infinity;
+  if (!(min <= max) || !(tolerance > 0)) {
+    throw new RangeError(`Invalid goal seek range [${min}, ${max}] or tolerance ${tolerance}`);
+  }
+  // Nothing after the deadline affects the condition
+  const historyOptions: HistoryOptions = {
+    ...options,
+    horizon: Math.min(condition.deadline, options.horizon !== undefined ? options.horizon : Infinity)
+  };
+  getVariableAction(actions, variable);
+
+  let evaluations = 0;
+  const meetsCondition = (value: number) => {
+    evaluations++;
+    let history: FinancialHistory;
+    try {
+      history = computeFinancialHistory(substituteValue(actions, variable, value), historyOptions);
+    } catch (e) {
+      if (e instanceof IceTrayValidationError) {
+        return false;
+      }
+      throw e;
+    }
+    return checkCondition(history, condition, historyOptions);
+  };
+  const unsolvable = (reason: string): GoalUnsolvable => ({ type: 'Unsolvable', reason, evaluations });
+
+  if (meetsCondition(min)) {
+    return { type: 'Solved', value: min, actions: substituteValue(actions, variable, min), evaluations };
+  }
+
+  // Find a value that meets the condition, to bisect between it and one that
+  // doesn't
+  let low = min;
+  let high: number;
+  if (isFinite(max)) {
+    if (!meetsCondition(max)) {
+      return unsolvable(`The condition is not met with the maximum value ${max}`);
+    }
+    high = max;
+  } else {
+    let step = Math.max(1, Math.abs(min));
+    while (true) {
+      if (evaluations >= maxEvaluations || !isFinite(min + step)) {
+        return unsolvable(`The condition is not met with values up to ${low}`);
+      }
+      if (meetsCondition(min + step)) {
+        high = min + step;
+        break;
+      }
+      low = min + step;
+      step *= 2;
+    }
+  }
+
+  while (high - low > tolerance) {
+    if (evaluations >= maxEvaluations) {
+      return unsolvable(`The value is between ${low} and ${high}, but didn't converge within ${maxEvaluations} evaluations`);
+    }
+    const mid = low + (high - low) / 2;
+    if (meetsCondition(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return { type: 'Solved', value: high, actions: substituteValue(actions, variable, high), evaluations };
+}
+
+function checkCondition(history: FinancialHistory, condition: GoalCondition, options: HistoryOptions): boolean {
+  switch (condition.type) {
+    case 'FullBy': {
+      // An account only becomes full at a nonlinearity, so there's a snapshot
+      // for it
+      for (const snapshot of snapshotsUntil(history, -Infinity, condition.deadline)) {
+        const account = snapshot.accounts.get(condition.accountId);
+        if (account && account.fillLevel >= account.capacity) {
+          return true;
+        }
+      }
+      return false;
+    }
+    case 'NeverRunsOutBefore': {
+      const from = condition.from !== undefined ? condition.from : -Infinity;
+      // Balances are monotonic between snapshots, so they can only be lowest
+      // at a snapshot or at the ends of the interval
+      const states = [
+        calculateSnapshotAtTime(history, from, options),
+        ...snapshotsUntil(history, from, condition.deadline),
+        calculateSnapshotAtTime(history, condition.deadline, options),
+      ];
+      let exists = false;
+      for (const state of states) {
+        const account = state && state.accounts.get(condition.accountId);
+        if (account) {
+          exists = true;
+          if (account.fillLevel <= 0) {
+            return false;
+          }
+        }
+      }
+      return exists;
+    }
+  }
+}
+
+function* snapshotsUntil(history: FinancialHistory, from: Timestamp, to: Timestamp): IterableIterator<HistorySnapshot> {
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const snapshot = history.get(i, never);
+    if (snapshot.timestamp > to) {
+      break;
+    }
+    yield snapshot;
+  }
+}
+
+function getVariableAction(actions: UserActionGroup[], { actionGroupIndex, actionIndex }: GoalVariable): UserAction {
+  const actionGroup = actions[actionGroupIndex];
+  const action = actionGroup && actionGroup.actions[actionIndex];
+  if (!action) {
+    throw new RangeError(`There is no action ${actionIndex} in action group ${actionGroupIndex}`);
+  }
+  if (action.type !== 'InjectMoney' && action.type !== 'ScheduleRecurring' && action.type !== 'UpdateDrain') {
+    throw new RangeError(`Action ${actionIndex} in action group ${actionGroupIndex} is a ${action.type}, which has no amount to solve for`);
+  }
+  return action;
+}
+
+function substituteValue(actions: UserActionGroup[], variable: GoalVariable, value: number): UserActionGroup[] {
+  const action = getVariableAction(actions, variable);
+  const substituted: UserAction =
+    action.type === 'InjectMoney' ? { ...action, amount: value } :
+    action.type === 'ScheduleRecurring' ? { ...action, action: { ...action.action, amount: value } } :
+    action.type === 'UpdateDrain' ? { ...action, maxRate: value } :
+    action;
+  return actions.map((actionGroup, i) => i === variable.actionGroupIndex
+    ? { ...actionGroup, actions: actionGroup.actions.map((a, j) => j === variable.actionIndex ? substituted : a) }
+    : actionGroup);
+}
@@ -0,0 +1,198 @@
+import { AccountId, Money } from './general';
+import { Accounts, AccountState, drainsWaitForOverflow, emptyAccount } from './financial-model';
+
+// How an account is drawn. An account that is both overflowing and starving a
+// drain is drawn as starved, since that's the more urgent of the two. A frozen
+// account has no flows, so it's only drawn as frozen.
+export type AccountGraphNodeStatus = 'Normal' | 'Overflowing' | 'Starved' | 'Frozen';
+
+export interface AccountGraphNode {
+  accountId: AccountId;
+  label: string;
+  status: AccountGraphNodeStatus;
+}
+
+export interface AccountGraphEdge {
+  sourceId: AccountId;
+  targetId: AccountId;
+  kind: 'Overflow' | 'Drain';
+  label: string;
+  // A drain that is getting less than its max rate, other than because it's
+  // blocked
+  starved: boolean;
+  // A flow that is stopped because its source or target is frozen, or a drain
+  // that is waiting for its "OverflowFirst" source to stop overflowing
+  blocked: boolean;
+}
+
+// The account structure at a particular time, independent of the output format
+export interface AccountGraph {
+  nodes: AccountGraphNode[];
+  edges: AccountGraphEdge[];
+}
+
+export interface AccountGraphOptions {
+  // Defaults to rounding to 2 decimal places
+  formatMoney?: (amount: Money) => string;
+}
+
+/**
+ * Describes the accounts (such as from `calculateStateAtTime`) as a graph of
+ * nodes and edges, labelled with the fill levels and rates at that time.
+ *
+ * Nodes are labelled with the fill level and capacity, overflow edges with the
+ * overflow rate, and drain edges with the effective rate and the max rate (or
+ * the fraction of the balance, for balance-fraction drains). Drains that are
+ * deleted (zero max rate) are left out. Flows into or out of a frozen account,
+ * and drains waiting for the overflow (see `drainsWaitForOverflow`), are
+ * marked as blocked rather than starved.
+ */
+export function describeAccountGraph(accounts: Accounts, options: AccountGraphOptions = {}): AccountGraph {
+  const format = options.formatMoney || defaultFormatMoney;
+  const nodes: AccountGraphNode[] = [];
+  const edges: AccountGraphEdge[] = [];
+  for (const [accountId, account] of accounts) {
+    const currency = account.currency !== undefined ? ` ${account.currency}` : '';
+    const isBlocked = (targetId: AccountId) => !!account.frozen || !!accounts.get(targetId, emptyAccount).frozen;
+    const drainEdges = [...account.drainSizes]
+      .filter(([targetId, size]) => size > 0 || account.drainFractions.has(targetId))
+      .map(([targetId, size]): AccountGraphEdge => {
+        const rate = account.drainEffectiveRates.get(targetId, 0);
+        const fraction = account.drainFractions.get(targetId);
+        const blocked = isBlocked(targetId) || (fraction === undefined && drainsWaitForOverflow(account));
+        return {
+          sourceId: accountId,
+          targetId,
+          kind: 'Drain',
+          label: fraction !== undefined
+            ? `${format(rate)} (${Number((fraction * 100).toPrecision(6))}% of balance)`
+            : `${format(rate)} / ${format(size)}`,
+          starved: !blocked && fraction === undefined && rate < size,
+          blocked
+        };
+      });
+    nodes.push({
+      accountId,
+      label: `${accountId}\n${format(account.fillLevel)} / ${format(account.capacity)}${currency}`,
+      status: nodeStatus(account, drainEdges)
+    });
+    if (account.overflowTargetId !== undefined) {
+      edges.push({
+        sourceId: accountId,
+        targetId: account.overflowTargetId,
+        kind: 'Overflow',
+        label: format(account.overflowRate),
+        starved: false,
+        blocked: isBlocked(account.overflowTargetId)
+      });
+    }
+    edges.push(...drainEdges);
+  }
+  return { nodes, edges };
+}
+
+// Graphviz DOT, with overflow edges dashed and blocked edges dotted
+export function accountGraphToDot(graph: AccountGraph): string {
+  const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+  const nodeStyles: { [status in AccountGraphNodeStatus]: string } = {
+    Normal: 'fillcolor="#E0EAFF"',
+    Overflowing: 'fillcolor="#C8F0C8"',
+    Starved: 'fillcolor="#FFD0D0", color="#C00000"',
+    Frozen: 'fillcolor="#E8E8E8", color="#808080"',
+  };
+  const lines = ['digraph accounts {', '  node [shape=box, style=filled];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.accountId)} [label=${quote(node.label)}, ${nodeStyles[node.status]}];`);
+  }
+  for (const edge of graph.edges) {
+    const style = edge.blocked ? ', style=dotted, color="#808080"'
+      : edge.kind === 'Overflow' ? ', style=dashed'
+      : edge.starved ? ', color="#C00000"'
+      : '';
+    lines.push(`  ${quote(edge.sourceId)} -> ${quote(edge.targetId)} [label=${quote(edge.label)}${style}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// GraphML, with the label, kind and status of each node and edge as data, so
+// that tools such as yEd can map them to styles
+export function accountGraphToGraphMl(graph: AccountGraph): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const data = (key: string, value: string) => `<data key="${key}">${escape(value)}</data>`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="status" for="node" attr.name="status" attr.type="string"/>',
+    '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+    '  <key id="starved" for="edge" attr.name="starved" attr.type="boolean"/>',
+    '  <key id="blocked" for="edge" attr.name="blocked" attr.type="boolean"/>',
+    '  <graph id="accounts" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escape(node.accountId)}">${data('label', node.label)}${data('status', node.status)}</node>`);
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escape(edge.sourceId)}" target="${escape(edge.targetId)}">` +
+      `${data('label', edge.label)}${data('kind', edge.kind)}${data('starved', String(edge.starved))}` +
+      `${data('blocked', String(edge.blocked))}</edge>`);
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+// A Mermaid flowchart. Account IDs can contain any characters, so the nodes
+// are given generated IDs.
+export function accountGraphToMermaid(graph: AccountGraph): string {
+  const nodeIds = new Map(graph.nodes.map((node, i) => [node.accountId, `n${i}`]));
+  const nodeId = (accountId: AccountId) => nodeIds.get(accountId) || accountId;
+  const text = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+  const lines = [
+    'flowchart TD',
+    '  classDef Normal fill:#E0EAFF',
+    '  classDef Overflowing fill:#C8F0C8',
+    '  classDef Starved fill:#FFD0D0,stroke:#C00000',
+    '  classDef Frozen fill:#E8E8E8,stroke:#808080',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeId(node.accountId)}[${text(node.label)}]:::${node.status}`);
+  }
+  const starvedEdges: number[] = [];
+  const blockedEdges: number[] = [];
+  graph.edges.forEach((edge, i) => {
+    const arrow = edge.kind === 'Overflow' ? '-.->' : '-->';
+    lines.push(`  ${nodeId(edge.sourceId)} ${arrow}|${text(edge.label)}| ${nodeId(edge.targetId)}`);
+    if (edge.starved) {
+      starvedEdges.push(i);
+    }
+    if (edge.blocked) {
+      blockedEdges.push(i);
+    }
+  });
+  if (starvedEdges.length) {
+    lines.push(`  linkStyle ${starvedEdges.join(',')} stroke:#C00000`);
+  }
+  if (blockedEdges.length) {
+    lines.push(`  linkStyle ${blockedEdges.join(',')} stroke:#808080,stroke-dasharray:2`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function nodeStatus(account: AccountState, drainEdges: AccountGraphEdge[]): AccountGraphNodeStatus {
+  if (account.frozen) {
+    return 'Frozen';
+  }
+  if (drainEdges.some(edge => edge.starved)) {
+    return 'Starved';
+  }
+  return account.overflowRate > 0 ? 'Overflowing' : 'Normal';
+}
+
+function defaultFormatMoney(amount: Money): string {
+  return String(Math.round(amount * 100) / 100);
+}
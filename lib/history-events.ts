@@ -0,0 +1,141 @@
+import { AccountId, ScheduleId, Timestamp } from './general';
+import { UserActionGroup } from './user-actions';
+import { FinancialHistory, countSnapshotsBefore } from './financial-model';
+import { never } from './utils';
+
+/**
+ * The reasons for a snapshot in the history. Every snapshot that's caused by
+ * an action group has an `ActionApplied` event, and the other events in that
+ * snapshot have the same action group as their cause. Snapshots that aren't
+ * caused by an action group are natural nonlinearities, such as an account
+ * becoming full.
+ */
+export type HistoryEvent =
+  | ActionApplied
+  | AccountFilled
+  | AccountEmptied
+  | OverflowStarted
+  | OverflowStopped
+  | DrainStarved
+  | DrainRestored
+  | OnFullApplied
+  | AccountFrozen
+  | AccountUnfrozen
+  | AccountClosed
+
+export interface ActionApplied {
+  type: 'ActionApplied';
+  timestamp: Timestamp;
+  actionGroup: UserActionGroup;
+  // The schedule that the action group is an occurrence of, if any
+  scheduleId?: ScheduleId;
+}
+
+// The fill level reached the capacity of the account
+export interface AccountFilled {
+  type: 'AccountFilled';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The fill level reached zero
+export interface AccountEmptied {
+  type: 'AccountEmptied';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The account started continuously overflowing into its overflow target
+export interface OverflowStarted {
+  type: 'OverflowStarted';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  targetId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+export interface OverflowStopped {
+  type: 'OverflowStopped';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  targetId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The drain is running at less than its max rate, because the account is
+// empty and its inflow isn't enough
+export interface DrainStarved {
+  type: 'DrainStarved';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  targetId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The drain is no longer starved, usually because it's running at its max rate
+// again (it can also be blocked by a frozen account, or waiting for the
+// overflow of an "OverflowFirst" account)
+export interface DrainRestored {
+  type: 'DrainRestored';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  targetId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The pending `onFull` of the account was applied when it became full. The
+// target and mark are the account's overflow target and mark afterwards.
+export interface OnFullApplied {
+  type: 'OnFullApplied';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  targetId?: AccountId;
+  mark?: string;
+  actionGroup?: UserActionGroup;
+}
+
+export interface AccountFrozen {
+  type: 'AccountFrozen';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+export interface AccountUnfrozen {
+  type: 'AccountUnfrozen';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  actionGroup?: UserActionGroup;
+}
+
+// The account was closed by `CloseAccount` or `CompletePurchase`, and its
+// balance and inflows went to the destination. Its final state is in
+// `HistorySnapshot.closedAccounts`.
+export interface AccountClosed {
+  type: 'AccountClosed';
+  timestamp: Timestamp;
+  accountId: AccountId;
+  destinationId: AccountId;
+  actionGroup: UserActionGroup;
+}
+
+/**
+ * The events in the history from `from` (inclusive) to `to` (exclusive), in
+ * order. For example, a notification service can iterate the events after the
+ * current time to find out when each account will next run dry.
+ */
+export function* iterateEvents(
+  history: FinancialHistory,
+  from: Timestamp,
+  to: Timestamp = Infinity
+): IterableIterator<HistoryEvent> {
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const snapshot = history.get(i, never);
+    if (snapshot.timestamp >= to) {
+      break;
+    }
+    yield* snapshot.events;
+  }
+}
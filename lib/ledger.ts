@@ -0,0 +1,344 @@
+import _ from 'lodash';
+import { AccountId, CurrencyCode, Money, Timestamp } from './general';
+import { UserActionGroup } from './user-actions';
+import {
+  computeFinancialHistory, calculateSnapshotAtTime, countSnapshotsBefore, integrateFillLevel, HistoryOptions,
+  DiscreteFlow, FinancialHistory, HistorySnapshot, Accounts, noAccounts, emptyAccount
+} from './financial-model';
+import { floatingPointArithmetic, MoneyArithmetic, numberArithmetic } from './money-arithmetic';
+import { conversionFactor } from './currencies';
+import { never, unexpected } from './utils';
+
+export type LedgerEdgeKind = 'Overflow' | 'Drain' | 'Transfer';
+
+// The total amount that moved from one account to another over the interval,
+// including continuous flows, once-off overflows and transfers
+export interface LedgerEdge {
+  sourceId: AccountId;
+  targetId: AccountId;
+  kind: LedgerEdgeKind;
+  // In the currency of the source
+  amount: Money;
+  // The amount that arrived in the currency of the target, if the accounts
+  // are in different currencies
+  convertedAmount?: Money;
+}
+
+// The total amount that entered or left the model through a particular account
+export interface LedgerEntry {
+  accountId: AccountId;
+  amount: Money;
+}
+
+export interface ConservationCheck {
+  // Total balance across all accounts at the start and end of the interval
+  openingBalance: Money;
+  closingBalance: Money;
+  injected: Money;
+  withdrawn: Money;
+  // Net interest earned (negative if the interest rates are negative)
+  interest: Money;
+  // Net amount converted into the currency from other currencies (negative if
+  // more was converted out of it)
+  converted: Money;
+  // The part of the closing balance that is in "sink" accounts (accounts that
+  // don't drain or overflow anywhere, such as fixed expenses)
+  sinkBalance: Money;
+  // openingBalance + injected + interest + converted - withdrawn -
+  // closingBalance, which should be zero
+  discrepancy: Money;
+  conserved: boolean;
+}
+
+export interface CurrencyConservationCheck extends ConservationCheck {
+  // Undefined for the accounts without a currency
+  currency?: CurrencyCode;
+}
+
+export interface Ledger {
+  from: Timestamp;
+  to: Timestamp;
+  edges: LedgerEdge[];
+  injections: LedgerEntry[];
+  withdrawals: LedgerEntry[];
+  interest: LedgerEntry[];
+  // Adds up the amounts of all currencies as if they were the same, so the
+  // balances are only meaningful if there's one currency. It's conserved if
+  // each currency is.
+  conservation: ConservationCheck;
+  // In order of first appearance
+  conservationByCurrency: CurrencyConservationCheck[];
+}
+
+export interface LedgerOptions extends HistoryOptions {
+  // The largest discrepancy that is still considered to conserve money, to
+  // allow for floating point error. Defaults to 1e-6.
+  tolerance?: Money;
+}
+
+// The amounts that aren't balances, for a single currency
+interface CurrencyFlows {
+  injected: Money;
+  withdrawn: Money;
+  interest: Money;
+  converted: Money;
+}
+
+/**
+ * Calculates how much money moved between accounts over the interval
+ * `[from, to)`, and checks that no money was created or destroyed.
+ *
+ * Consistent with `calculateStateAtTime`, the state at `from` does not include
+ * actions at `from`, so actions at `from` are part of the interval and actions
+ * at `to` are not.
+ *
+ * Money is checked separately in each currency, with conversions counting as
+ * money entering one currency and leaving another. An account whose currency
+ * changes during the interval is counted in its last currency.
+ */
+export function computeLedger(
+  actions: UserActionGroup[],
+  from: Timestamp,
+  to: Timestamp,
+  options: LedgerOptions = {}
+): Ledger {
+  if (!(from <= to) || !isFinite(to)) {
+    throw new RangeError(`Invalid ledger interval [${from}, ${to})`);
+  }
+  const arithmetic = numberArithmetic(options.arithmetic || floatingPointArithmetic);
+  const tolerance = options.tolerance !== undefined ? options.tolerance : 1e-6;
+  const discreteFlows: DiscreteFlow[] = [];
+  const history = computeFinancialHistory(actions, {
+    ...options,
+    // Recurring actions after the interval don't affect it
+    horizon: Math.min(to, options.horizon !== undefined ? options.horizon : Infinity),
+    onDiscreteFlow: flow => {
+      if (flow.timestamp >= from && flow.timestamp < to) {
+        discreteFlows.push(flow);
+      }
+      if (options.onDiscreteFlow) {
+        options.onDiscreteFlow(flow);
+      }
+    }
+  });
+  const opening = calculateSnapshotAtTime(history, from, options);
+  const closing = calculateSnapshotAtTime(history, to, options);
+
+  const currencies = new Map<AccountId, CurrencyCode | undefined>();
+  const currencyFlows = new Map<CurrencyCode | undefined, CurrencyFlows>();
+  const addToCurrency = (accountId: AccountId, field: keyof CurrencyFlows, amount: Money) => {
+    const currency = currencies.get(accountId);
+    const flows = currencyFlows.get(currency) || { injected: 0, withdrawn: 0, interest: 0, converted: 0 };
+    flows[field] = arithmetic.add(flows[field], amount);
+    currencyFlows.set(currency, flows);
+  };
+  for (const state of statesInInterval(history, opening, closing, from, to)) {
+    for (const [accountId, account] of state.accounts) {
+      currencies.set(accountId, account.currency);
+    }
+  }
+
+  const edges = new Map<string, LedgerEdge>();
+  const addToEdge = (
+    sourceId: AccountId,
+    targetId: AccountId,
+    kind: LedgerEdgeKind,
+    amount: Money,
+    convertedAmount?: Money
+  ) => {
+    const key = JSON.stringify([sourceId, targetId, kind]);
+    const edge = edges.get(key) || { sourceId, targetId, kind, amount: 0 };
+    edge.amount = arithmetic.add(edge.amount, amount);
+    if (convertedAmount !== undefined) {
+      edge.convertedAmount = arithmetic.add(edge.convertedAmount || 0, convertedAmount);
+    }
+    // Money moving to or from an account without a currency isn't converted,
+    // but still leaves one currency's total for another's
+    if (convertedAmount !== undefined || currencies.get(sourceId) !== currencies.get(targetId)) {
+      addToCurrency(sourceId, 'converted', -amount);
+      addToCurrency(targetId, 'converted', convertedAmount !== undefined ? convertedAmount : amount);
+    }
+    edges.set(key, edge);
+  };
+
+  const interest = new Map<AccountId, Money>();
+  for (const { state, duration } of linearSegments(history, opening, from, to)) {
+    for (const [accountId, account] of state.accounts) {
+      // Interest and balance-fraction drains are proportional to the balance,
+      // which may be curving over the segment. They're stopped while the
+      // account is frozen.
+      const integral = !account.frozen && (account.interestRate !== 0 || account.drainFractions.size > 0)
+        ? integrateFillLevel(account, duration)
+        : 0;
+      const addContinuousFlow = (targetId: AccountId, kind: LedgerEdgeKind, amount: Money) => {
+        const target = state.accounts.get(targetId);
+        const conversion = target ? conversionFactor(state.conversionRates, account.currency, target.currency) : 1;
+        addToEdge(accountId, targetId, kind, arithmetic.fromNumber(amount),
+          conversion !== undefined && conversion !== 1 ? arithmetic.fromNumber(amount * conversion) : undefined);
+      };
+      // The effective rate of a balance-fraction drain is only its rate at the
+      // start of the segment, which is zero (and not recorded) if the account
+      // starts empty
+      const drainAmounts = account.drainEffectiveRates
+        .filter((_rate, targetId) => !account.drainFractions.has(targetId))
+        .map(rate => rate * duration)
+        .merge(account.drainFractions
+          .filter((_fraction, targetId) => !state.accounts.get(targetId, emptyAccount).frozen)
+          .map(fraction => fraction * integral));
+      for (const [targetId, amount] of drainAmounts) {
+        if (amount > 0) {
+          addContinuousFlow(targetId, 'Drain', amount);
+        }
+      }
+      if (account.overflowRate > 0 && account.overflowTargetId !== undefined) {
+        addContinuousFlow(account.overflowTargetId, 'Overflow', account.overflowRate * duration);
+      }
+      if (account.interestRate !== 0 && !account.frozen) {
+        const amount = arithmetic.fromNumber(account.interestRate * integral);
+        interest.set(accountId, arithmetic.add(interest.get(accountId) || 0, amount));
+        addToCurrency(accountId, 'interest', amount);
+      }
+    }
+  }
+
+  const injections = new Map<AccountId, Money>();
+  const withdrawals = new Map<AccountId, Money>();
+  for (const flow of discreteFlows) {
+    if (flow.kind === 'Overflow' || flow.kind === 'Transfer') {
+      addToEdge(flow.sourceId || unexpected(), flow.targetId || unexpected(), flow.kind, flow.amount, flow.targetAmount);
+    } else if (flow.kind === 'Injection') {
+      const accountId = flow.targetId || unexpected();
+      injections.set(accountId, arithmetic.add(injections.get(accountId) || 0, flow.amount));
+      addToCurrency(accountId, 'injected', flow.amount);
+    } else {
+      const accountId = flow.sourceId || unexpected();
+      withdrawals.set(accountId, arithmetic.add(withdrawals.get(accountId) || 0, flow.amount));
+      addToCurrency(accountId, 'withdrawn', flow.amount);
+    }
+  }
+
+  const sum = (amounts: Iterable<Money>) => [...amounts].reduce(arithmetic.add, 0);
+  const inCurrency = (state: HistorySnapshot | undefined, currency: CurrencyCode | undefined) => state
+    ? state.accounts.filter(account => currencies.get(account.accountId) === currency)
+    : noAccounts;
+  const conservationByCurrency = _.uniq([...currencies.values()]).map(currency => {
+    const flows = currencyFlows.get(currency) || { injected: 0, withdrawn: 0, interest: 0, converted: 0 };
+    const check: CurrencyConservationCheck = checkConservation(
+      inCurrency(opening, currency),
+      inCurrency(closing, currency),
+      flows,
+      arithmetic,
+      tolerance);
+    if (currency !== undefined) {
+      check.currency = currency;
+    }
+    return check;
+  });
+  const total = (field: keyof ConservationCheck) =>
+    sum(conservationByCurrency.map(check => check[field] as Money));
+
+  return {
+    from,
+    to,
+    edges: [...edges.values()],
+    injections: [...injections].map(([accountId, amount]) => ({ accountId, amount })),
+    withdrawals: [...withdrawals].map(([accountId, amount]) => ({ accountId, amount })),
+    interest: [...interest].map(([accountId, amount]) => ({ accountId, amount })),
+    conservation: {
+      openingBalance: total('openingBalance'),
+      closingBalance: total('closingBalance'),
+      injected: total('injected'),
+      withdrawn: total('withdrawn'),
+      interest: total('interest'),
+      converted: total('converted'),
+      sinkBalance: total('sinkBalance'),
+      discrepancy: total('discrepancy'),
+      conserved: conservationByCurrency.every(check => check.conserved)
+    },
+    conservationByCurrency
+  };
+}
+
+function checkConservation(
+  opening: Accounts,
+  closing: Accounts,
+  { injected, withdrawn, interest, converted }: CurrencyFlows,
+  arithmetic: MoneyArithmetic,
+  tolerance: Money
+): ConservationCheck {
+  const totalBalance = (accounts: Accounts) =>
+    accounts.reduce((total, account) => arithmetic.add(total, account.fillLevel), 0);
+  const openingBalance = totalBalance(opening);
+  const closingBalance = totalBalance(closing);
+  const sinkBalance = totalBalance(closing
+    .filter(account => account.overflowTargetId === undefined &&
+      !account.drainSizes.some(size => size > 0) &&
+      !account.drainFractions.some(fraction => fraction > 0)));
+  const inflow = arithmetic.add(arithmetic.add(injected, interest), converted);
+  const discrepancy = arithmetic.subtract(
+    arithmetic.add(openingBalance, arithmetic.subtract(inflow, withdrawn)),
+    closingBalance);
+  return {
+    openingBalance,
+    closingBalance,
+    injected,
+    withdrawn,
+    interest,
+    converted,
+    sinkBalance,
+    discrepancy,
+    conserved: Math.abs(discrepancy) <= tolerance
+  };
+}
+
+// The states whose accounts are part of the interval
+function* statesInInterval(
+  history: FinancialHistory,
+  opening: HistorySnapshot | undefined,
+  closing: HistorySnapshot | undefined,
+  from: Timestamp,
+  to: Timestamp
+): IterableIterator<HistorySnapshot> {
+  if (opening) {
+    yield opening;
+  }
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const state = history.get(i, never);
+    if (state.timestamp >= to) {
+      break;
+    }
+    yield state;
+  }
+  if (closing) {
+    yield closing;
+  }
+}
+
+// The parts of the history that overlap with the interval, where each state
+// is constant in its rates (or, for curved accounts, in its growth) for the
+// given duration
+function* linearSegments(
+  history: FinancialHistory,
+  opening: HistorySnapshot | undefined,
+  from: Timestamp,
+  to: Timestamp
+): IterableIterator<{ state: HistorySnapshot, duration: number }> {
+  // The interval starts with the last snapshot before it, projected to the
+  // start of the interval, so that curved balances are integrated from there
+  let state = opening;
+  let start = from;
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const next = history.get(i, never);
+    if (next.timestamp >= to) {
+      break;
+    }
+    if (state && next.timestamp > start) {
+      yield { state, duration: next.timestamp - start };
+    }
+    state = next;
+    start = next.timestamp;
+  }
+  if (state && to > start) {
+    yield { state, duration: to - start };
+  }
+}
@@ -0,0 +1,130 @@
+import _ from 'lodash';
+import { Money, MoneyRate } from './general';
+
+/**
+ * A numeric backend for amounts of money, with `M` as its representation of
+ * an amount.
+ *
+ * The engine is generic over the backend: it keeps the balances and capacities
+ * of accounts in the backend's representation, and only changes them through
+ * the backend, so a backend can keep them exact (e.g. as integer minor units or
+ * as a decimal type). The fill levels and capacities in the history are the
+ * backend's amounts converted to JS numbers, for the queries.
+ *
+ * Rates, times, conversions and the growth of balances with interest are still
+ * calculated in floating point, and the backend decides how the resulting
+ * changes to balances are represented. Amounts can be infinite, such as the
+ * capacity of an uncapped account.
+ */
+export interface MoneyArithmetic<M = Money> {
+  // An amount given by the user, such as an injection or a capacity
+  fromNumber(amount: Money): M;
+  toNumber(amount: M): Money;
+  add(a: M, b: M): M;
+  subtract(a: M, b: M): M;
+  // The amount in another currency, given the conversion rate to it
+  convert(amount: M, conversionRate: number): M;
+  /**
+   * Moves the fill levels of several accounts along a linear segment of the
+   * given duration. Where `pinnedLevels` has a value, the corresponding account
+   * is set to exactly that value (e.g. an account that becomes full at the end
+   * of the segment), which is how numeric error in calculating the time of a
+   * nonlinearity is corrected.
+   */
+  projectLevels(
+    levels: M[],
+    rates: MoneyRate[],
+    deltaTime: number,
+    pinnedLevels: Array<M | undefined>
+  ): M[];
+}
+
+/**
+ * Amounts are plain JS numbers, with no rounding. This is the fastest, but
+ * balances drift by small amounts over time (e.g. 11.999999997 instead of 12).
+ */
+export const floatingPointArithmetic: MoneyArithmetic = {
+  fromNumber: amount => amount,
+  toNumber: amount => amount,
+  add: (a, b) => a + b,
+  subtract: (a, b) => a - b,
+  convert: (amount, conversionRate) => amount * conversionRate,
+  projectLevels: (levels, rates, deltaTime, pinnedLevels) => levels.map((level, i) => {
+    const pinnedLevel = pinnedLevels[i];
+    return pinnedLevel !== undefined ? pinnedLevel : level + rates[i] * deltaTime;
+  })
+};
+
+/**
+ * Amounts are integer counts of minor units (e.g. cents), so balances are
+ * exact: adding and subtracting them never loses anything. The fill levels in
+ * the history are in major units (e.g. dollars), so 12 dollars is exactly 12.
+ *
+ * Money is conserved exactly: when fill levels are projected along a linear
+ * segment, the rounded changes add up to the rounded total of the exact
+ * changes (using the largest remainder method), so money that leaves one
+ * account arrives in another. This means the balances always add up to the
+ * injected amounts, even after many nonlinearities.
+ */
+export function minorUnitArithmetic(minorUnitsPerMajorUnit: number = 100): MoneyArithmetic<number> {
+  return {
+    fromNumber: amount => Math.round(amount * minorUnitsPerMajorUnit),
+    toNumber: minorUnits => minorUnits / minorUnitsPerMajorUnit,
+    add: (a, b) => a + b,
+    subtract: (a, b) => a - b,
+    convert: (minorUnits, conversionRate) => Math.round(minorUnits * conversionRate),
+    projectLevels: (levels, rates, deltaTime, pinnedLevels) => {
+      const changes = rates.map(rate => rate * deltaTime * minorUnitsPerMajorUnit);
+      const result = [...levels];
+      let remainder = Math.round(_.sum(changes));
+      const unpinned: number[] = [];
+      for (let i = 0; i < levels.length; i++) {
+        const pinnedLevel = pinnedLevels[i];
+        const change = pinnedLevel !== undefined
+          ? pinnedLevel - result[i]
+          : Math.floor(changes[i]);
+        if (pinnedLevel === undefined) {
+          unpinned.push(i);
+        }
+        result[i] += change;
+        remainder -= change;
+      }
+
+      // Distribute what's left over, starting with the accounts that lost the
+      // most to rounding down
+      const order = _.sortBy(unpinned, i => Math.floor(changes[i]) - changes[i]);
+      if (remainder < 0) {
+        order.reverse();
+      }
+      for (let n = 0; remainder !== 0 && order.length > 0; n++) {
+        const step = remainder > 0 ? 1 : -1;
+        result[order[n % order.length]] += step;
+        remainder -= step;
+      }
+
+      return result;
+    }
+  };
+}
+
+/**
+ * The arithmetic applied to amounts that are JS numbers, converting each
+ * result back to a number. This is for adding up amounts outside the engine,
+ * such as the totals of a ledger.
+ */
+export function numberArithmetic<M>(arithmetic: MoneyArithmetic<M>): MoneyArithmetic {
+  const { fromNumber, toNumber } = arithmetic;
+  return {
+    fromNumber: amount => toNumber(fromNumber(amount)),
+    toNumber: amount => amount,
+    add: (a, b) => toNumber(arithmetic.add(fromNumber(a), fromNumber(b))),
+    subtract: (a, b) => toNumber(arithmetic.subtract(fromNumber(a), fromNumber(b))),
+    convert: (amount, conversionRate) => toNumber(arithmetic.convert(fromNumber(amount), conversionRate)),
+    projectLevels: (levels, rates, deltaTime, pinnedLevels) => arithmetic.projectLevels(
+      levels.map(fromNumber),
+      rates,
+      deltaTime,
+      pinnedLevels.map(level => level !== undefined ? fromNumber(level) : undefined)
+    ).map(toNumber)
+  };
+}
@@ -0,0 +1,170 @@
+import * as i from 'immutable';
+import _ from 'lodash';
+import { AccountId, Money, Timestamp } from './general';
+import { UserActionGroup } from './user-actions';
+import { FinancialHistory, HistoryOptions, calculateSnapshotAtTime, defaultHorizon, noAccounts } from './financial-model';
+import { FinancialEngine } from './financial-engine';
+import { AccountView, getAccountViewsFromHistory } from './account-state';
+import { never } from './utils';
+
+export interface ScenarioOptions extends HistoryOptions {
+  // The times at which to compare balances
+  sampleTimes?: Timestamp[];
+  // The time from which projected capacity and run-out times are compared.
+  // Defaults to the time of the earliest hypothetical action group.
+  projectFrom?: Timestamp;
+}
+
+// A balance that differs between the base and the scenario. The balance is
+// undefined if the account doesn't exist at that time.
+export interface BalanceChange {
+  accountId: AccountId;
+  timestamp: Timestamp;
+  base?: Money;
+  scenario?: Money;
+}
+
+export interface Projection {
+  projectedToReachCapacity?: Timestamp;
+  projectedToRunOut?: Timestamp;
+}
+
+export interface ProjectionChange {
+  accountId: AccountId;
+  base: Projection;
+  scenario: Projection;
+}
+
+export interface ScenarioDiff {
+  balanceChanges: BalanceChange[];
+  projectionChanges: ProjectionChange[];
+  // Accounts whose state differs (or which only exist in one of the
+  // histories) once there are no more nonlinearities
+  changedAccountIds: AccountId[];
+}
+
+export interface ScenarioComparison {
+  base: FinancialHistory;
+  scenario: FinancialHistory;
+  diff: ScenarioDiff;
+}
+
+/**
+ * Computes the history with and without some hypothetical action groups, and
+ * how they differ (e.g. "if I raise my savings drain, when is the laptop
+ * funded?").
+ *
+ * The scenario shares the part of the base history before the earliest
+ * hypothetical action group, rather than recomputing it.
+ */
+export function compareScenario(
+  baseActions: UserActionGroup[],
+  hypotheticalActions: UserActionGroup[],
+  options: ScenarioOptions = {}
+): ScenarioComparison {
+  const projectFrom = options.projectFrom !== undefined
+    ? options.projectFrom
+    : _.min(hypotheticalActions.map(actionGroup => actionGroup.timestamp));
+  const sampleTimes = options.sampleTimes || [];
+
+  // Both histories are computed to the same horizon, so that schedules
+  // without an end are expanded as far in one as in the other, and at least as
+  // far as the times being compared
+  const horizon = options.horizon !== undefined
+    ? options.horizon
+    : Math.max(
+      defaultHorizon([...baseActions, ...hypotheticalActions]),
+      ...sampleTimes,
+      projectFrom !== undefined ? projectFrom : -Infinity
+    );
+  const historyOptions = { ...options, horizon };
+  const engine = new FinancialEngine(baseActions, historyOptions);
+  const base = engine.history;
+  engine.addActionGroups(hypotheticalActions);
+  const scenario = engine.history;
+
+  return {
+    base,
+    scenario,
+    diff: {
+      balanceChanges: compareBalances(base, scenario, sampleTimes, historyOptions),
+      projectionChanges: projectFrom !== undefined
+        ? compareProjections(base, scenario, projectFrom, historyOptions)
+        : [],
+      changedAccountIds: compareFinalStates(base, scenario),
+    }
+  };
+}
+
+function compareBalances(
+  base: FinancialHistory,
+  scenario: FinancialHistory,
+  sampleTimes: Timestamp[],
+  options: HistoryOptions
+): BalanceChange[] {
+  const changes: BalanceChange[] = [];
+  for (const timestamp of sampleTimes) {
+    const accountsAt = (history: FinancialHistory) => {
+      const state = calculateSnapshotAtTime(history, timestamp, options);
+      return state ? state.accounts : noAccounts;
+    };
+    const baseAccounts = accountsAt(base);
+    const scenarioAccounts = accountsAt(scenario);
+    for (const accountId of unionOfKeys(baseAccounts, scenarioAccounts)) {
+      const baseAccount = baseAccounts.get(accountId);
+      const scenarioAccount = scenarioAccounts.get(accountId);
+      const baseBalance = baseAccount && baseAccount.fillLevel;
+      const scenarioBalance = scenarioAccount && scenarioAccount.fillLevel;
+      if (baseBalance !== scenarioBalance) {
+        changes.push({ accountId, timestamp, base: baseBalance, scenario: scenarioBalance });
+      }
+    }
+  }
+  return changes;
+}
+
+function compareProjections(
+  base: FinancialHistory,
+  scenario: FinancialHistory,
+  time: Timestamp,
+  options: HistoryOptions
+): ProjectionChange[] {
+  const projections = (history: FinancialHistory) => new Map(getAccountViewsFromHistory(history, time, options)
+    .map(view => [view.accountId, projection(view)] as [AccountId, Projection]));
+  const baseProjections = projections(base);
+  const scenarioProjections = projections(scenario);
+  const changes: ProjectionChange[] = [];
+  for (const accountId of _.union([...baseProjections.keys()], [...scenarioProjections.keys()])) {
+    const baseProjection = baseProjections.get(accountId) || {};
+    const scenarioProjection = scenarioProjections.get(accountId) || {};
+    if (!_.isEqual(baseProjection, scenarioProjection)) {
+      changes.push({ accountId, base: baseProjection, scenario: scenarioProjection });
+    }
+  }
+  return changes;
+}
+
+function projection(view: AccountView): Projection {
+  const result: Projection = {};
+  if (view.projectedToReachCapacity !== undefined) {
+    result.projectedToReachCapacity = view.projectedToReachCapacity;
+  }
+  if (view.projectedToRunOut !== undefined) {
+    result.projectedToRunOut = view.projectedToRunOut;
+  }
+  return result;
+}
+
+function compareFinalStates(base: FinancialHistory, scenario: FinancialHistory): AccountId[] {
+  const finalAccounts = (history: FinancialHistory) => history.size > 0
+    ? history.get(history.size - 1, never).accounts
+    : noAccounts;
+  const baseAccounts = finalAccounts(base);
+  const scenarioAccounts = finalAccounts(scenario);
+  return unionOfKeys(baseAccounts, scenarioAccounts)
+    .filter(accountId => !i.is(baseAccounts.get(accountId), scenarioAccounts.get(accountId)));
+}
+
+function unionOfKeys<V>(a: i.Map<AccountId, V>, b: i.Map<AccountId, V>): AccountId[] {
+  return _.union([...a.keys()], [...b.keys()]);
+}
@@ -0,0 +1,88 @@
+import * as i from 'immutable';
+import { Record, RecordOf } from 'immutable';
+import { ScheduleId, Timestamp } from './general';
+import { ScheduleRecurring, UserActionGroup } from './user-actions';
+import { never } from './utils';
+
+interface ScheduleStateFields {
+  definition: ScheduleRecurring;
+  // Counting from the start of the schedule, not from when it took effect
+  nextOccurrenceIndex: number;
+}
+
+export type ScheduleState = RecordOf<ScheduleStateFields>;
+export const ScheduleState = Record<ScheduleStateFields>({
+  definition: never,
+  nextOccurrenceIndex: 0,
+});
+
+export type Schedules = i.Map<ScheduleId, ScheduleState>;
+
+export const noSchedules: Schedules = i.Map<ScheduleId, ScheduleState>();
+
+export function occurrenceTime(definition: ScheduleRecurring, occurrenceIndex: number): Timestamp {
+  return definition.start + occurrenceIndex * definition.period;
+}
+
+export function isUnbounded(definition: ScheduleRecurring): boolean {
+  return definition.end === undefined && definition.count === undefined;
+}
+
+// The schedules in the actions that have no end, which can only be expanded up
+// to a finite horizon
+export function unboundedSchedules(actions: UserActionGroup[]): ScheduleRecurring[] {
+  const schedules: ScheduleRecurring[] = [];
+  for (const actionGroup of actions) {
+    for (const action of actionGroup.actions) {
+      if (action.type === 'ScheduleRecurring' && isUnbounded(action)) {
+        schedules.push(action);
+      }
+    }
+  }
+  return schedules;
+}
+
+// Creates, replaces or cancels schedules according to the actions in the group
+export function applyScheduleActions(schedules: Schedules, actionGroup: UserActionGroup): Schedules {
+  for (const action of actionGroup.actions) {
+    if (action.type === 'ScheduleRecurring') {
+      // Skip occurrences from before the schedule took effect
+      const elapsed = actionGroup.timestamp - action.start;
+      const nextOccurrenceIndex = Math.max(0, Math.ceil(elapsed / action.period));
+      schedules = setOrRemove(schedules, ScheduleState({ definition: action, nextOccurrenceIndex }));
+    } else if (action.type === 'CancelSchedule') {
+      schedules = schedules.delete(action.scheduleId);
+    }
+  }
+  return schedules;
+}
+
+// The schedule with the earliest next occurrence, if any
+export function nextOccurrence(schedules: Schedules): ScheduleState | undefined {
+  let earliest: ScheduleState | undefined;
+  for (const schedule of schedules.values()) {
+    if (!earliest || nextOccurrenceTime(schedule) < nextOccurrenceTime(earliest)) {
+      earliest = schedule;
+    }
+  }
+  return earliest;
+}
+
+export function nextOccurrenceTime(schedule: ScheduleState): Timestamp {
+  return occurrenceTime(schedule.definition, schedule.nextOccurrenceIndex);
+}
+
+// Moves the schedule past its next occurrence, removing it if it has finished
+export function advanceSchedule(schedules: Schedules, schedule: ScheduleState): Schedules {
+  return setOrRemove(schedules, schedule.set('nextOccurrenceIndex', schedule.nextOccurrenceIndex + 1));
+}
+
+function setOrRemove(schedules: Schedules, schedule: ScheduleState): Schedules {
+  const { definition, nextOccurrenceIndex } = schedule;
+  const finished =
+    (definition.count !== undefined && nextOccurrenceIndex >= definition.count) ||
+    (definition.end !== undefined && occurrenceTime(definition, nextOccurrenceIndex) > definition.end);
+  return finished
+    ? schedules.delete(definition.scheduleId)
+    : schedules.set(definition.scheduleId, schedule);
+}
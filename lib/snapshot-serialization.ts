@@ -0,0 +1,260 @@
+import * as i from 'immutable';
+import { AccountId, CurrencyCode, GroupId, Money, MoneyRate, ScheduleId, Timestamp } from './general';
+import { InflowPolicy, ScheduleRecurring, DrainRateStep, OnFull } from './user-actions';
+import { AccountState, ClosedAccount, HistorySnapshot } from './financial-model';
+import { ScheduleState } from './schedules';
+import { HistoryEvent } from './history-events';
+import { SerializedActionGroup, checkActionGroup, encodeActionGroup } from './action-log';
+
+export const snapshotFormat = 'ice-tray-snapshot';
+export const currentSnapshotVersion = 1;
+
+// Maps are stored as arrays of entries rather than as objects, to preserve
+// their order exactly (objects put keys like "1" before other keys)
+type SerializedMap<K, V> = Array<[K, V]>;
+
+// JSON has no infinite numbers, so they're stored as strings (e.g. the
+// capacity of an uncapped account)
+type SerializedNumber = number | 'Infinity' | '-Infinity';
+
+/**
+ * A `HistorySnapshot` as plain JSON, including the transient state of each
+ * account, so that the history can be continued from the snapshot without
+ * replaying the actions before it (see `HistoryOptions.initialSnapshot`).
+ * Balances are stored as JS numbers, which a numeric backend converts back to
+ * its own representation (see `HistoryOptions.arithmetic`).
+ */
+export interface SerializedSnapshot {
+  format: typeof snapshotFormat;
+  version: number;
+  timestamp: Timestamp;
+  accounts: SerializedAccountState[];
+  schedules: SerializedScheduleState[];
+  // By currency pair (see `currencyPair`). Only present if there are any.
+  conversionRates?: SerializedMap<string, number>;
+  // Only present if there are any
+  closedAccounts?: SerializedClosedAccount[];
+  events: SerializedHistoryEvent[];
+}
+
+export interface SerializedAccountState {
+  accountId: AccountId;
+  capacity: SerializedNumber;
+  overflowTargetId?: AccountId;
+  drainSizes: SerializedMap<AccountId, MoneyRate>;
+  drainPriorities: SerializedMap<AccountId, number>;
+  drainWeights: SerializedMap<AccountId, number>;
+  drainRateSchedules: SerializedMap<AccountId, DrainRateStep[]>;
+  // Only present for accounts with interest or balance-fraction drains, which
+  // keeps snapshots of linear accounts the same as before these existed
+  drainFractions?: SerializedMap<AccountId, number>;
+  interestRate?: number;
+  growthRate?: number;
+  inflowPolicy: InflowPolicy;
+  groupId?: GroupId;
+  currency?: CurrencyCode;
+  // Only present for accounts with a capacity ramp
+  capacityRate?: MoneyRate;
+  capacityRampEnd?: Timestamp;
+  onFull?: SerializedOnFull;
+  mark?: string;
+  // Only present if the account is frozen
+  frozen?: boolean;
+  fillLevel: Money;
+  fillRate: MoneyRate;
+  overflowRate: MoneyRate;
+  drainEffectiveRates: SerializedMap<AccountId, MoneyRate>;
+  drainInflows: SerializedMap<AccountId, MoneyRate>;
+  overflowInflows: SerializedMap<AccountId, MoneyRate>;
+}
+
+// A null overflow target stops the overflow, since JSON has no undefined
+export interface SerializedOnFull {
+  overflowTargetId?: AccountId | null;
+  mark?: string;
+}
+
+export interface SerializedClosedAccount {
+  timestamp: Timestamp;
+  destinationAccountId: AccountId;
+  purchaseAmount?: Money;
+  account: SerializedAccountState;
+}
+
+export interface SerializedScheduleState {
+  scheduleId: ScheduleId;
+  definition: SerializedScheduleRecurring;
+  nextOccurrenceIndex: number;
+}
+
+export interface SerializedScheduleRecurring extends Omit<ScheduleRecurring, 'end'> {
+  end?: SerializedNumber;
+}
+
+// Events with their action groups as they're written to the action log
+export type SerializedHistoryEvent = SerializedEvent<HistoryEvent>;
+type SerializedEvent<E> = E extends HistoryEvent
+  ? Omit<E, 'actionGroup'> & { actionGroup?: SerializedActionGroup }
+  : never;
+
+export function serializeSnapshot(snapshot: HistorySnapshot): SerializedSnapshot {
+  const serialized: SerializedSnapshot = {
+    format: snapshotFormat,
+    version: currentSnapshotVersion,
+    timestamp: snapshot.timestamp,
+    accounts: [...snapshot.accounts.values()].map(serializeAccount),
+    schedules: [...snapshot.schedules].map(([scheduleId, schedule]) => ({
+      scheduleId,
+      definition: serializeScheduleDefinition(schedule.definition),
+      nextOccurrenceIndex: schedule.nextOccurrenceIndex
+    })),
+    events: [...snapshot.events].map(serializeEvent),
+  };
+  if (snapshot.conversionRates.size) {
+    serialized.conversionRates = [...snapshot.conversionRates];
+  }
+  if (snapshot.closedAccounts.size) {
+    serialized.closedAccounts = [...snapshot.closedAccounts.values()].map(closed => ({
+      timestamp: closed.timestamp,
+      destinationAccountId: closed.destinationAccountId,
+      ...(closed.purchaseAmount !== undefined ? { purchaseAmount: closed.purchaseAmount } : {}),
+      account: serializeAccount(closed.account),
+    }));
+  }
+  return serialized;
+}
+
+export function deserializeSnapshot(serialized: SerializedSnapshot): HistorySnapshot {
+  if (serialized.format !== snapshotFormat) {
+    throw new Error(`Not a serialized snapshot (expected format "${snapshotFormat}")`);
+  }
+  if (serialized.version !== currentSnapshotVersion) {
+    throw new Error(`Unsupported snapshot version ${serialized.version}`);
+  }
+  return HistorySnapshot({
+    timestamp: serialized.timestamp,
+    accounts: i.Map(serialized.accounts.map(account => [account.accountId, deserializeAccount(account)])),
+    schedules: i.Map(serialized.schedules.map(schedule => [schedule.scheduleId, ScheduleState({
+      definition: deserializeScheduleDefinition(schedule.definition),
+      nextOccurrenceIndex: schedule.nextOccurrenceIndex
+    })])),
+    conversionRates: i.Map(serialized.conversionRates || []),
+    closedAccounts: i.Map((serialized.closedAccounts || []).map(closed => [closed.account.accountId, ClosedAccount({
+      ...closed,
+      account: deserializeAccount(closed.account)
+    })])),
+    events: i.List(serialized.events.map(deserializeEvent)),
+  });
+}
+
+function serializeAccount(account: AccountState): SerializedAccountState {
+  const serialized: SerializedAccountState = {
+    accountId: account.accountId,
+    capacity: serializeNumber(account.capacity),
+    drainSizes: [...account.drainSizes],
+    drainPriorities: [...account.drainPriorities],
+    drainWeights: [...account.drainWeights],
+    drainRateSchedules: [...account.drainRateSchedules],
+    inflowPolicy: account.inflowPolicy,
+    fillLevel: account.fillLevel,
+    fillRate: account.fillRate,
+    overflowRate: account.overflowRate,
+    drainEffectiveRates: [...account.drainEffectiveRates],
+    drainInflows: [...account.drainInflows],
+    overflowInflows: [...account.overflowInflows],
+  };
+  if (account.overflowTargetId !== undefined) {
+    serialized.overflowTargetId = account.overflowTargetId;
+  }
+  if (account.groupId !== undefined) {
+    serialized.groupId = account.groupId;
+  }
+  if (account.currency !== undefined) {
+    serialized.currency = account.currency;
+  }
+  if (account.drainFractions.size) {
+    serialized.drainFractions = [...account.drainFractions];
+  }
+  if (account.interestRate !== 0) {
+    serialized.interestRate = account.interestRate;
+  }
+  if (account.growthRate !== undefined) {
+    serialized.growthRate = account.growthRate;
+  }
+  if (account.capacityRate !== 0) {
+    serialized.capacityRate = account.capacityRate;
+  }
+  if (account.capacityRampEnd !== undefined) {
+    serialized.capacityRampEnd = account.capacityRampEnd;
+  }
+  if (account.onFull !== undefined) {
+    const { overflowTargetId, mark } = account.onFull;
+    serialized.onFull = {
+      ...('overflowTargetId' in account.onFull ? { overflowTargetId: overflowTargetId !== undefined ? overflowTargetId : null } : {}),
+      ...(mark !== undefined ? { mark } : {}),
+    };
+  }
+  if (account.mark !== undefined) {
+    serialized.mark = account.mark;
+  }
+  if (account.frozen) {
+    serialized.frozen = true;
+  }
+  return serialized;
+}
+
+function deserializeAccount(serialized: SerializedAccountState): AccountState {
+  return AccountState({
+    ...serialized,
+    capacity: deserializeNumber(serialized.capacity),
+    drainSizes: i.Map(serialized.drainSizes),
+    drainPriorities: i.Map(serialized.drainPriorities),
+    drainWeights: i.Map(serialized.drainWeights),
+    drainRateSchedules: i.Map(serialized.drainRateSchedules),
+    drainFractions: i.Map(serialized.drainFractions || []),
+    drainEffectiveRates: i.Map(serialized.drainEffectiveRates),
+    drainInflows: i.Map(serialized.drainInflows),
+    overflowInflows: i.Map(serialized.overflowInflows),
+    onFull: serialized.onFull && deserializeOnFull(serialized.onFull),
+  });
+}
+
+function deserializeOnFull({ overflowTargetId, mark }: SerializedOnFull): OnFull {
+  return {
+    ...(overflowTargetId !== undefined ? { overflowTargetId: overflowTargetId !== null ? overflowTargetId : undefined } : {}),
+    ...(mark !== undefined ? { mark } : {}),
+  };
+}
+
+function serializeEvent(event: HistoryEvent): SerializedHistoryEvent {
+  return (event.actionGroup !== undefined
+    ? { ...event, actionGroup: encodeActionGroup(event.actionGroup) }
+    : event) as SerializedHistoryEvent;
+}
+
+function deserializeEvent(serialized: SerializedHistoryEvent): HistoryEvent {
+  return (serialized.actionGroup !== undefined
+    ? { ...serialized, actionGroup: checkActionGroup(serialized.actionGroup) }
+    : serialized) as HistoryEvent;
+}
+
+function serializeScheduleDefinition(definition: ScheduleRecurring): SerializedScheduleRecurring {
+  const { end, ...rest } = definition;
+  return end !== undefined ? { ...rest, end: serializeNumber(end) } : rest;
+}
+
+function deserializeScheduleDefinition(serialized: SerializedScheduleRecurring): ScheduleRecurring {
+  const { end, ...rest } = serialized;
+  return end !== undefined ? { ...rest, end: deserializeNumber(end) } : rest;
+}
+
+function serializeNumber(value: number): SerializedNumber {
+  if (value === Infinity) {
+    return 'Infinity';
+  }
+  return value === -Infinity ? '-Infinity' : value;
+}
+
+function deserializeNumber(value: SerializedNumber): number {
+  return typeof value === 'number' ? value : Number(value);
+}
@@ -0,0 +1,127 @@
+import { AccountId, Money, Timestamp } from './general';
+import {
+  FinancialHistory, HistorySnapshot, HistoryOptions, calculateSnapshotAtTime, countSnapshotsBefore
+} from './financial-model';
+import { never } from './utils';
+
+export interface TimeSeriesPoint {
+  timestamp: Timestamp;
+  fillLevel: Money;
+}
+
+export interface AccountTimeSeries {
+  accountId: AccountId;
+  points: TimeSeriesPoint[];
+}
+
+/**
+ * The exact balance of each account over the interval `[from, to]`, as the
+ * points of a polyline (the balance is linear between consecutive points).
+ *
+ * Where an action changes a balance, there are two points with the same
+ * timestamp: the balance just before the action and the balance after it.
+ * There are no points for times when the account doesn't exist.
+ *
+ * Accounts with interest or balance-fraction drains (and the targets of those
+ * drains) curve between points, so the points are exact but the lines between
+ * them are not. Use `resampleBalances` to plot those.
+ */
+export function getBalancePolylines(
+  history: FinancialHistory,
+  accountIds: AccountId[],
+  from: Timestamp,
+  to: Timestamp,
+  options: HistoryOptions = {}
+): AccountTimeSeries[] {
+  const series = accountIds.map(accountId => ({ accountId, points: [] as TimeSeriesPoint[] }));
+  const addPoints = (state: HistorySnapshot) => {
+    for (const { accountId, points } of series) {
+      const account = state.accounts.get(accountId);
+      if (account) {
+        const previous = points[points.length - 1];
+        if (!previous || previous.timestamp !== state.timestamp || previous.fillLevel !== account.fillLevel) {
+          points.push({ timestamp: state.timestamp, fillLevel: account.fillLevel });
+        }
+      }
+    }
+  };
+
+  const start = calculateSnapshotAtTime(history, from, options);
+  if (start) {
+    addPoints(start);
+  }
+  for (let i = countSnapshotsBefore(history, from); i < history.size; i++) {
+    const snapshot = history.get(i, never);
+    if (snapshot.timestamp > to) {
+      break;
+    }
+    // The balances just before the snapshot, which differ from the snapshot if
+    // an action was applied at that time
+    const before = calculateSnapshotAtTime(history, snapshot.timestamp, options);
+    if (before && snapshot.timestamp > from) {
+      addPoints(before);
+    }
+    addPoints(snapshot);
+  }
+  // Unless there happens to be a snapshot at the end of the interval, the end
+  // is projected from the last snapshot
+  const snapshotAtEnd = history.get(countSnapshotsBefore(history, to), undefined);
+  const end = calculateSnapshotAtTime(history, to, options);
+  if (end && !(snapshotAtEnd && snapshotAtEnd.timestamp === to)) {
+    addPoints(end);
+  }
+  return series;
+}
+
+/**
+ * The balance of each account at regular intervals from `from` to `to`
+ * (inclusive of `to` if it falls on an interval), such as daily closing
+ * balances.
+ *
+ * Consistent with `calculateStateAtTime`, the balance at each time doesn't
+ * include actions at exactly that time, so it's the closing balance of the
+ * interval that ends at that time.
+ */
+export function resampleBalances(
+  history: FinancialHistory,
+  accountIds: AccountId[],
+  from: Timestamp,
+  to: Timestamp,
+  interval: Timestamp,
+  options: HistoryOptions = {}
+): AccountTimeSeries[] {
+  if (!(interval > 0) || !isFinite(from) || !isFinite(to)) {
+    throw new RangeError(`Cannot sample [${from}, ${to}] every ${interval}`);
+  }
+  const series = accountIds.map(accountId => ({ accountId, points: [] as TimeSeriesPoint[] }));
+  for (let n = 0; from + n * interval <= to; n++) {
+    const timestamp = from + n * interval;
+    const state = calculateSnapshotAtTime(history, timestamp, options);
+    for (const { accountId, points } of series) {
+      const account = state && state.accounts.get(accountId);
+      if (account) {
+        points.push({ timestamp, fillLevel: account.fillLevel });
+      }
+    }
+  }
+  return series;
+}
+
+// One row per point, with a header row of "accountId,timestamp,fillLevel"
+export function timeSeriesToCsv(series: AccountTimeSeries[]): string {
+  const rows = [['accountId', 'timestamp', 'fillLevel']];
+  for (const { accountId, points } of series) {
+    for (const { timestamp, fillLevel } of points) {
+      rows.push([accountId, String(timestamp), String(fillLevel)]);
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function timeSeriesToJson(series: AccountTimeSeries[]): string {
+  return JSON.stringify(series);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
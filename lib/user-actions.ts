@@ -1,4 +1,4 @@
-import { Timestamp, AccountId, Money } from "./general";
+import { Timestamp, AccountId, Money, MoneyRate, ScheduleId, GroupId, CurrencyCode } from "./general";
 
 export interface UserActionGroup {
   timestamp: Timestamp;
@@ -15,31 +15,178 @@ export type UserAction =
   | UpdateDrain
   | DeleteDrain
   | DeleteAccount
+  | FreezeAccount
+  | UnfreezeAccount
+  | CloseAccount
+  | CompletePurchase
   | InjectMoney
+  | Withdraw
+  | Transfer
+  | ScheduleRecurring
+  | CancelSchedule
+  | SetConversionRate
 
 export interface CreateOrUpdateAccount {
   type: 'CreateOrUpdateAccount';
   accountId: AccountId;
   capacity?: Money;
   overflowTargetId?: AccountId;
+  // Defaults to 'DrainsFirst'
+  inflowPolicy?: InflowPolicy;
+  // For presenting related accounts together (see `getGroupViews`). It has no
+  // effect on the flow of money.
+  groupId?: GroupId;
+  // Continuous interest per unit of time, so that a balance with no other flows
+  // grows by a factor of `e^(interestRate * t)`. For a rate `r` compounded once
+  // per unit of time, use `Math.log(1 + r)`. Defaults to 0.
+  interestRate?: number;
+  // The currency of the balance and of every flow out of the account. Flows
+  // into an account with a different currency are converted using the rate set
+  // by `SetConversionRate`. An account without a currency can exchange money
+  // with any account without conversion. Changing the currency doesn't convert
+  // the balance.
+  currency?: CurrencyCode;
+  // Changes the capacity continuously from the time of the action group, such
+  // as a sinking fund whose target grows by 50 per week. Updating the account
+  // without a ramp leaves the ramp as it is, and a ramp with a rate of 0 stops
+  // it. Not supported on accounts with interest or balance-fraction drains.
+  capacityRamp?: CapacityRamp;
+  // What happens when the account next becomes full (straight away, if it's
+  // already full), such as redirecting the overflow of a purchase account once
+  // the purchase is funded. An undefined `onFull` cancels a pending one.
+  onFull?: OnFull;
 }
 
+export interface CapacityRamp {
+  // Change in capacity per unit of time, which may be negative
+  rate: MoneyRate;
+  // The ramp stops at this time (if given), or when the capacity reaches zero
+  until?: Timestamp;
+}
+
+export interface OnFull {
+  // The new overflow target, or undefined to stop overflowing. The overflow
+  // target is left as it is if this isn't present.
+  overflowTargetId?: AccountId;
+  // A label for the account from then on, such as "ready to purchase"
+  mark?: string;
+}
+
+// Whether the inflow of a full account goes to its drains before its overflow.
+// With 'DrainsFirst' the inflow goes to the drains and only the excess
+// overflows. With 'OverflowFirst' all the inflow overflows, and the fixed-rate
+// drains wait (keeping the balance at capacity) until the account is no longer
+// full or has nothing to overflow, e.g. after a withdrawal, when its capacity
+// rises faster than its inflow or when its inflow stops.
+export type InflowPolicy = 'DrainsFirst' | 'OverflowFirst';
+
+// Removes the account without a trace, along with its balance. See
+// `CloseAccount` to keep the money and the history of the account.
 export interface DeleteAccount {
   type: 'DeleteAccount';
   accountId: AccountId;
 }
 
+// Stops the continuous flows into and out of the account (its drains, overflow
+// and interest, and the drains and overflows of other accounts into it), while
+// keeping its balance and configuration until it's unfrozen. Accounts that
+// overflow into a frozen account fill past their capacity in the meantime, as
+// if they had no overflow target. Injections, withdrawals and transfers still
+// apply.
+export interface FreezeAccount {
+  type: 'FreezeAccount';
+  accountId: AccountId;
+}
+
+export interface UnfreezeAccount {
+  type: 'UnfreezeAccount';
+  accountId: AccountId;
+}
+
+// Archives the account: its remaining balance is transferred to the
+// destination, and the overflows and drains of other accounts into it are
+// redirected to the destination. Its own drains and overflow stop. The final
+// state of the account stays in the history (see `ClosedAccount`), and its ID
+// can be used again for a new account.
+export interface CloseAccount {
+  type: 'CloseAccount';
+  accountId: AccountId;
+  destinationAccountId: AccountId;
+}
+
+// Withdraws the capacity of the account (the price of the item it was saving
+// for), and closes the account as for `CloseAccount`, atomically. The action
+// group is rejected if the balance is short of the capacity.
+export interface CompletePurchase {
+  type: 'CompletePurchase';
+  accountId: AccountId;
+  destinationAccountId: AccountId;
+}
+
 export interface InjectMoney {
   type: 'InjectMoney';
   accountId: AccountId;
-  amount: Money; // May be negative
+  amount: Money; // May be negative, but see `Withdraw`
 }
 
+export interface Withdraw {
+  type: 'Withdraw';
+  accountId: AccountId;
+  amount: Money; // Must not be negative
+  // Defaults to 'Reject'
+  shortfall?: ShortfallPolicy;
+}
+
+// Moves money from one account to another, atomically
+export interface Transfer {
+  type: 'Transfer';
+  sourceAccountId: AccountId;
+  targetAccountId: AccountId;
+  amount: Money; // Must not be negative
+  // Defaults to 'Reject'
+  shortfall?: ShortfallPolicy;
+}
+
+// What happens when an account doesn't have enough money for a withdrawal or
+// transfer
+export type ShortfallPolicy =
+  // The whole action group is rejected, if the account is still overdrawn once
+  // all the actions in the group have been applied
+  | 'Reject'
+  // Only the balance of the account is moved
+  | 'Clamp'
+  // The shortfall is taken from the accounts that overflow into the account,
+  // then from the accounts that overflow into those, and so on, nearest first.
+  // If that isn't enough, the group is rejected as for 'Reject'.
+  | 'PullFromOverflowSources'
+
 export interface UpdateDrain {
   type: 'UpdateDrain';
   sourceAccountId: AccountId;
   targetAccountId: AccountId;
   maxRate: Money;
+  // How the drain is served when the source account is empty and its inflow
+  // can't cover all its drains. Drains with a lower priority are served in
+  // full before any drain with a higher priority gets anything (default 0).
+  // Drains with the same priority share the inflow in proportion to their
+  // weight, which defaults to `maxRate` (i.e. proportional to drain size).
+  priority?: number;
+  weight?: number;
+  // Changes to the max rate at later times, such as a phone plan that steps up
+  // after a promotional period. `maxRate` applies until the first step. The
+  // steps must be in order of time. Updating the drain again replaces the
+  // schedule.
+  rateSchedule?: DrainRateStep[];
+  // Drains this fraction of the source's balance per unit of time (e.g. 0.1 for
+  // 10% of the balance per month, if time is in months), instead of a fixed
+  // rate. `maxRate` must be 0 and there can't be a rate schedule. The target
+  // must be a sink: an account without interest, drains or an overflow.
+  balanceFraction?: number;
+}
+
+export interface DrainRateStep {
+  from: Timestamp;
+  maxRate: Money;
 }
 
 export interface DeleteDrain {
@@ -47,3 +194,39 @@ export interface DeleteDrain {
   sourceAccountId: AccountId;
   targetAccountId: AccountId;
 }
+
+// Actions that can be repeated by a schedule. These only affect balances, so
+// that schedules can't change the shape of the account graph.
+export type RecurringAction =
+  | InjectMoney
+
+// Repeats an action every `period`, such as a weekly salary injection.
+// Occurrence `k` is at `start + k * period`, for `k` less than `count` and
+// occurrences not later than `end`. Occurrences before the schedule takes
+// effect (i.e. before the timestamp of its action group) are skipped. Using
+// the ID of an existing schedule replaces it.
+export interface ScheduleRecurring {
+  type: 'ScheduleRecurring';
+  scheduleId: ScheduleId;
+  start: Timestamp;
+  period: Timestamp;
+  end?: Timestamp;
+  count?: number;
+  action: RecurringAction;
+}
+
+export interface CancelSchedule {
+  type: 'CancelSchedule';
+  scheduleId: ScheduleId;
+}
+
+// Sets the rate for converting money from one currency to another, which
+// applies to flows from then on: one unit of `fromCurrency` becomes `rate`
+// units of `toCurrency`. If only the opposite direction has a rate, its
+// inverse is used.
+export interface SetConversionRate {
+  type: 'SetConversionRate';
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  rate: number;
+}
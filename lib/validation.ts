@@ -0,0 +1,709 @@
+import _ from 'lodash';
+import { UserActionGroup, UserAction, ScheduleRecurring, UpdateDrain } from './user-actions';
+import { AccountId, CurrencyCode, ScheduleId, Timestamp } from './general';
+import { occurrenceTime, isUnbounded } from './schedules';
+import { conversionFactor, currencyPair } from './currencies';
+import { HistorySnapshot } from './financial-model';
+import { assertUnreachable, unexpected } from './utils';
+
+export type ValidationErrorKind =
+  | 'OverflowCycle' // Overflow targets that lead back to the overflowing account
+  | 'DrainCycle' // A cycle of flows that includes at least one drain
+  | 'SelfReference' // An account that overflows or drains into itself
+  | 'NegativeRate' // A drain with a negative max rate
+  | 'InvalidRate' // A drain with a max rate that isn't finite
+  | 'DanglingTarget' // A reference to an account that doesn't exist
+  | 'Overdraw' // An account with a negative fill level after an action group
+  | 'InvalidSchedule' // A recurring action with a non-positive period or invalid count, or drain rate steps out of order
+  | 'InvalidDrainPolicy' // A drain with a non-positive weight or a non-finite priority
+  | 'InvalidAmount' // An injection of a non-finite amount, or a withdrawal or transfer of a negative or non-finite amount
+  | 'InvalidCapacity' // A capacity that is negative or not a number (an infinite capacity is allowed)
+  | 'InvalidInterestRate' // An interest rate that isn't finite
+  | 'UnsupportedBalanceFraction' // A balance-fraction drain into an account that isn't a sink
+  | 'InvalidConversionRate' // A conversion rate that isn't positive and finite, or from a currency to itself
+  | 'MissingConversionRate' // A flow between accounts in different currencies with no conversion rate
+  | 'InvalidCapacityRamp' // A capacity ramp that isn't finite, or on an account whose balance curves
+  | 'InvalidClose' // Closing an account whose inflows can't be redirected to the destination
+
+export interface ValidationDiagnostic {
+  // Index into the array of action groups as given (not as sorted by timestamp)
+  actionGroupIndex: number;
+  action: UserAction;
+  kind: ValidationErrorKind;
+  message: string;
+}
+
+export class IceTrayValidationError extends Error {
+  constructor (public diagnostics: ValidationDiagnostic[]) {
+    super(`Invalid actions:\n${diagnostics
+      .map(d => `  [action group ${d.actionGroupIndex}] ${d.kind}: ${d.message}`)
+      .join('\n')}`);
+    this.name = 'IceTrayValidationError';
+  }
+}
+
+// The structural view of an account, which is all that's needed to check the
+// shape of the account graph
+interface AccountNode {
+  overflowTargetId?: AccountId;
+  drainTargetIds: Set<AccountId>;
+  // A subset of `drainTargetIds`
+  balanceFractionTargetIds: Set<AccountId>;
+  hasInterest: boolean;
+  currency?: CurrencyCode;
+  // The overflow target of a pending `onFull`. It's treated as a possible
+  // overflow target (as well as `overflowTargetId`) until `onFull` is updated.
+  switchTargetId?: AccountId;
+  // Until the ramp is stopped with a rate of 0
+  hasCapacityRamp: boolean;
+  // Closed accounts are kept until the end of the action group, so that the
+  // references to them can be checked
+  closed: boolean;
+}
+
+type AccountGraph = Map<AccountId, AccountNode>;
+
+// Schedules are part of the structure because they refer to accounts, and
+// conversion rates because they decide which flows between currencies are
+// possible
+interface Definitions {
+  schedules: Map<ScheduleId, ScheduleRecurring>;
+  conversionRates: Map<string, number>;
+}
+
+type Report = (action: UserAction, kind: ValidationErrorKind, message: string) => void;
+
+interface ReportedAccounts {
+  cycleAccountIds: Set<AccountId>;
+  nonSinkAccountIds: Set<AccountId>;
+  // Source and target account IDs as JSON, for flows with no conversion rate
+  unconvertibleFlows: Set<string>;
+}
+
+/**
+ * Replays the structure of the account graph (but not the balances) to check
+ * for problems that would prevent the financial model from being computed,
+ * such as cycles.
+ *
+ * Action groups are atomic, so references between accounts are only checked at
+ * the end of each group. If the actions continue from an initial snapshot, the
+ * structure starts as it is in the snapshot.
+ */
+export function checkAccountGraph(actions: UserActionGroup[], initialSnapshot?: HistorySnapshot): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+  const graph: AccountGraph = new Map();
+  const definitions: Definitions = { schedules: new Map(), conversionRates: new Map() };
+  const { schedules, conversionRates } = definitions;
+  if (initialSnapshot) {
+    for (const [accountId, account] of initialSnapshot.accounts) {
+      const drainTargetIds = account.drainSizes
+        .filter((size, targetId) => size > 0 || account.drainRateSchedules.get(targetId, []).some(step => step.maxRate > 0))
+        .keySeq();
+      const balanceFractionTargetIds = account.drainFractions.filter(fraction => fraction > 0).keySeq();
+      graph.set(accountId, {
+        overflowTargetId: account.overflowTargetId,
+        drainTargetIds: new Set([...drainTargetIds, ...balanceFractionTargetIds]),
+        balanceFractionTargetIds: new Set(balanceFractionTargetIds),
+        hasInterest: account.interestRate !== 0,
+        currency: account.currency,
+        switchTargetId: account.onFull && account.onFull.overflowTargetId,
+        hasCapacityRamp: account.capacityRate !== 0,
+        closed: false
+      });
+    }
+    for (const [scheduleId, schedule] of initialSnapshot.schedules) {
+      schedules.set(scheduleId, schedule.definition);
+    }
+    for (const [pair, rate] of initialSnapshot.conversionRates) {
+      conversionRates.set(pair, rate);
+    }
+  }
+  const order = _.sortBy(_.range(actions.length), i => actions[i].timestamp);
+
+  for (const actionGroupIndex of order) {
+    const actionGroup = actions[actionGroupIndex];
+    const report: Report = (action, kind, message) =>
+      diagnostics.push({ actionGroupIndex, action, kind, message });
+
+    for (const action of actionGroup.actions) {
+      applyStructure(graph, definitions, action, report);
+    }
+    // Several actions in the same group may contribute to the same cycle (or
+    // make the same balance-fraction target unsupported), but it's only
+    // reported once
+    const reported: ReportedAccounts = {
+      cycleAccountIds: new Set(),
+      nonSinkAccountIds: new Set(),
+      unconvertibleFlows: new Set()
+    };
+    for (const action of actionGroup.actions) {
+      checkReferences(graph, definitions, action, actionGroup.timestamp, reported, report);
+    }
+    for (const [accountId, node] of graph) {
+      if (node.closed) {
+        graph.delete(accountId);
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+function applyStructure(
+  graph: AccountGraph,
+  { schedules, conversionRates }: Definitions,
+  action: UserAction,
+  report: Report
+) {
+  // An account closed earlier in the group is gone for the actions after it,
+  // unless they create it again
+  for (const accountId of existingAccountIds(action)) {
+    const node = graph.get(accountId);
+    if (node && node.closed) {
+      report(action, 'DanglingTarget', `Account "${accountId}" is used after it was closed`);
+      return;
+    }
+  }
+  switch (action.type) {
+    case 'CreateOrUpdateAccount': {
+      const node = getOrCreateNode(graph, action.accountId);
+      if (action.capacity !== undefined && !(action.capacity >= 0)) {
+        report(action, 'InvalidCapacity', `Account "${action.accountId}" has invalid capacity ${action.capacity}`);
+      }
+      if ('overflowTargetId' in action) {
+        if (action.overflowTargetId === action.accountId) {
+          report(action, 'SelfReference', `Account "${action.accountId}" cannot overflow into itself`);
+        } else {
+          node.overflowTargetId = action.overflowTargetId;
+        }
+      }
+      if (action.interestRate !== undefined) {
+        if (isFinite(action.interestRate)) {
+          node.hasInterest = action.interestRate !== 0;
+        } else {
+          report(action, 'InvalidInterestRate', `Account "${action.accountId}" has invalid interest rate ${action.interestRate}`);
+        }
+      }
+      if ('currency' in action) {
+        node.currency = action.currency;
+      }
+      const { capacityRamp, onFull } = action;
+      if (capacityRamp !== undefined) {
+        if (isFinite(capacityRamp.rate) && (capacityRamp.until === undefined || isFinite(capacityRamp.until))) {
+          node.hasCapacityRamp = capacityRamp.rate !== 0;
+        } else {
+          report(action, 'InvalidCapacityRamp', `Account "${action.accountId}" has invalid capacity ramp ${capacityRamp.rate} until ${capacityRamp.until}`);
+        }
+      }
+      if ('onFull' in action) {
+        if (onFull !== undefined && onFull.overflowTargetId === action.accountId) {
+          report(action, 'SelfReference', `Account "${action.accountId}" cannot overflow into itself when full`);
+        } else {
+          node.switchTargetId = onFull && onFull.overflowTargetId;
+        }
+      }
+      break;
+    }
+    case 'InjectMoney': {
+      getOrCreateNode(graph, action.accountId);
+      if (!isFinite(action.amount)) {
+        report(action, 'InvalidAmount', `Cannot inject ${action.amount} into "${action.accountId}"`);
+      }
+      break;
+    }
+    case 'Withdraw': {
+      if (!(action.amount >= 0) || !isFinite(action.amount)) {
+        report(action, 'InvalidAmount', `Cannot withdraw ${action.amount} from "${action.accountId}"`);
+      }
+      break;
+    }
+    case 'Transfer': {
+      const { sourceAccountId, targetAccountId, amount } = action;
+      if (sourceAccountId === targetAccountId) {
+        report(action, 'SelfReference', `Account "${sourceAccountId}" cannot transfer to itself`);
+      } else if (!(amount >= 0) || !isFinite(amount)) {
+        report(action, 'InvalidAmount', `Cannot transfer ${amount} from "${sourceAccountId}" to "${targetAccountId}"`);
+      }
+      break;
+    }
+    case 'UpdateDrain': {
+      const { sourceAccountId, targetAccountId } = action;
+      const node = getOrCreateNode(graph, sourceAccountId);
+      if (sourceAccountId === targetAccountId) {
+        report(action, 'SelfReference', `Account "${sourceAccountId}" cannot drain into itself`);
+      } else if (action.maxRate < 0) {
+        report(action, 'NegativeRate', `Drain from "${sourceAccountId}" to "${targetAccountId}" has negative rate ${action.maxRate}`);
+      } else if (!isFinite(action.maxRate)) {
+        report(action, 'InvalidRate', `Drain from "${sourceAccountId}" to "${targetAccountId}" has invalid rate ${action.maxRate}`);
+      } else if (action.weight !== undefined && !(action.weight > 0 && isFinite(action.weight))) {
+        report(action, 'InvalidDrainPolicy', `Drain from "${sourceAccountId}" to "${targetAccountId}" has invalid weight ${action.weight}`);
+      } else if (action.priority !== undefined && !isFinite(action.priority)) {
+        report(action, 'InvalidDrainPolicy', `Drain from "${sourceAccountId}" to "${targetAccountId}" has invalid priority ${action.priority}`);
+      } else if (action.rateSchedule && action.rateSchedule.some(step => !(step.maxRate >= 0))) {
+        report(action, 'NegativeRate', `Drain from "${sourceAccountId}" to "${targetAccountId}" has a negative rate in its schedule`);
+      } else if (action.rateSchedule && action.rateSchedule.some(step => !isFinite(step.maxRate))) {
+        report(action, 'InvalidRate', `Drain from "${sourceAccountId}" to "${targetAccountId}" has an infinite rate in its schedule`);
+      } else if (action.rateSchedule && !isOrderedSchedule(action)) {
+        report(action, 'InvalidSchedule', `Drain from "${sourceAccountId}" to "${targetAccountId}" has a rate schedule that is not in order of time`);
+      } else if (action.balanceFraction !== undefined && !isValidBalanceFraction(action)) {
+        report(action, 'InvalidDrainPolicy', `Drain from "${sourceAccountId}" to "${targetAccountId}" has invalid balance fraction ${action.balanceFraction}, or also has a fixed rate`);
+      } else {
+        setOrDelete(node.drainTargetIds, targetAccountId, drainCanFlow(action));
+        setOrDelete(node.balanceFractionTargetIds, targetAccountId, action.balanceFraction !== undefined && action.balanceFraction > 0);
+      }
+      break;
+    }
+    case 'DeleteDrain': {
+      const node = graph.get(action.sourceAccountId);
+      if (node) {
+        node.drainTargetIds.delete(action.targetAccountId);
+        node.balanceFractionTargetIds.delete(action.targetAccountId);
+      }
+      break;
+    }
+    case 'DeleteAccount': {
+      graph.delete(action.accountId);
+      break;
+    }
+    case 'FreezeAccount': break;
+    case 'UnfreezeAccount': break;
+    case 'CloseAccount':
+    case 'CompletePurchase': {
+      const { accountId, destinationAccountId } = action;
+      const node = graph.get(accountId);
+      if (accountId === destinationAccountId) {
+        report(action, 'SelfReference', `Account "${accountId}" cannot be closed into itself`);
+      } else if (node) {
+        closeNode(graph, accountId, node, destinationAccountId, action, report);
+      }
+      break;
+    }
+    case 'ScheduleRecurring': {
+      const { scheduleId, period, count } = action;
+      if (!(period > 0) || !isFinite(period)) {
+        report(action, 'InvalidSchedule', `Schedule "${scheduleId}" has invalid period ${period}`);
+      } else if (count !== undefined && !(Number.isInteger(count) && count >= 0)) {
+        report(action, 'InvalidSchedule', `Schedule "${scheduleId}" has invalid count ${count}`);
+      } else if (!isFinite(action.action.amount)) {
+        report(action, 'InvalidAmount', `Schedule "${scheduleId}" cannot inject ${action.action.amount}`);
+      } else {
+        schedules.set(scheduleId, action);
+      }
+      break;
+    }
+    case 'CancelSchedule': {
+      if (!schedules.delete(action.scheduleId)) {
+        report(action, 'DanglingTarget', `Cannot cancel schedule "${action.scheduleId}", which does not exist`);
+      }
+      break;
+    }
+    case 'SetConversionRate': {
+      const { fromCurrency, toCurrency, rate } = action;
+      if (!(rate > 0) || !isFinite(rate) || fromCurrency === toCurrency) {
+        report(action, 'InvalidConversionRate', `Invalid conversion rate ${rate} from "${fromCurrency}" to "${toCurrency}"`);
+      } else {
+        conversionRates.set(currencyPair(fromCurrency, toCurrency), rate);
+      }
+      break;
+    }
+    default: assertUnreachable(action);
+  }
+}
+
+function checkReferences(
+  graph: AccountGraph,
+  { schedules, conversionRates }: Definitions,
+  action: UserAction,
+  timestamp: Timestamp,
+  { cycleAccountIds, nonSinkAccountIds, unconvertibleFlows }: ReportedAccounts,
+  report: Report
+) {
+  const checkConversion = (sourceAccountId: AccountId, targetAccountId: AccountId) => {
+    const source = graph.get(sourceAccountId);
+    const target = graph.get(targetAccountId);
+    const flow = JSON.stringify([sourceAccountId, targetAccountId]);
+    if (source && target && !unconvertibleFlows.has(flow) &&
+      conversionFactor(conversionRates, source.currency, target.currency) === undefined) {
+      unconvertibleFlows.add(flow);
+      report(action, 'MissingConversionRate', `Money flows from "${sourceAccountId}" in ${source.currency} to "${targetAccountId}" in ${target.currency}, but there is no conversion rate`);
+    }
+  };
+
+  switch (action.type) {
+    case 'CreateOrUpdateAccount': {
+      const { accountId } = action;
+      const switchTargetId = action.onFull && action.onFull.overflowTargetId;
+      if (action.overflowTargetId !== undefined || switchTargetId !== undefined || action.interestRate) {
+        checkStillSink(graph, accountId, action, nonSinkAccountIds, report);
+      }
+      if (action.capacityRamp || action.interestRate) {
+        checkCapacityRamp(graph, accountId, action, report);
+      }
+      if ('currency' in action) {
+        for (const [sourceAccountId, targetAccountId] of flowsToOrFrom(graph, accountId)) {
+          checkConversion(sourceAccountId, targetAccountId);
+        }
+      }
+      for (const overflowTargetId of _.uniq([action.overflowTargetId, switchTargetId])) {
+        if (overflowTargetId === undefined || overflowTargetId === accountId) {
+          continue;
+        }
+        checkConversion(accountId, overflowTargetId);
+        if (!graph.has(overflowTargetId)) {
+          report(action, 'DanglingTarget', `Account "${accountId}" overflows into "${overflowTargetId}", which does not exist`);
+        } else if (cycleAccountIds.has(accountId) && cycleAccountIds.has(overflowTargetId)) {
+          continue;
+        } else if (reaches(graph, overflowTargetId, accountId, false)) {
+          report(action, 'OverflowCycle', `Overflow from "${accountId}" to "${overflowTargetId}" creates a cycle`);
+          cycleAccountIds.add(accountId).add(overflowTargetId);
+        } else if (reaches(graph, overflowTargetId, accountId, true)) {
+          report(action, 'DrainCycle', `Overflow from "${accountId}" to "${overflowTargetId}" creates a cycle through a drain`);
+          cycleAccountIds.add(accountId).add(overflowTargetId);
+        }
+      }
+      break;
+    }
+    case 'UpdateDrain': {
+      const { sourceAccountId, targetAccountId } = action;
+      if (sourceAccountId === targetAccountId || !drainCanFlow(action)) {
+        break;
+      }
+      checkStillSink(graph, sourceAccountId, action, nonSinkAccountIds, report);
+      if (action.balanceFraction) {
+        checkCapacityRamp(graph, sourceAccountId, action, report);
+        checkCapacityRamp(graph, targetAccountId, action, report);
+      }
+      checkConversion(sourceAccountId, targetAccountId);
+      const targetNode = graph.get(targetAccountId);
+      if (!targetNode) {
+        report(action, 'DanglingTarget', `Account "${sourceAccountId}" drains into "${targetAccountId}", which does not exist`);
+      } else if (action.balanceFraction && !isSink(targetNode) && !nonSinkAccountIds.has(targetAccountId)) {
+        nonSinkAccountIds.add(targetAccountId);
+        report(action, 'UnsupportedBalanceFraction', `Drain from "${sourceAccountId}" to "${targetAccountId}" takes a fraction of the balance, but "${targetAccountId}" has interest or flows onwards`);
+      } else if (cycleAccountIds.has(sourceAccountId) && cycleAccountIds.has(targetAccountId)) {
+        break;
+      } else if (reaches(graph, targetAccountId, sourceAccountId, true)) {
+        report(action, 'DrainCycle', `Drain from "${sourceAccountId}" to "${targetAccountId}" creates a cycle`);
+        cycleAccountIds.add(sourceAccountId).add(targetAccountId);
+      }
+      break;
+    }
+    case 'DeleteDrain': {
+      if (!graph.has(action.sourceAccountId)) {
+        report(action, 'DanglingTarget', `Cannot delete drain from "${action.sourceAccountId}", which does not exist`);
+      }
+      break;
+    }
+    case 'DeleteAccount': {
+      const { accountId } = action;
+      for (const [sourceAccountId, node] of graph) {
+        if (flowsInto(node, accountId)) {
+          report(action, 'DanglingTarget', `Account "${accountId}" is deleted but "${sourceAccountId}" still flows into it`);
+        }
+      }
+      for (const [scheduleId, definition] of schedules) {
+        if (definition.action.accountId === accountId && hasOccurrencesAfter(definition, timestamp)) {
+          report(action, 'DanglingTarget', `Account "${accountId}" is deleted but schedule "${scheduleId}" still refers to it`);
+        }
+      }
+      break;
+    }
+    case 'FreezeAccount':
+    case 'UnfreezeAccount': {
+      if (!graph.has(action.accountId)) {
+        report(action, 'DanglingTarget', `Cannot freeze or unfreeze "${action.accountId}", which does not exist`);
+      }
+      break;
+    }
+    case 'CloseAccount':
+    case 'CompletePurchase': {
+      const { accountId, destinationAccountId } = action;
+      if (accountId === destinationAccountId) {
+        break;
+      }
+      if (!graph.has(accountId)) {
+        report(action, 'DanglingTarget', `Cannot close "${accountId}", which does not exist`);
+        break;
+      }
+      if (!isOpen(graph, destinationAccountId)) {
+        report(action, 'DanglingTarget', `Account "${accountId}" is closed into "${destinationAccountId}", which does not exist`);
+        break;
+      }
+      checkConversion(accountId, destinationAccountId);
+      checkStillSink(graph, destinationAccountId, action, nonSinkAccountIds, report);
+      checkCapacityRamp(graph, destinationAccountId, action, report);
+      for (const [sourceAccountId, node] of graph) {
+        if (node.closed) {
+          continue;
+        }
+        if (flowsInto(node, accountId)) {
+          report(action, 'DanglingTarget', `Account "${accountId}" is closed but "${sourceAccountId}" still flows into it`);
+        } else if (flowsInto(node, destinationAccountId)) {
+          checkConversion(sourceAccountId, destinationAccountId);
+          if (!(cycleAccountIds.has(sourceAccountId) && cycleAccountIds.has(destinationAccountId)) &&
+            reaches(graph, destinationAccountId, sourceAccountId, true)) {
+            report(action, 'DrainCycle', `Closing "${accountId}" into "${destinationAccountId}" creates a cycle through "${sourceAccountId}"`);
+            cycleAccountIds.add(sourceAccountId).add(destinationAccountId);
+          }
+        }
+      }
+      for (const [scheduleId, definition] of schedules) {
+        if (definition.action.accountId === accountId && hasOccurrencesAfter(definition, timestamp)) {
+          report(action, 'DanglingTarget', `Account "${accountId}" is closed but schedule "${scheduleId}" still refers to it`);
+        }
+      }
+      break;
+    }
+    case 'ScheduleRecurring': {
+      const { accountId } = action.action;
+      if (schedules.get(action.scheduleId) === action && !graph.has(accountId)) {
+        report(action, 'DanglingTarget', `Schedule "${action.scheduleId}" refers to "${accountId}", which does not exist`);
+      }
+      break;
+    }
+    case 'Withdraw': {
+      if (!graph.has(action.accountId)) {
+        report(action, 'DanglingTarget', `Cannot withdraw from "${action.accountId}", which does not exist`);
+      }
+      break;
+    }
+    case 'Transfer': {
+      for (const accountId of [action.sourceAccountId, action.targetAccountId]) {
+        if (!graph.has(accountId)) {
+          report(action, 'DanglingTarget', `Cannot transfer from "${action.sourceAccountId}" to "${action.targetAccountId}", because "${accountId}" does not exist`);
+        }
+      }
+      checkConversion(action.sourceAccountId, action.targetAccountId);
+      break;
+    }
+    case 'InjectMoney': break;
+    case 'CancelSchedule': break;
+    case 'SetConversionRate': break;
+    default: assertUnreachable(action);
+  }
+}
+
+// Redirects the flows into the account to the destination, and stops the
+// account's own flows
+function closeNode(
+  graph: AccountGraph,
+  accountId: AccountId,
+  node: AccountNode,
+  destinationAccountId: AccountId,
+  action: UserAction,
+  report: Report
+) {
+  for (const [sourceAccountId, source] of graph) {
+    if (source.closed || sourceAccountId === accountId || !flowsInto(source, accountId)) {
+      continue;
+    }
+    // A flow that can't be redirected is dropped, so that it's only reported
+    // once
+    if (sourceAccountId === destinationAccountId) {
+      report(action, 'InvalidClose', `Account "${accountId}" cannot be closed into "${destinationAccountId}", which flows into it`);
+      removeFlowsInto(source, accountId);
+    } else if (source.drainTargetIds.has(accountId) && source.drainTargetIds.has(destinationAccountId)) {
+      report(action, 'InvalidClose', `Account "${accountId}" cannot be closed into "${destinationAccountId}", because "${sourceAccountId}" drains into both`);
+      removeFlowsInto(source, accountId);
+    } else {
+      if (source.overflowTargetId === accountId) {
+        source.overflowTargetId = destinationAccountId;
+      }
+      if (source.switchTargetId === accountId) {
+        source.switchTargetId = destinationAccountId;
+      }
+      if (source.drainTargetIds.delete(accountId)) {
+        source.drainTargetIds.add(destinationAccountId);
+      }
+      if (source.balanceFractionTargetIds.delete(accountId)) {
+        source.balanceFractionTargetIds.add(destinationAccountId);
+      }
+    }
+  }
+  node.closed = true;
+  node.overflowTargetId = undefined;
+  node.switchTargetId = undefined;
+  node.drainTargetIds.clear();
+  node.balanceFractionTargetIds.clear();
+}
+
+// Whether the drain has a positive rate now or at some time in its schedule
+function drainCanFlow(action: UpdateDrain): boolean {
+  return action.maxRate > 0 ||
+    (action.rateSchedule || []).some(step => step.maxRate > 0) ||
+    (action.balanceFraction !== undefined && action.balanceFraction > 0);
+}
+
+// A balance-fraction drain can't also have a fixed rate
+function isValidBalanceFraction(action: UpdateDrain): boolean {
+  const fraction = action.balanceFraction;
+  return fraction !== undefined && fraction >= 0 && isFinite(fraction) &&
+    action.maxRate === 0 && action.rateSchedule === undefined;
+}
+
+// The target of a balance-fraction drain must be a sink, because the model can
+// only project a curved inflow in closed form if it isn't passed on
+function isSink(node: AccountNode): boolean {
+  return overflowTargetIds(node).length === 0 && node.drainTargetIds.size === 0 && !node.hasInterest;
+}
+
+// A capacity ramp is projected linearly, so it isn't supported on an account
+// whose balance curves
+function checkCapacityRamp(graph: AccountGraph, accountId: AccountId, action: UserAction, report: Report) {
+  const node = graph.get(accountId);
+  if (!node || !node.hasCapacityRamp) {
+    return;
+  }
+  const curves = node.hasInterest || node.balanceFractionTargetIds.size > 0 ||
+    [...graph.values()].some(sourceNode => sourceNode.balanceFractionTargetIds.has(accountId));
+  if (curves) {
+    report(action, 'InvalidCapacityRamp', `Account "${accountId}" has a capacity ramp, but its balance curves because of interest or a balance-fraction drain`);
+  }
+}
+
+// Reports an action that stops an account from being a sink while a
+// balance-fraction drain still flows into it
+function checkStillSink(
+  graph: AccountGraph,
+  accountId: AccountId,
+  action: UserAction,
+  nonSinkAccountIds: Set<AccountId>,
+  report: Report
+) {
+  const node = graph.get(accountId);
+  if (!node || isSink(node) || nonSinkAccountIds.has(accountId)) {
+    return;
+  }
+  for (const [sourceAccountId, sourceNode] of graph) {
+    if (sourceNode.balanceFractionTargetIds.has(accountId)) {
+      report(action, 'UnsupportedBalanceFraction', `Account "${accountId}" has interest or flows onwards, but "${sourceAccountId}" drains a fraction of its balance into it`);
+      nonSinkAccountIds.add(accountId);
+      return;
+    }
+  }
+}
+
+// The flows into and out of the account, as pairs of source and target
+function flowsToOrFrom(graph: AccountGraph, accountId: AccountId): Array<[AccountId, AccountId]> {
+  const flows: Array<[AccountId, AccountId]> = [];
+  for (const [sourceAccountId, node] of graph) {
+    if (flowsInto(node, accountId)) {
+      flows.push([sourceAccountId, accountId]);
+    }
+  }
+  const node = graph.get(accountId);
+  if (node) {
+    for (const targetAccountId of [...overflowTargetIds(node), ...node.drainTargetIds]) {
+      flows.push([accountId, targetAccountId]);
+    }
+  }
+  return flows;
+}
+
+function setOrDelete<T>(set: Set<T>, value: T, include: boolean) {
+  if (include) {
+    set.add(value);
+  } else {
+    set.delete(value);
+  }
+}
+
+function isOrderedSchedule(action: UpdateDrain): boolean {
+  const times = (action.rateSchedule || []).map(step => step.from);
+  return times.every((time, i) => isFinite(time) && (i === 0 || time > times[i - 1]));
+}
+
+function hasOccurrencesAfter(definition: ScheduleRecurring, timestamp: Timestamp): boolean {
+  if (isUnbounded(definition)) {
+    return true;
+  }
+  const lastByCount = definition.count !== undefined
+    ? occurrenceTime(definition, definition.count - 1)
+    : Infinity;
+  const end = definition.end !== undefined ? definition.end : Infinity;
+  return Math.min(lastByCount, end) > timestamp;
+}
+
+function getOrCreateNode(graph: AccountGraph, accountId: AccountId): AccountNode {
+  let node = graph.get(accountId);
+  // Using the ID of a closed account creates a new account
+  if (!node || node.closed) {
+    node = {
+      overflowTargetId: undefined,
+      drainTargetIds: new Set(),
+      balanceFractionTargetIds: new Set(),
+      hasInterest: false,
+      hasCapacityRamp: false,
+      closed: false
+    };
+    graph.set(accountId, node);
+  }
+  return node;
+}
+
+function removeFlowsInto(node: AccountNode, accountId: AccountId) {
+  if (node.overflowTargetId === accountId) {
+    node.overflowTargetId = undefined;
+  }
+  if (node.switchTargetId === accountId) {
+    node.switchTargetId = undefined;
+  }
+  node.drainTargetIds.delete(accountId);
+  node.balanceFractionTargetIds.delete(accountId);
+}
+
+// The accounts that an action needs to already exist
+function existingAccountIds(action: UserAction): AccountId[] {
+  switch (action.type) {
+    case 'DeleteDrain': return [action.sourceAccountId];
+    case 'DeleteAccount':
+    case 'FreezeAccount':
+    case 'UnfreezeAccount':
+    case 'CloseAccount':
+    case 'CompletePurchase':
+    case 'Withdraw': return [action.accountId];
+    case 'Transfer': return [action.sourceAccountId, action.targetAccountId];
+    default: return [];
+  }
+}
+
+function isOpen(graph: AccountGraph, accountId: AccountId): boolean {
+  const node = graph.get(accountId);
+  return node !== undefined && !node.closed;
+}
+
+function flowsInto(node: AccountNode, accountId: AccountId): boolean {
+  return overflowTargetIds(node).includes(accountId) || node.drainTargetIds.has(accountId);
+}
+
+// The current overflow target and the one it switches to when full, if any
+function overflowTargetIds(node: AccountNode): AccountId[] {
+  return [node.overflowTargetId, node.switchTargetId]
+    .filter((accountId): accountId is AccountId => accountId !== undefined);
+}
+
+// Whether there is a path of flows from one account to another, optionally
+// following drains as well as overflows
+function reaches(graph: AccountGraph, fromId: AccountId, toId: AccountId, includeDrains: boolean): boolean {
+  const visited = new Set<AccountId>();
+  const toVisit = [fromId];
+  while (toVisit.length) {
+    const accountId = toVisit.pop() || unexpected();
+    if (accountId === toId) {
+      return true;
+    }
+    if (visited.has(accountId)) {
+      continue;
+    }
+    visited.add(accountId);
+    const node = graph.get(accountId);
+    if (!node) {
+      continue;
+    }
+    toVisit.push(...overflowTargetIds(node));
+    if (includeDrains) {
+      toVisit.push(...node.drainTargetIds);
+    }
+  }
+  return false;
+}
@@ -0,0 +1,71 @@
+import { getGroupViews } from '../lib/account-groups';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('getGroupViews', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income' },
+      { type: 'CreateOrUpdateAccount', accountId: 'phone', capacity: 10, overflowTargetId: 'laptop', groupId: 'purchases' },
+      { type: 'CreateOrUpdateAccount', accountId: 'laptop', capacity: 5, overflowTargetId: 'car', groupId: 'purchases' },
+      { type: 'CreateOrUpdateAccount', accountId: 'car', capacity: 1000, groupId: 'vehicles' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'phone', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 100 },
+    ]
+  }];
+
+  it('Aggregates the accounts in each group', () => {
+    assert.deepEqual(getGroupViews(actions, 2), [{
+      groupId: 'purchases',
+      accountIds: ['phone', 'laptop'],
+      capacity: 15,
+      fillLevel: 2,
+      fillRate: 1,
+      earliestProjectedCompletion: 10,
+      latestProjectedCompletion: 15,
+    }, {
+      // The income runs out before the car is paid for
+      groupId: 'vehicles',
+      accountIds: ['car'],
+      capacity: 1000,
+      fillLevel: 0,
+      fillRate: 0,
+    }]);
+  });
+
+  it('Full accounts are already complete', () => {
+    const [purchases] = getGroupViews(actions, 12);
+    assert.equal(purchases.earliestProjectedCompletion, 15);
+    assert.equal(purchases.latestProjectedCompletion, 15);
+  });
+
+  it('Moving an account out of a group', () => {
+    const moved = [...actions, {
+      timestamp: 1,
+      actions: [{ type: 'CreateOrUpdateAccount', accountId: 'laptop', groupId: undefined }]
+    } as UserActionGroup];
+    const [purchases] = getGroupViews(moved, 2);
+    assert.deepEqual(purchases.accountIds, ['phone']);
+    assert.equal(purchases.latestProjectedCompletion, 10);
+  });
+
+  it('Expands schedules without an end up to the time of the views', () => {
+    const saving: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'phone', capacity: 200, groupId: 'purchases' },
+        {
+          type: 'ScheduleRecurring',
+          scheduleId: 'pocket-money',
+          start: 0,
+          period: 1,
+          action: { type: 'InjectMoney', accountId: 'phone', amount: 10 }
+        },
+      ]
+    }];
+    const [purchases] = getGroupViews(saving, 10.5);
+    assert.equal(purchases.fillLevel, 110);
+    assert.equal(purchases.latestProjectedCompletion, 19);
+  });
+});
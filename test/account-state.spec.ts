@@ -0,0 +1,49 @@
+import { getAccountViews } from '../lib/account-state';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('getAccountViews', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income' },
+      { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: 10, overflowTargetId: 'b' },
+      { type: 'CreateOrUpdateAccount', accountId: 'b', capacity: 5 },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'a', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 100 },
+    ]
+  }];
+
+  it('No accounts before the first action', () => {
+    assert.deepEqual(getAccountViews(actions, 0), []);
+  });
+
+  it('Projections through an overflow cascade', () => {
+    const views = getAccountViews(actions, 2);
+    assert.deepEqual(views, [{
+      accountId: 'income',
+      capacity: 0,
+      fillLevel: 98,
+      fillRate: -1,
+      inflowRate: 0,
+      drainRates: [{ targetId: 'a', rate: 1 }],
+      projectedToRunOut: 100,
+    }, {
+      accountId: 'a',
+      capacity: 10,
+      fillLevel: 2,
+      fillRate: 1,
+      inflowRate: 1,
+      drainRates: [],
+      projectedToReachCapacity: 10,
+    }, {
+      accountId: 'b',
+      capacity: 5,
+      fillLevel: 0,
+      fillRate: 0,
+      inflowRate: 0,
+      drainRates: [],
+      projectedToReachCapacity: 15,
+    }]);
+  });
+});
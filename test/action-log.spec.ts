@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { assert } from 'chai';
+import {
+  serializeActionLog, parseActionLog, migrateActionGroup, ActionLogFormatError, ActionLogMigration
+} from '../lib/action-log';
+import { ActionLogStore } from '../lib/action-log-store';
+import { computeFinancialHistory } from '../lib/financial-model';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('Action log', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: 10, overflowTargetId: 'b' },
+      { type: 'CreateOrUpdateAccount', accountId: 'b' },
+      { type: 'InjectMoney', accountId: 'a', amount: 15 },
+      { type: 'ScheduleRecurring', scheduleId: 's', start: 1, period: 1, count: 2, action: { type: 'InjectMoney', accountId: 'a', amount: 1 } },
+    ]
+  }, {
+    timestamp: 5,
+    actions: [
+      // Removes the overflow, which is different to not mentioning it
+      { type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: undefined },
+      { type: 'CreateOrUpdateAccount', accountId: 'b', capacityRamp: { rate: 0.5 }, onFull: { overflowTargetId: undefined, mark: 'done' } },
+      { type: 'Transfer', sourceAccountId: 'b', targetAccountId: 'a', amount: 2, shortfall: 'Clamp' },
+    ]
+  }];
+
+  it('Round trip', () => {
+    const text = serializeActionLog(actions);
+    assert.equal(text.split('\n')[0], '{"format":"ice-tray-action-log","version":1}');
+    const parsed = parseActionLog(text);
+    assert.deepEqual(parsed, actions);
+    assert.isTrue('overflowTargetId' in parsed[1].actions[0]);
+    assert.isFalse('capacity' in parsed[1].actions[0]);
+  });
+
+  it('Round trip of infinite numbers', () => {
+    const uncapped: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: Infinity },
+        { type: 'ScheduleRecurring', scheduleId: 's', start: 1, period: 1, end: Infinity, action: { type: 'InjectMoney', accountId: 'a', amount: 1 } },
+      ]
+    }];
+    const text = serializeActionLog(uncapped);
+    assert.include(text, '"capacity":"Infinity"');
+    assert.deepEqual(parseActionLog(text), uncapped);
+  });
+
+  it('Schema errors', () => {
+    const header = '{"format":"ice-tray-action-log","version":1}\n';
+    const parseGroup = (actionGroup: string) => () => parseActionLog(header + actionGroup);
+    assert.throws(parseGroup('{"timestamp":0,"actions":[{"type":"Explode"}]}'), ActionLogFormatError,
+      'Line 2: Unknown action type "Explode" at actionGroup.actions[0]');
+    assert.throws(parseGroup('{"timestamp":0,"actions":[{"type":"InjectMoney","accountId":"a","amount":"5"}]}'),
+      ActionLogFormatError, 'Line 2: Expected actionGroup.actions[0].amount to be a number');
+    assert.throws(parseGroup('{"timestamp":0,"actions":[{"type":"DeleteAccount","accountId":"a","force":true}]}'),
+      ActionLogFormatError, 'Line 2: Unexpected field actionGroup.actions[0].force');
+    assert.throws(parseGroup('{"timestamp":0,"actions":[{"type":"Withdraw","accountId":"a","amount":1,"shortfall":"Ignore"}]}'),
+      ActionLogFormatError, /shortfall to be one of/);
+    assert.throws(parseGroup('{"timestamp":0,'), ActionLogFormatError, /^Line 2: /);
+    assert.throws(() => parseActionLog('[]'), ActionLogFormatError, /Not an action log/);
+    assert.throws(() => parseActionLog('{"format":"ice-tray-action-log","version":99}'), ActionLogFormatError, /version 99/);
+  });
+
+  it('Migrations', () => {
+    const migrations: ActionLogMigration[] = [{
+      // E.g. if `InjectMoney.amount` had been in cents
+      fromVersion: 1,
+      migrate: actionGroup => ({
+        ...actionGroup,
+        actions: actionGroup.actions.map(action =>
+          typeof action.amount === 'number' ? { ...action, amount: action.amount / 100 } : action)
+      })
+    }, {
+      fromVersion: 2,
+      migrate: ({ timestamp, ...rest }) => ({ ...rest, timestamp: typeof timestamp === 'number' ? timestamp * 1000 : timestamp })
+    }];
+    const v1 = { timestamp: 2, actions: [{ type: 'InjectMoney', accountId: 'a', amount: 150 }] };
+    assert.deepEqual(migrateActionGroup(v1, 1, migrations, 3), {
+      timestamp: 2000,
+      actions: [{ type: 'InjectMoney', accountId: 'a', amount: 1.5 }]
+    });
+    assert.throws(() => migrateActionGroup(v1, 1, migrations.slice(1), 3), ActionLogFormatError, 'No migration from action log version 1');
+    assert.throws(() => migrateActionGroup({ timestamp: 2, actions: [1] }, 1, migrations, 3), ActionLogFormatError,
+      'Expected actionGroup.actions[0] to be an object');
+  });
+
+  it('File-backed store', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ice-tray-'));
+    try {
+      const store = new ActionLogStore(path.join(directory, 'log.jsonl'));
+      assert.deepEqual(store.load(), []);
+      for (const actionGroup of actions) {
+        store.append(actionGroup);
+      }
+      assert.throws(() => store.append({ timestamp: 6, actions: [{ type: 'Bogus' } as any] }), ActionLogFormatError);
+      const loaded = new ActionLogStore(store.path).load();
+      assert.deepEqual(loaded, actions);
+      assert.deepEqual(computeFinancialHistory(loaded).toJS(), computeFinancialHistory(actions).toJS());
+    } finally {
+      for (const file of fs.readdirSync(directory)) {
+        fs.unlinkSync(path.join(directory, file));
+      }
+      fs.rmdirSync(directory);
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { assert } from 'chai';
+import {
+  parseCsvStatement, parseOfxStatement, readBankStatement, importBankTransactions, reconcileWithStatement,
+  BankStatementFormatError, ImportRule
+} from '../lib/bank-statements';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('Bank statements', () => {
+  const day = (date: string) => Date.parse(date);
+
+  // Newest first, as many banks export them
+  const csv =
+    'Date,Description,Debit,Credit,Balance\r\n' +
+    '08/01/2024,"Rent, January",400.00,,"1,100.00"\r\n' +
+    '08/01/2024,Coffee Club,4.50,,"1,500.00"\r\n' +
+    '01/01/2024,ACME PAYROLL,,"1,000.00","1,504.50"\r\n';
+
+  const ofx = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    '',
+    '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+    '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240101120000[+10:EST]<TRNAMT>1000.00<FITID>1<NAME>ACME PAYROLL</STMTTRN>',
+    '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240108<TRNAMT>-4.50<FITID>2<NAME>Coffee Club<MEMO>Flat white</STMTTRN>',
+    '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240108<TRNAMT>-400.00<FITID>3<NAME>Rent &amp; bond</STMTTRN>',
+    '</BANKTRANLIST><LEDGERBAL><BALAMT>1100.00<DTASOF>20240108</LEDGERBAL>',
+    '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+  ].join('\n');
+
+  const rules: ImportRule[] = [
+    { payee: /payroll/i, minAmount: 0, accountId: 'income' },
+    { payee: 'rent', accountId: 'rent' },
+    { maxAmount: 0, accountId: 'spending', shortfall: 'Clamp' },
+  ];
+
+  it('CSV', () => {
+    assert.deepEqual(parseCsvStatement(csv, { dateFormat: 'DD/MM/YYYY', debit: 'Debit', credit: 'Credit', balance: 'Balance' }), [
+      { timestamp: day('2024-01-01'), amount: 1000, payee: 'ACME PAYROLL', balance: 1504.5 },
+      { timestamp: day('2024-01-08'), amount: -4.5, payee: 'Coffee Club', balance: 1500 },
+      { timestamp: day('2024-01-08'), amount: -400, payee: 'Rent, January', balance: 1100 },
+    ]);
+
+    const signed = 'Posted,Amount,Payee\n2024-02-30,(5.00),x\n';
+    assert.throws(() => parseCsvStatement(signed), BankStatementFormatError, 'Missing column "Date"');
+    assert.throws(() => parseCsvStatement(signed, { date: 'Posted', payee: 'Payee' }), BankStatementFormatError, 'Line 2: Invalid date "2024-02-30"');
+    assert.deepEqual(parseCsvStatement(signed.replace('30', '28'), { date: 'Posted', payee: 'Payee' }), [
+      { timestamp: day('2024-02-28'), amount: -5, payee: 'x' }
+    ]);
+    assert.throws(() => parseCsvStatement('Date,Amount,Description\n2024-01-01,12.3.4,x\n'), BankStatementFormatError, 'Line 2: Invalid amount "12.3.4"');
+  });
+
+  it('OFX', () => {
+    assert.deepEqual(parseOfxStatement(ofx), [
+      { timestamp: day('2024-01-01'), amount: 1000, payee: 'ACME PAYROLL', id: '1', balance: 1504.5 },
+      { timestamp: day('2024-01-08'), amount: -4.5, payee: 'Coffee Club', memo: 'Flat white', id: '2', balance: 1500 },
+      { timestamp: day('2024-01-08'), amount: -400, payee: 'Rent & bond', id: '3', balance: 1100 },
+    ]);
+    assert.throws(() => parseOfxStatement('Date,Amount\n'), BankStatementFormatError);
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ice-tray-'));
+    try {
+      fs.writeFileSync(path.join(directory, 'statement.qfx'), ofx);
+      assert.deepEqual(readBankStatement(path.join(directory, 'statement.qfx')), parseOfxStatement(ofx));
+      fs.writeFileSync(path.join(directory, 'statement.csv'), csv);
+      assert.lengthOf(readBankStatement(path.join(directory, 'statement.csv'), { dateFormat: 'DD/MM/YYYY', debit: 'Debit', credit: 'Credit' }), 3);
+    } finally {
+      for (const file of fs.readdirSync(directory)) {
+        fs.unlinkSync(path.join(directory, file));
+      }
+      fs.rmdirSync(directory);
+    }
+  });
+
+  it('Rules with global regular expressions match every transaction', () => {
+    const coffee = { timestamp: day('2024-01-08'), payee: 'Coffee Club', amount: -4.5 };
+    const { actionGroups, unmatched } = importBankTransactions(
+      [coffee, { ...coffee, timestamp: day('2024-01-09') }, { ...coffee, timestamp: day('2024-01-10') }],
+      [{ payee: /coffee/gi, accountId: 'spending' }]);
+    assert.equal(actionGroups.length, 3);
+    assert.deepEqual(unmatched, []);
+  });
+
+  it('Import and reconcile', () => {
+    const transactions = parseOfxStatement(ofx);
+    const { actionGroups, unmatched } = importBankTransactions(transactions, rules);
+    assert.deepEqual(actionGroups, [{
+      timestamp: day('2024-01-01'),
+      actions: [{ type: 'InjectMoney', accountId: 'income', amount: 1000 }]
+    }, {
+      timestamp: day('2024-01-08'),
+      actions: [
+        { type: 'Withdraw', accountId: 'spending', amount: 4.5, shortfall: 'Clamp' },
+        { type: 'Withdraw', accountId: 'rent', amount: 400 },
+      ]
+    }]);
+    assert.deepEqual(importBankTransactions(transactions, rules.slice(0, 1)).unmatched, transactions.slice(1));
+    assert.deepEqual(unmatched, []);
+
+    // The bank account already had 504.50 in it. Money moving between the
+    // accounts that represent it doesn't change the total.
+    const model: UserActionGroup[] = [{
+      timestamp: day('2023-12-31'),
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'rent' },
+        { type: 'CreateOrUpdateAccount', accountId: 'spending' },
+        { type: 'InjectMoney', accountId: 'rent', amount: 500 },
+        { type: 'InjectMoney', accountId: 'spending', amount: 4.5 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'rent', maxRate: 1 },
+      ]
+    }];
+    const accountIds = ['income', 'rent', 'spending'];
+    const reconciled = reconcileWithStatement([...model, ...actionGroups], transactions, accountIds);
+    assert.deepEqual(reconciled.days.map(comparison => comparison.discrepancy), [0, 0]);
+    assert.deepEqual(reconciled.discrepancies, []);
+
+    const missingCoffee = [...model, ...importBankTransactions(transactions, rules.slice(0, 2)).actionGroups];
+    assert.deepEqual(reconcileWithStatement(missingCoffee, transactions, accountIds).discrepancies, [
+      { timestamp: day('2024-01-08'), statementBalance: 1100, modelledBalance: 1104.5, discrepancy: 4.5 }
+    ]);
+  });
+});
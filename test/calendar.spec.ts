@@ -0,0 +1,121 @@
+import { assert } from 'chai';
+import {
+  perWeek, perMonth, perCalendarMonth, addMonths, toTimestamp, toActionGroups, getCalendarAccountViews,
+  iterateCalendarEvents, withDate, millisecondsPerDay, millisecondsPerWeek, computeCalendarLedger,
+  getCalendarBalancePolylines, resampleCalendarBalances, seekCalendarGoal, getCalendarGroupViews,
+  getCalendarCurrencyTotals
+} from '../lib/calendar';
+import { calculateStateAtTime, computeFinancialHistory } from '../lib/financial-model';
+import { never } from '../lib/utils';
+
+describe('Calendar', () => {
+  it('Rates', () => {
+    assert.equal(perWeek(200) * millisecondsPerWeek, 200);
+    assert.closeTo(perWeek(200) * 2 * millisecondsPerDay, 400 / 7, 1e-9);
+    // 12 average months are a Gregorian year
+    assert.closeTo(perMonth(100) * 365.2425 * millisecondsPerDay, 1200, 1e-9);
+  });
+
+  it('Times', () => {
+    assert.equal(toTimestamp('2024-03-01'), Date.UTC(2024, 2, 1));
+    assert.equal(toTimestamp(new Date(Date.UTC(2024, 2, 1))), Date.UTC(2024, 2, 1));
+    assert.equal(toTimestamp(5), 5);
+    assert.throws(() => toTimestamp('next Tuesday'), RangeError);
+    assert.equal(addMonths('2024-01-31', 1), Date.UTC(2024, 1, 29));
+    assert.equal(addMonths('2023-01-31', 1), Date.UTC(2023, 1, 28));
+    assert.equal(addMonths('2024-03-15T06:00Z', -3), Date.UTC(2023, 11, 15, 6));
+    assert.deepEqual(withDate({ timestamp: 0, fillLevel: 1 }), { timestamp: 0, fillLevel: 1, date: new Date(0) });
+  });
+
+  it('Pays the same amount in each calendar month', () => {
+    const actions = toActionGroups([{
+      timestamp: '2024-01-01',
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'rent' },
+        { type: 'InjectMoney', accountId: 'income', amount: 10000 },
+        {
+          type: 'UpdateDrain',
+          sourceAccountId: 'income',
+          targetAccountId: 'rent',
+          ...perCalendarMonth(1000, '2024-01-15', '2024-04-01')
+        },
+      ]
+    }]);
+    const rentAt = (date: string) => calculateStateAtTime(actions, toTimestamp(date)).get('rent', never).fillLevel;
+    assert.equal(rentAt('2024-01-15'), 0);
+    assert.closeTo(rentAt('2024-02-01'), 1000 * 17 / 31, 1e-6);
+    // February 2024 is 29 days and March is 31, but both pay the same
+    assert.closeTo(rentAt('2024-03-01') - rentAt('2024-02-01'), 1000, 1e-6);
+    assert.closeTo(rentAt('2024-04-01') - rentAt('2024-03-01'), 1000, 1e-6);
+    assert.closeTo(rentAt('2024-06-01'), rentAt('2024-04-01'), 1e-6);
+    assert.throws(() => perCalendarMonth(1000, '2024-02-01', '2024-01-01'), RangeError);
+  });
+
+  it('Queries return dates', () => {
+    const actions = toActionGroups([{
+      timestamp: new Date(Date.UTC(2024, 0, 1)),
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+        { type: 'InjectMoney', accountId: 'income', amount: 400 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'expenses', maxRate: perWeek(200) },
+      ]
+    }]);
+    const [income] = getCalendarAccountViews(actions, '2024-01-08');
+    assert.equal(income.accountId, 'income');
+    assert.closeTo(income.fillLevel, 200, 1e-6);
+    assert.deepEqual(income.date, new Date('2024-01-08'));
+    assert.equal(income.projectedToRunOut, Date.UTC(2024, 0, 15));
+    assert.deepEqual(income.projectedToRunOutDate, new Date('2024-01-15'));
+
+    const history = computeFinancialHistory(actions);
+    const events = [...iterateCalendarEvents(history, '2024-01-02')];
+    assert.deepEqual(events.map(event => [event.type, event.date]), [
+      ['AccountEmptied', new Date('2024-01-15')],
+      ['DrainStarved', new Date('2024-01-15')],
+    ]);
+  });
+
+  it('Other queries take and return dates', () => {
+    const actions = toActionGroups([{
+      timestamp: '2024-01-01',
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income', currency: 'USD' },
+        { type: 'CreateOrUpdateAccount', accountId: 'bike', capacity: 300, groupId: 'purchases', currency: 'USD' },
+        { type: 'InjectMoney', accountId: 'income', amount: 400 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'bike', maxRate: perWeek(200) },
+      ]
+    }]);
+    const history = computeFinancialHistory(actions);
+
+    const ledger = computeCalendarLedger(actions, '2024-01-01', '2024-01-08');
+    assert.deepEqual([ledger.fromDate, ledger.toDate], [new Date('2024-01-01'), new Date('2024-01-08')]);
+    assert.closeTo(ledger.edges[0].amount, 200, 1e-6);
+
+    const [polyline] = getCalendarBalancePolylines(history, ['bike'], '2024-01-01', '2024-01-31');
+    assert.deepEqual(polyline.points.map(point => point.date), [
+      new Date('2024-01-01'), new Date('2024-01-11T12:00Z'), new Date('2024-01-15'), new Date('2024-01-31')
+    ]);
+    const [samples] = resampleCalendarBalances(history, ['income'], '2024-01-01', '2024-01-15', millisecondsPerWeek);
+    // The account is created by the actions at the first time, which aren't
+    // included in the balance at that time
+    assert.deepEqual(samples.points.map(point => point.date), [new Date('2024-01-08'), new Date('2024-01-15')]);
+
+    const [group] = getCalendarGroupViews(actions, '2024-01-08');
+    assert.deepEqual(group.date, new Date('2024-01-08'));
+    assert.deepEqual(group.latestProjectedCompletionDate, new Date('2024-01-11T12:00Z'));
+    const [total] = getCalendarCurrencyTotals(actions, '2024-01-08');
+    assert.equal(total.currency, 'USD');
+    assert.deepEqual(total.date, new Date('2024-01-08'));
+
+    const result = seekCalendarGoal(
+      actions,
+      { type: 'NeverRunsOutBefore', accountId: 'income', from: '2024-01-02', deadline: '2024-01-22' },
+      { actionGroupIndex: 0, actionIndex: 2 });
+    assert.equal(result.type, 'Solved');
+    if (result.type === 'Solved') {
+      assert.closeTo(result.value, 600, 1e-3);
+    }
+  });
+});
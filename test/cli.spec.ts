@@ -0,0 +1,157 @@
+import { assert } from 'chai';
+import { runCli, parseTime, formatTime, CliIo } from '../lib/cli';
+import { serializeActionLog } from '../lib/action-log';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('CLI', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'bills', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 5 },
+    ]
+  }, {
+    timestamp: 2,
+    actions: [{ type: 'InjectMoney', accountId: 'income', amount: 20 }]
+  }];
+
+  const run = (args: string[], files: { [path: string]: string } = { 'budget.log': serializeActionLog(actions) }) => {
+    const output = { code: 0, stdout: '', stderr: '' };
+    const io: CliIo = {
+      readFile: path => files[path],
+      write: text => output.stdout += text,
+      writeError: text => output.stderr += text,
+      now: () => Date.UTC(2024, 0, 3, 12),
+    };
+    output.code = runCli(args, io);
+    return output;
+  };
+
+  it('state', () => {
+    assert.deepEqual(run(['state', 'budget.log', '--at', '3']), {
+      code: 0,
+      stdout:
+        'State at 3\n' +
+        '\n' +
+        'Account  Balance  Capacity  Fill rate  Inflow  Drains\n' +
+        'income         9        10         -1       0  bills: 1\n' +
+        'savings       13         0          0       0\n' +
+        'bills          3         0          1       1\n',
+      stderr: ''
+    });
+  });
+
+  it('Defaults to the last action without a time unit', () => {
+    const { code, stdout } = run(['state', 'budget.log']);
+    assert.equal(code, 0);
+    assert.match(stdout, /^State at 2\n/);
+    assert.match(run(['forecast', 'budget.log']).stdout, /^Forecast from 2\n/);
+    assert.equal(run(['export-graph', 'budget.log']).code, 0);
+  });
+
+  it('forecast', () => {
+    assert.deepEqual(run(['forecast', 'budget.log', '--account', 'income', '--time-unit', 'day', '--epoch', '2024-01-01']), {
+      code: 0,
+      stdout:
+        'Forecast from 2024-01-03T12:00:00.000Z\n' +
+        '\n' +
+        'Account  Balance  Capacity  Fill rate  Reaches capacity  Runs out\n' +
+        'income       9.5        10         -1  never             2024-01-13\n',
+      stderr: ''
+    });
+  });
+
+  it('forecast with a schedule that has no end', () => {
+    const log = serializeActionLog([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        {
+          type: 'ScheduleRecurring',
+          scheduleId: 'salary',
+          start: 0,
+          period: 2,
+          action: { type: 'InjectMoney', accountId: 'income', amount: 3 }
+        },
+      ]
+    }]);
+    const { code, stdout } = run(['forecast', 'salary.log', '--account', 'income', '--at', '1'], { 'salary.log': log });
+    assert.equal(code, 0);
+    assert.equal(stdout,
+      'Forecast from 1\n' +
+      '\n' +
+      'Account  Balance  Capacity  Fill rate  Reaches capacity  Runs out\n' +
+      'income         3        10          0                 6  never\n');
+  });
+
+  it('history', () => {
+    const { code, stdout } = run(['history', 'budget.log', '--from', '1', '--to=2']);
+    assert.equal(code, 0);
+    assert.equal(stdout,
+      '2: income filled\n' +
+      '  Account  Balance  Capacity  Fill rate\n' +
+      '  income        10        10         -1\n' +
+      '  savings       13         0          0\n' +
+      '  bills          2         0          1\n' +
+      '\n');
+
+    const json = run(['history', 'budget.log', '--json']).stdout.trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(json.map(snapshot => snapshot.timestamp), [0, 2, 12]);
+  });
+
+  it('validate', () => {
+    assert.deepEqual(run(['validate', 'budget.log']), { code: 0, stdout: 'OK: 2 action groups\n', stderr: '' });
+
+    const invalid = serializeActionLog([{
+      timestamp: 1,
+      actions: [{ type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: 'a' }]
+    }]);
+    const { code, stdout } = run(['validate', 'invalid.log'], { 'invalid.log': invalid });
+    assert.equal(code, 1);
+    assert.match(stdout, /^Action group 1 \(at 1\): SelfReference: /);
+  });
+
+  it('export-graph', () => {
+    const { code, stdout } = run(['export-graph', 'budget.log', '--at', '3']);
+    assert.equal(code, 0);
+    assert.include(stdout, 'digraph accounts {\n');
+    assert.include(stdout, '"income" -> "bills" [label="1 / 1"];\n');
+  });
+
+  it('Usage errors', () => {
+    assert.equal(run([]).code, 2);
+    assert.equal(run(['--help']).code, 0);
+    assert.deepEqual(run(['frobnicate', 'budget.log']), {
+      code: 2,
+      stdout: '',
+      stderr: 'Unknown command "frobnicate"\nRun "ice-tray --help" for usage\n'
+    });
+    assert.equal(run(['state', 'budget.log', '--at']).stderr, 'Missing value for --at\nRun "ice-tray --help" for usage\n');
+    assert.equal(run(['state', 'budget.log', '--from', '1']).stderr, 'Unknown option --from\nRun "ice-tray --help" for usage\n');
+    assert.equal(run(['state', 'budget.log', '--at', 'now']).stderr,
+      '"now" is not a number (dates need a --time-unit)\nRun "ice-tray --help" for usage\n');
+  });
+
+  it('Times', () => {
+    const noUnit = { epoch: 0 };
+    const days = { unit: 'day' as 'day', epoch: Date.UTC(2024, 0, 1) };
+    assert.equal(parseTime('1.5', noUnit, 0), 1.5);
+    assert.equal(parseTime('-2e3', days, 0), -2000);
+    assert.equal(parseTime('2024-01-11', days, 0), 10);
+    assert.equal(parseTime('2024-01-01T12:00Z', days, 0), 0.5);
+    assert.equal(parseTime('now', days, Date.UTC(2024, 0, 2)), 1);
+    assert.throws(() => parseTime('2024-01-11', noUnit, 0), /dates need a --time-unit/);
+    assert.equal(parseTime('2024-01-01T12:00+12:00', days, 0), 0);
+    assert.equal(parseTime('11 January 2024 UTC', days, 0), 10);
+    assert.throws(() => parseTime('soon', days, 0),
+      'Invalid date "soon" (expected a date such as 2024-03-01 for midnight UTC, 2024-03-01T09:00 for local time, ' +
+      '2024-03-01T09:00Z or 2024-03-01T09:00+10:00)');
+    assert.equal(formatTime(10, days), '2024-01-11');
+    assert.equal(formatTime(0.25, days), '2024-01-01T06:00:00.000Z');
+    assert.equal(formatTime(0.25, noUnit), '0.25');
+  });
+});
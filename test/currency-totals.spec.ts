@@ -0,0 +1,59 @@
+import { getCurrencyTotals } from '../lib/currency-totals';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('getCurrencyTotals', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: 1.5 },
+      { type: 'CreateOrUpdateAccount', accountId: 'usd-wallet', currency: 'USD' },
+      { type: 'CreateOrUpdateAccount', accountId: 'aud-wallet', currency: 'AUD' },
+      { type: 'CreateOrUpdateAccount', accountId: 'holiday', currency: 'AUD', capacity: 100 },
+      { type: 'CreateOrUpdateAccount', accountId: 'notes' },
+      { type: 'UpdateDrain', sourceAccountId: 'usd-wallet', targetAccountId: 'holiday', maxRate: 2 },
+      { type: 'InjectMoney', accountId: 'usd-wallet', amount: 50 },
+      { type: 'InjectMoney', accountId: 'aud-wallet', amount: 10 },
+      { type: 'InjectMoney', accountId: 'notes', amount: 1 },
+    ]
+  }];
+
+  it('Totals the accounts in each currency', () => {
+    assert.deepEqual(getCurrencyTotals(actions, 10), [{
+      currency: 'USD',
+      accountIds: ['usd-wallet'],
+      capacity: 0,
+      fillLevel: 30,
+      fillRate: -2,
+    }, {
+      currency: 'AUD',
+      accountIds: ['aud-wallet', 'holiday'],
+      capacity: 100,
+      fillLevel: 40,
+      fillRate: 3,
+    }, {
+      accountIds: ['notes'],
+      capacity: 0,
+      fillLevel: 1,
+      fillRate: 0,
+    }]);
+  });
+
+  it('Expands schedules without an end up to the time of the totals', () => {
+    const saving: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'holiday', currency: 'AUD' },
+        {
+          type: 'ScheduleRecurring',
+          scheduleId: 'pocket-money',
+          start: 0,
+          period: 1,
+          action: { type: 'InjectMoney', accountId: 'holiday', amount: 10 }
+        },
+      ]
+    }];
+    const [aud] = getCurrencyTotals(saving, 10.5);
+    assert.equal(aud.fillLevel, 110);
+  });
+});
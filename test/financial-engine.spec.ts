@@ -0,0 +1,53 @@
+import { FinancialEngine } from '../lib/financial-engine';
+import { computeFinancialHistory, calculateStateAtTime } from '../lib/financial-model';
+import { IceTrayValidationError } from '../lib/validation';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('FinancialEngine', () => {
+  const setup: UserActionGroup = {
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'expenses', maxRate: 1 },
+    ]
+  };
+  const inject = (timestamp: number, amount: number): UserActionGroup => ({
+    timestamp,
+    actions: [{ type: 'InjectMoney', accountId: 'income', amount }]
+  });
+
+  it('Append action groups', () => {
+    const engine = new FinancialEngine([setup]);
+    for (let t = 1; t <= 20; t++) {
+      engine.addActionGroup(inject(t * 3, 2));
+    }
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory(engine.actions as UserActionGroup[]).toJS());
+  });
+
+  it('Insert, update and remove earlier action groups', () => {
+    const actions = [setup, inject(5, 20), inject(30, 4), inject(40, 50)];
+    const engine = new FinancialEngine(actions);
+
+    assert.equal(engine.addActionGroup(inject(20, 7)), 2);
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory([...actions, inject(20, 7)]).toJS());
+
+    assert.equal(engine.updateActionGroup(1, inject(35, 3)), 3);
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory([setup, inject(20, 7), inject(30, 4), inject(35, 3), inject(40, 50)]).toJS());
+
+    engine.removeActionGroup(2);
+    const expectedActions = [setup, inject(20, 7), inject(35, 3), inject(40, 50)];
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory(expectedActions).toJS());
+    assert.deepEqual(engine.calculateStateAtTime(37).toJS(), calculateStateAtTime(expectedActions, 37).toJS());
+  });
+
+  it('Invalid changes leave the engine unchanged', () => {
+    const engine = new FinancialEngine([setup, inject(5, 20)]);
+    const history = engine.history;
+    assert.throws(() => engine.addActionGroup(inject(3, -50)), IceTrayValidationError);
+    assert.equal(engine.history, history);
+    assert.equal(engine.actions.length, 2);
+  });
+});
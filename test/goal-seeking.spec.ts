@@ -0,0 +1,91 @@
+import { assert } from 'chai';
+import { seekGoal } from '../lib/goal-seeking';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('seekGoal', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'phone' },
+      { type: 'CreateOrUpdateAccount', accountId: 'phone', capacity: 50 },
+      { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'bills', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 20 },
+      // The weekly income, if time is in weeks
+      { type: 'ScheduleRecurring', scheduleId: 'salary', start: 1, period: 1, action: { type: 'InjectMoney', accountId: 'income', amount: 0 } },
+    ]
+  }];
+
+  it('Injection amount', () => {
+    const result = seekGoal(actions, { type: 'FullBy', accountId: 'phone', deadline: 0 }, { actionGroupIndex: 0, actionIndex: 4 });
+    assert.equal(result.type, 'Solved');
+    if (result.type === 'Solved') {
+      // Enough to fill the income buffer and then the phone, straight away
+      assert.closeTo(result.value, 60, 1e-6);
+      assert.isAtLeast(result.value, 60);
+      assert.deepEqual(result.actions[0].actions[4], { type: 'InjectMoney', accountId: 'income', amount: result.value });
+    }
+  });
+
+  it('Recurring amount', () => {
+    const result = seekGoal(actions, { type: 'FullBy', accountId: 'phone', deadline: 10 }, { actionGroupIndex: 0, actionIndex: 5 });
+    assert.equal(result.type, 'Solved');
+    if (result.type === 'Solved') {
+      // The initial 20 and 10 weekly injections of X, less 10 weeks of bills,
+      // must fill both accounts: 20 + 10X - 10 = 60
+      assert.closeTo(result.value, 5, 1e-6);
+    }
+  });
+
+  it('Drain rate', () => {
+    const drainInto: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'phone', capacity: 50 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'phone', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'income', amount: 100 },
+      ]
+    }];
+    const result = seekGoal(drainInto, { type: 'FullBy', accountId: 'phone', deadline: 10 }, { actionGroupIndex: 0, actionIndex: 2 });
+    assert.equal(result.type, 'Solved');
+    if (result.type === 'Solved') {
+      assert.closeTo(result.value, 5, 1e-6);
+    }
+  });
+
+  it('Never runs out', () => {
+    // Without a salary, the 10 left in the income account (after the rest
+    // overflows) pays the bills until week 10
+    const result = seekGoal(
+      actions,
+      { type: 'NeverRunsOutBefore', accountId: 'income', deadline: 40 },
+      { actionGroupIndex: 0, actionIndex: 5 },
+      { tolerance: 1e-9 });
+    assert.equal(result.type, 'Solved');
+    if (result.type === 'Solved') {
+      // The balance at week 40 (just before the salary) is 10 + 39X - 40
+      assert.closeTo(result.value, 30 / 39, 1e-6);
+    }
+  });
+
+  it('Unsolvable', () => {
+    const withMax = seekGoal(
+      actions,
+      { type: 'FullBy', accountId: 'phone', deadline: 10 },
+      { actionGroupIndex: 0, actionIndex: 5 },
+      { max: 4 });
+    assert.deepEqual(withMax, { type: 'Unsolvable', reason: 'The condition is not met with the maximum value 4', evaluations: 2 });
+
+    // An injection after the deadline can't help
+    const beforeInjection = seekGoal(
+      [...actions, { timestamp: 5, actions: [{ type: 'InjectMoney', accountId: 'bills', amount: 0 }] }],
+      { type: 'FullBy', accountId: 'phone', deadline: 4 },
+      { actionGroupIndex: 1, actionIndex: 0 },
+      { maxEvaluations: 20 });
+    assert.equal(beforeInjection.type, 'Unsolvable');
+
+    assert.throws(() => seekGoal(actions, { type: 'FullBy', accountId: 'phone', deadline: 10 }, { actionGroupIndex: 0, actionIndex: 0 }),
+      /CreateOrUpdateAccount, which has no amount to solve for/);
+  });
+});
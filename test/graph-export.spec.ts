@@ -0,0 +1,89 @@
+import {
+  describeAccountGraph, accountGraphToDot, accountGraphToGraphMl, accountGraphToMermaid
+} from '../lib/graph-export';
+import { calculateStateAtTime } from '../lib/financial-model';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('Graph export', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'salary' },
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+      { type: 'CreateOrUpdateAccount', accountId: 'rent "flat"' },
+      { type: 'UpdateDrain', sourceAccountId: 'salary', targetAccountId: 'income', maxRate: 3 },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'bills', maxRate: 1 },
+      { type: 'UpdateDrain', sourceAccountId: 'bills', targetAccountId: 'rent "flat"', maxRate: 2 },
+      { type: 'InjectMoney', accountId: 'salary', amount: 100 },
+      { type: 'InjectMoney', accountId: 'income', amount: 10 },
+    ]
+  }];
+  const graph = describeAccountGraph(calculateStateAtTime(actions, 1));
+
+  it('Labels nodes and edges with the state at the time', () => {
+    assert.deepEqual(graph, {
+      nodes: [
+        { accountId: 'salary', label: 'salary\n97 / 0', status: 'Normal' },
+        { accountId: 'income', label: 'income\n10 / 10', status: 'Overflowing' },
+        { accountId: 'savings', label: 'savings\n2 / 0', status: 'Normal' },
+        { accountId: 'bills', label: 'bills\n0 / 0', status: 'Starved' },
+        { accountId: 'rent "flat"', label: 'rent "flat"\n1 / 0', status: 'Normal' },
+      ],
+      edges: [
+        { sourceId: 'salary', targetId: 'income', kind: 'Drain', label: '3 / 3', starved: false, blocked: false },
+        { sourceId: 'income', targetId: 'savings', kind: 'Overflow', label: '2', starved: false, blocked: false },
+        { sourceId: 'income', targetId: 'bills', kind: 'Drain', label: '1 / 1', starved: false, blocked: false },
+        { sourceId: 'bills', targetId: 'rent "flat"', kind: 'Drain', label: '1 / 2', starved: true, blocked: false },
+      ]
+    });
+  });
+
+  it('Marks flows into and out of frozen accounts as blocked', () => {
+    const frozen = describeAccountGraph(calculateStateAtTime([...actions, {
+      timestamp: 1,
+      actions: [{ type: 'FreezeAccount', accountId: 'bills' }]
+    }], 2));
+    assert.deepEqual(frozen.nodes.map(node => node.status), ['Normal', 'Overflowing', 'Normal', 'Frozen', 'Normal']);
+    assert.deepEqual(frozen.edges.filter(edge => edge.blocked), [
+      { sourceId: 'income', targetId: 'bills', kind: 'Drain', label: '0 / 1', starved: false, blocked: true },
+      { sourceId: 'bills', targetId: 'rent "flat"', kind: 'Drain', label: '0 / 2', starved: false, blocked: true },
+    ]);
+    assert.include(accountGraphToDot(frozen), '"income" -> "bills" [label="0 / 1", style=dotted, color="#808080"];');
+    assert.include(accountGraphToMermaid(frozen), '  linkStyle 2,3 stroke:#808080,stroke-dasharray:2\n');
+  });
+
+  it('Marks drains waiting for the overflow as blocked', () => {
+    const overflowFirst = describeAccountGraph(calculateStateAtTime([...actions, {
+      timestamp: 1,
+      actions: [{ type: 'CreateOrUpdateAccount', accountId: 'income', inflowPolicy: 'OverflowFirst' }]
+    }], 2));
+    assert.equal(overflowFirst.nodes[1].status, 'Overflowing');
+    assert.deepEqual(overflowFirst.edges.filter(edge => edge.sourceId === 'income'), [
+      { sourceId: 'income', targetId: 'savings', kind: 'Overflow', label: '3', starved: false, blocked: false },
+      { sourceId: 'income', targetId: 'bills', kind: 'Drain', label: '0 / 1', starved: false, blocked: true },
+    ]);
+  });
+
+  it('DOT', () => {
+    const dot = accountGraphToDot(graph);
+    assert.include(dot, '"income" [label="income\\n10 / 10", fillcolor="#C8F0C8"];');
+    assert.include(dot, '"income" -> "savings" [label="2", style=dashed];');
+    assert.include(dot, '"bills" -> "rent \\"flat\\"" [label="1 / 2", color="#C00000"];');
+  });
+
+  it('GraphML', () => {
+    const graphMl = accountGraphToGraphMl(graph);
+    assert.include(graphMl, '<node id="rent &quot;flat&quot;"><data key="label">rent &quot;flat&quot;\n1 / 0</data><data key="status">Normal</data></node>');
+    assert.include(graphMl, '<edge id="e3" source="bills" target="rent &quot;flat&quot;"><data key="label">1 / 2</data><data key="kind">Drain</data><data key="starved">true</data><data key="blocked">false</data></edge>');
+  });
+
+  it('Mermaid', () => {
+    const mermaid = accountGraphToMermaid(graph);
+    assert.include(mermaid, '  n3["bills<br/>0 / 0"]:::Starved\n');
+    assert.include(mermaid, '  n1 -.->|"2"| n2\n');
+    assert.include(mermaid, '  n3 -->|"1 / 2"| n4\n  linkStyle 3 stroke:#C00000\n');
+  });
+});
@@ -0,0 +1,100 @@
+import { assert } from 'chai';
+import { iterateEvents } from '../lib/history-events';
+import { computeFinancialHistory } from '../lib/financial-model';
+import { UserActionGroup } from '../lib/user-actions';
+import { never } from '../lib/utils';
+
+describe('History events', () => {
+  // The salary pays into a gate, which fills and overflows into savings until
+  // the salary runs out, and then runs dry until the next salary payment
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'spending' },
+      { type: 'CreateOrUpdateAccount', accountId: 'gate', capacity: 5, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'salary' },
+      { type: 'UpdateDrain', sourceAccountId: 'salary', targetAccountId: 'gate', maxRate: 2 },
+      { type: 'UpdateDrain', sourceAccountId: 'gate', targetAccountId: 'spending', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'salary', amount: 20 },
+      { type: 'ScheduleRecurring', scheduleId: 'pay', start: 20, period: 100, count: 1, action: { type: 'InjectMoney', accountId: 'salary', amount: 4 } },
+    ]
+  }];
+  const history = computeFinancialHistory(actions);
+
+  it('Events with causes', () => {
+    const events = [...iterateEvents(history, 5, 21)].map(event => [event.timestamp, event.type,
+      'accountId' in event ? event.accountId : undefined,
+      'targetId' in event ? event.targetId : undefined,
+      event.actionGroup !== undefined]);
+    assert.deepEqual(events, [
+      [5, 'AccountFilled', 'gate', undefined, false],
+      [5, 'OverflowStarted', 'gate', 'savings', false],
+      [10, 'OverflowStopped', 'gate', 'savings', false],
+      [10, 'AccountEmptied', 'salary', undefined, false],
+      [10, 'DrainStarved', 'salary', 'gate', false],
+      [15, 'AccountEmptied', 'gate', undefined, false],
+      [15, 'DrainStarved', 'gate', 'spending', false],
+      [20, 'ActionApplied', undefined, undefined, true],
+      [20, 'DrainRestored', 'gate', 'spending', true],
+      [20, 'DrainRestored', 'salary', 'gate', true],
+    ]);
+  });
+
+  it('Drains waiting for the overflow are not starved', () => {
+    const overflowFirst = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        ...actions[0].actions.slice(0, 7),
+        { type: 'CreateOrUpdateAccount', accountId: 'gate', inflowPolicy: 'OverflowFirst' },
+        { type: 'InjectMoney', accountId: 'gate', amount: 5 },
+      ]
+    }]);
+    const events = [...iterateEvents(overflowFirst, 0)].map(event => [event.timestamp, event.type,
+      'accountId' in event ? event.accountId : undefined,
+      'targetId' in event ? event.targetId : undefined]);
+    assert.deepEqual(events, [
+      [0, 'ActionApplied', undefined, undefined],
+      [0, 'OverflowStarted', 'gate', 'savings'],
+      // The gate pays the spending from its balance once the salary runs out
+      [10, 'OverflowStopped', 'gate', 'savings'],
+      [10, 'AccountEmptied', 'salary', undefined],
+      [10, 'DrainStarved', 'salary', 'gate'],
+      [15, 'AccountEmptied', 'gate', undefined],
+      [15, 'DrainStarved', 'gate', 'spending'],
+    ]);
+  });
+
+  it('Nonlinearities at the same time as an action group', () => {
+    // The source runs dry at exactly the time of the injection, and has its
+    // own snapshot just before the injection's
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'source' },
+        { type: 'CreateOrUpdateAccount', accountId: 'target' },
+        { type: 'UpdateDrain', sourceAccountId: 'source', targetAccountId: 'target', maxRate: 2 },
+        { type: 'InjectMoney', accountId: 'source', amount: 8 },
+      ]
+    }, {
+      timestamp: 4,
+      actions: [{ type: 'InjectMoney', accountId: 'target', amount: 1 }]
+    }]);
+    assert.deepEqual([...iterateEvents(history, 4)].map(event => event.type), ['AccountEmptied', 'DrainStarved', 'ActionApplied']);
+    assert.deepEqual(history.map(snapshot => snapshot.timestamp).toArray(), [0, 4, 4]);
+    const last = history.get(history.size - 1, never);
+    assert.equal(last.accounts.get('source', never).fillLevel, 0);
+    assert.equal(last.accounts.get('source', never).fillRate, 0);
+    assert.equal(last.accounts.get('target', never).fillRate, 0);
+  });
+
+  it('Scheduled actions', () => {
+    const [applied] = iterateEvents(history, 20);
+    assert.deepEqual(applied, {
+      type: 'ActionApplied',
+      timestamp: 20,
+      actionGroup: { timestamp: 20, actions: [{ type: 'InjectMoney', accountId: 'salary', amount: 4 }] },
+      scheduleId: 'pay'
+    });
+  });
+});
@@ -1,7 +1,13 @@
-import { computeFinancialHistory, FinancialHistory, HistorySnapshot, AccountState, noAccounts } from '../lib/financial-model';
+import {
+  computeFinancialHistory, validateActions, calculateSnapshotAtTime, FinancialHistory, HistorySnapshot, AccountState,
+  noAccounts, DiscreteFlow
+} from '../lib/financial-model';
 import { assert } from 'chai';
-import { UserActionGroup } from '../lib/user-actions';
-import { never } from '../lib/utils';
+import { UserActionGroup, UserAction, UpdateDrain, CreateOrUpdateAccount, Transfer, DrainRateStep, InflowPolicy } from '../lib/user-actions';
+import { IceTrayValidationError } from '../lib/validation';
+import { getClosedAccountViewsFromHistory } from '../lib/account-state';
+import { HistoryEvent } from '../lib/history-events';
+import { never, unexpected } from '../lib/utils';
 import * as i from 'immutable';
 
 describe('computeFinancialHistory', () => {
@@ -9,6 +15,12 @@ describe('computeFinancialHistory', () => {
   let accounts = noAccounts;
   let expected = FinancialHistory();
 
+  // The events for a snapshot caused by the last action group
+  const applied = (...events: HistoryEvent[]) => {
+    const actionGroup = actions[actions.length - 1];
+    return i.List<HistoryEvent>([{ type: 'ActionApplied', timestamp: actionGroup.timestamp, actionGroup }, ...events]);
+  };
+
   it('No actions', () => {
     const history = computeFinancialHistory(actions);
     assert.equal(history.size, 0);
@@ -31,7 +43,7 @@ describe('computeFinancialHistory', () => {
       fillLevel: 0,
       fillRate: 0
     }));
-    expected = expected.push(HistorySnapshot({ timestamp: 10, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 10, accounts, events: applied() }));
     assert.deepEqual(history.toJS(), expected.toJS());
   });
 
@@ -46,7 +58,7 @@ describe('computeFinancialHistory', () => {
     })
     const history = computeFinancialHistory(actions);
     accounts = accounts.set('a', accounts.get('a', never).set('fillLevel', 6));
-    expected = expected.push(HistorySnapshot({ timestamp: 15, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 15, accounts, events: applied() }));
     assert.deepEqual(history.toJS(), expected.toJS());
   });
 
@@ -61,7 +73,11 @@ describe('computeFinancialHistory', () => {
     })
     const history = computeFinancialHistory(actions);
     accounts = accounts.set('a', accounts.get('a', never).set('fillLevel', 15));
-    expected = expected.push(HistorySnapshot({ timestamp: 20, accounts }));
+    expected = expected.push(HistorySnapshot({
+      timestamp: 20,
+      accounts,
+      events: applied({ type: 'AccountFilled', timestamp: 20, accountId: 'a', actionGroup: actions[actions.length - 1] })
+    }));
     assert.deepEqual(history.toJS(), expected.toJS());
   });
 
@@ -83,7 +99,7 @@ describe('computeFinancialHistory', () => {
         .set('fillLevel', 12)
         .set('overflowTargetId', 'b'))
       .set('b', AccountState({ accountId: 'b', fillLevel: 3 }));
-    expected = expected.push(HistorySnapshot({ timestamp: 22, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 22, accounts, events: applied() }));
     assert.deepEqual(history.toJS(), expected.toJS());
   });
 
@@ -98,7 +114,7 @@ describe('computeFinancialHistory', () => {
     })
     const history = computeFinancialHistory(actions);
     accounts = accounts.set('b', AccountState({ accountId: 'b', fillLevel: 103 }));
-    expected = expected.push(HistorySnapshot({ timestamp: 25, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 25, accounts, events: applied() }));
     assert.deepEqual(history.toJS(), expected.toJS());
   });
 
@@ -129,7 +145,7 @@ describe('computeFinancialHistory', () => {
         fillRate: 3,
         drainInflows: i.Map({ 'a': 3 })
       }));
-    expected = expected.push(HistorySnapshot({ timestamp: 30, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 30, accounts, events: applied() }));
 
     // End of drain after 4 time units
     accounts = accounts
@@ -139,7 +155,14 @@ describe('computeFinancialHistory', () => {
       .setIn(['c', 'fillLevel'], 12)
       .setIn(['c', 'fillRate'], 0)
       .setIn(['c', 'drainInflows', 'a'], 0)
-    expected = expected.push(HistorySnapshot({ timestamp: 34, accounts }));
+    expected = expected.push(HistorySnapshot({
+      timestamp: 34,
+      accounts,
+      events: i.List<HistoryEvent>([
+        { type: 'AccountEmptied', timestamp: 34, accountId: 'a' },
+        { type: 'DrainStarved', timestamp: 34, accountId: 'a', targetId: 'c' },
+      ])
+    }));
 
     const history = computeFinancialHistory(actions);
     assert.deepEqual(history.toJS(), expected.toJS());
@@ -166,7 +189,7 @@ describe('computeFinancialHistory', () => {
       .setIn(['c', 'drainInflows', 'a'], 0)
 
     // Replace the last state, since it no longer represents the emptying
-    expected = expected.set(expected.size - 1, HistorySnapshot({ timestamp: 33, accounts }));
+    expected = expected.set(expected.size - 1, HistorySnapshot({ timestamp: 33, accounts, events: applied() }));
 
     const history = computeFinancialHistory(actions);
     assert.deepEqual(history.toJS(), expected.toJS());
@@ -189,9 +212,779 @@ describe('computeFinancialHistory', () => {
       .deleteIn(['c', 'drainInflows', 'a'])
 
     // Replace the last state, since it no longer represents the emptying
-    expected = expected.push(HistorySnapshot({ timestamp: 38, accounts }));
+    expected = expected.push(HistorySnapshot({ timestamp: 38, accounts, events: applied() }));
 
     const history = computeFinancialHistory(actions);
     assert.deepEqual(history.toJS(), expected.toJS());
   });
+
+  it('Deleting an account stops its flows into other accounts', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'source', capacity: 5, overflowTargetId: 'spare' },
+        { type: 'CreateOrUpdateAccount', accountId: 'target' },
+        { type: 'CreateOrUpdateAccount', accountId: 'spare' },
+        { type: 'UpdateDrain', sourceAccountId: 'source', targetAccountId: 'target', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'source', amount: 10 },
+      ]
+    }, {
+      timestamp: 2,
+      actions: [{ type: 'DeleteAccount', accountId: 'source' }]
+    }]);
+    const deleted = history.get(1, never);
+    assert.deepEqual(history.get(0, never).accounts.map(account => account.fillRate).toJS(), { source: -1, target: 1, spare: 0 });
+    assert.isFalse(deleted.accounts.has('source'));
+    assert.equal(deleted.accounts.get('target', never).fillRate, 0);
+    assert.equal(deleted.accounts.get('spare', never).fillRate, 0);
+  });
+});
+
+describe('Drain allocation', () => {
+  // A budget account with no balance, fed at 10 per unit time by a salary
+  // account, which can't cover both the rent and the gym membership
+  function budgetActions(
+    rent: Partial<UpdateDrain>,
+    gym: Partial<UpdateDrain>,
+    budget: Partial<CreateOrUpdateAccount> = {}
+  ): UserActionGroup[] {
+    return [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'rent', capacity: 1000 },
+        { type: 'CreateOrUpdateAccount', accountId: 'gym', capacity: 1000 },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: 1000 },
+        { type: 'CreateOrUpdateAccount', accountId: 'budget', capacity: 0, ...budget },
+        { type: 'CreateOrUpdateAccount', accountId: 'salary', capacity: 1000 },
+        { type: 'InjectMoney', accountId: 'salary', amount: 1000 },
+        { type: 'UpdateDrain', sourceAccountId: 'salary', targetAccountId: 'budget', maxRate: 10 },
+        { type: 'UpdateDrain', sourceAccountId: 'budget', targetAccountId: 'rent', maxRate: 8, ...rent },
+        { type: 'UpdateDrain', sourceAccountId: 'budget', targetAccountId: 'gym', maxRate: 5, ...gym },
+      ]
+    }];
+  }
+
+  function drainRates(actions: UserActionGroup[]) {
+    const history = computeFinancialHistory(actions);
+    const snapshot = history.get(0, never);
+    return {
+      rent: snapshot.accounts.get('rent', never).fillRate,
+      gym: snapshot.accounts.get('gym', never).fillRate,
+      savings: snapshot.accounts.get('savings', never).fillRate,
+      budget: snapshot.accounts.get('budget', never).fillRate,
+    };
+  }
+
+  it('Divides inflow proportionately by default', () => {
+    const rates = drainRates(budgetActions({}, {}));
+    assert.closeTo(rates.rent, 80 / 13, 1e-9);
+    assert.closeTo(rates.gym, 50 / 13, 1e-9);
+    assert.equal(rates.budget, 0);
+  });
+
+  it('Serves lower priority numbers first', () => {
+    const rates = drainRates(budgetActions({ priority: 0 }, { priority: 1 }));
+    assert.deepEqual(rates, { rent: 8, gym: 2, savings: 0, budget: 0 });
+  });
+
+  it('Serves a lower priority in part when a higher one is satisfied', () => {
+    const rates = drainRates(budgetActions({ priority: 1 }, { priority: 0 }));
+    assert.deepEqual(rates, { rent: 5, gym: 5, savings: 0, budget: 0 });
+  });
+
+  it('Shares by weight, capped at the max rate', () => {
+    // Shares by weight would be 2.5 and 7.5, but the gym can only take 5
+    const rates = drainRates(budgetActions({ weight: 1 }, { weight: 3 }));
+    assert.deepEqual(rates, { rent: 5, gym: 5, savings: 0, budget: 0 });
+
+    const uncapped = drainRates(budgetActions({ weight: 3 }, { weight: 1 }));
+    assert.deepEqual(uncapped, { rent: 7.5, gym: 2.5, savings: 0, budget: 0 });
+  });
+
+  it('Serves drains before overflow by default', () => {
+    const rates = drainRates(budgetActions({ maxRate: 4 }, { maxRate: 4 }, { overflowTargetId: 'savings' }));
+    assert.deepEqual(rates, { rent: 4, gym: 4, savings: 2, budget: 0 });
+  });
+
+  it('Serves overflow before drains with the OverflowFirst policy', () => {
+    const rates = drainRates(budgetActions({}, {}, { overflowTargetId: 'savings', inflowPolicy: 'OverflowFirst' }));
+    assert.deepEqual(rates, { rent: 0, gym: 0, savings: 10, budget: 0 });
+  });
+
+  it('Applies the inflow policy to a full account with a balance', () => {
+    const fullBudget = (inflowPolicy: InflowPolicy) => {
+      const actions = budgetActions({ maxRate: 4 }, { maxRate: 4 },
+        { capacity: 50, overflowTargetId: 'savings', inflowPolicy });
+      actions[0].actions.push({ type: 'InjectMoney', accountId: 'budget', amount: 50 });
+      return actions;
+    };
+    assert.deepEqual(drainRates(fullBudget('DrainsFirst')), { rent: 4, gym: 4, savings: 2, budget: 0 });
+    assert.deepEqual(drainRates(fullBudget('OverflowFirst')), { rent: 0, gym: 0, savings: 10, budget: 0 });
+
+    // The drains run once the account is no longer full, until it fills again,
+    // and once the salary runs out at 100 they run until the budget is empty
+    const actions = fullBudget('OverflowFirst');
+    actions.push({ timestamp: 1, actions: [{ type: 'Withdraw', accountId: 'budget', amount: 20 }] });
+    const history = computeFinancialHistory(actions);
+    assert.deepEqual(history.map(snapshot => snapshot.timestamp).toArray(), [0, 1, 11, 100, 106.25]);
+    const withdrawn = history.get(1, never).accounts.get('budget', never);
+    assert.equal(withdrawn.fillRate, 2);
+    assert.deepEqual(withdrawn.drainEffectiveRates.toJS(), { rent: 4, gym: 4 });
+    const refilled = history.get(2, never).accounts.get('budget', never);
+    assert.equal(refilled.fillLevel, 50);
+    assert.equal(refilled.overflowRate, 10);
+    assert.deepEqual(refilled.drainEffectiveRates.toJS(), { rent: 0, gym: 0 });
+  });
+
+  it('Drains a full account with the inflow policy and no inflow', () => {
+    const actions = budgetActions({ maxRate: 4 }, { maxRate: 4 },
+      { capacity: 50, overflowTargetId: 'savings', inflowPolicy: 'OverflowFirst' });
+    actions[0].actions.push(
+      { type: 'DeleteDrain', sourceAccountId: 'salary', targetAccountId: 'budget' },
+      { type: 'InjectMoney', accountId: 'budget', amount: 50 },
+    );
+    assert.deepEqual(drainRates(actions), { rent: 4, gym: 4, savings: 0, budget: -8 });
+  });
+
+  it('Clears the policy when the drain is deleted', () => {
+    const actions = budgetActions({ priority: 1, weight: 2 }, {});
+    actions.push({
+      timestamp: 1,
+      actions: [{ type: 'DeleteDrain', sourceAccountId: 'budget', targetAccountId: 'rent' }]
+    });
+    const history = computeFinancialHistory(actions);
+    const budget = history.get(1, never).accounts.get('budget', never);
+    assert.isFalse(budget.drainPriorities.has('rent'));
+    assert.isFalse(budget.drainWeights.has('rent'));
+  });
+});
+
+describe('Withdrawals and transfers', () => {
+  // Income overflows into savings, which has a balance of 5
+  const setup: UserActionGroup = {
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'InjectMoney', accountId: 'income', amount: 15 },
+    ]
+  };
+
+  function balancesAfter(action: UserAction) {
+    const flows: DiscreteFlow[] = [];
+    const history = computeFinancialHistory([setup, { timestamp: 1, actions: [action] }], {
+      onDiscreteFlow: flow => flow.timestamp === 1 && flows.push(flow)
+    });
+    const accounts = history.get(1, never).accounts;
+    return {
+      balances: accounts.map(account => account.fillLevel).toObject(),
+      flows: flows.map(({ kind, sourceId, targetId, amount }) => ({ kind, sourceId, targetId, amount }))
+    };
+  }
+
+  it('Withdraw', () => {
+    assert.deepEqual(balancesAfter({ type: 'Withdraw', accountId: 'savings', amount: 3 }), {
+      balances: { savings: 2, expenses: 0, income: 10 },
+      flows: [{ kind: 'Withdrawal', sourceId: 'savings', targetId: undefined, amount: 3 }]
+    });
+  });
+
+  it('Transfer', () => {
+    assert.deepEqual(balancesAfter({ type: 'Transfer', sourceAccountId: 'income', targetAccountId: 'expenses', amount: 4 }), {
+      balances: { savings: 5, expenses: 4, income: 6 },
+      flows: [{ kind: 'Transfer', sourceId: 'income', targetId: 'expenses', amount: 4 }]
+    });
+  });
+
+  it('Rejects the whole group on a shortfall by default', () => {
+    const actions: UserActionGroup[] = [setup, {
+      timestamp: 1,
+      actions: [
+        { type: 'Transfer', sourceAccountId: 'income', targetAccountId: 'expenses', amount: 4 },
+        { type: 'Withdraw', accountId: 'savings', amount: 8 },
+      ]
+    }, {
+      // Only possible because the previous group was rejected
+      timestamp: 2,
+      actions: [{ type: 'Withdraw', accountId: 'savings', amount: 5 }]
+    }];
+    assert.throws(() => computeFinancialHistory(actions), IceTrayValidationError, /action group 1/);
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [[1, 'Overdraw']]);
+  });
+
+  it('Allows a shortfall that is covered later in the same group', () => {
+    assert.deepEqual(validateActions([setup, {
+      timestamp: 1,
+      actions: [
+        { type: 'Withdraw', accountId: 'savings', amount: 8 },
+        { type: 'Transfer', sourceAccountId: 'income', targetAccountId: 'savings', amount: 3 },
+      ]
+    }]), []);
+  });
+
+  it('Clamps to the balance', () => {
+    assert.deepEqual(balancesAfter({ type: 'Withdraw', accountId: 'savings', amount: 8, shortfall: 'Clamp' }), {
+      balances: { savings: 0, expenses: 0, income: 10 },
+      flows: [{ kind: 'Withdrawal', sourceId: 'savings', targetId: undefined, amount: 5 }]
+    });
+  });
+
+  it('Pulls the shortfall from overflow sources', () => {
+    const action: Transfer = {
+      type: 'Transfer',
+      sourceAccountId: 'savings',
+      targetAccountId: 'expenses',
+      amount: 8,
+      shortfall: 'PullFromOverflowSources'
+    };
+    assert.deepEqual(balancesAfter(action), {
+      balances: { savings: 0, expenses: 8, income: 7 },
+      flows: [
+        { kind: 'Transfer', sourceId: 'savings', targetId: 'expenses', amount: 5 },
+        { kind: 'Transfer', sourceId: 'income', targetId: 'expenses', amount: 3 },
+      ]
+    });
+
+    assert.throws(() => balancesAfter({ ...action, amount: 20 }), IceTrayValidationError, /overdrawn by 5/);
+  });
+});
+
+describe('Drain rate schedules', () => {
+  const setup = (rateSchedule: DrainRateStep[], timestamp = 0): UserActionGroup => ({
+    timestamp,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+      { type: 'CreateOrUpdateAccount', accountId: 'power' },
+      { type: 'InjectMoney', accountId: 'bills', amount: 100 },
+      { type: 'UpdateDrain', sourceAccountId: 'bills', targetAccountId: 'power', maxRate: 1, rateSchedule },
+    ]
+  });
+
+  const summarize = (history: FinancialHistory) => history.map(snapshot => {
+    const bills = snapshot.accounts.get('bills', never);
+    return [snapshot.timestamp, bills.fillLevel, bills.drainSizes.get('power')];
+  }).toJS();
+
+  it('Rate steps are nonlinearities', () => {
+    const history = computeFinancialHistory([setup([{ from: 10, maxRate: 2 }, { from: 20, maxRate: 0.5 }])]);
+    assert.deepEqual(summarize(history), [
+      [0, 100, 1],
+      [10, 90, 2],
+      [20, 70, 0.5],
+      [160, 0, 0.5],
+    ]);
+    assert.equal(history.get(3, never).accounts.get('bills', never).drainRateSchedules.size, 0);
+  });
+
+  it('Steps that have already started take effect immediately', () => {
+    const history = computeFinancialHistory([setup([{ from: 10, maxRate: 2 }, { from: 20, maxRate: 0.5 }], 15)]);
+    assert.deepEqual(summarize(history), [
+      [15, 100, 2],
+      [20, 90, 0.5],
+      [200, 0, 0.5],
+    ]);
+  });
+
+  it('Updating the drain replaces the schedule', () => {
+    const history = computeFinancialHistory([setup([{ from: 10, maxRate: 2 }]), {
+      timestamp: 5,
+      actions: [{ type: 'UpdateDrain', sourceAccountId: 'bills', targetAccountId: 'power', maxRate: 4 }]
+    }]);
+    assert.deepEqual(summarize(history), [
+      [0, 100, 1],
+      [5, 95, 4],
+      [28.75, 0, 4],
+    ]);
+  });
+
+  it('Schedules must be in order', () => {
+    const diagnostics = validateActions([setup([{ from: 10, maxRate: 2 }, { from: 10, maxRate: 3 }])]);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['InvalidSchedule']);
+  });
+});
+
+describe('Interest and balance-fraction drains', () => {
+  const levelAt = (history: FinancialHistory, accountId: string, time: number) => {
+    const state = calculateSnapshotAtTime(history, time);
+    return state ? state.accounts.get(accountId, never).fillLevel : NaN;
+  };
+  const snapshotTimes = (history: FinancialHistory) => history.map(snapshot => snapshot.timestamp).toArray();
+
+  it('Interest grows the balance exponentially', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        // Doubles every 10 units of time
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: 1000, interestRate: Math.log(2) / 10 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+      ]
+    }]);
+    assert.closeTo(levelAt(history, 'savings', 10), 200, 1e-9);
+    assert.closeTo(levelAt(history, 'savings', 25), 100 * Math.pow(2, 2.5), 1e-9);
+    // Reaching capacity is solved in closed form
+    assert.equal(history.size, 2);
+    assert.closeTo(history.get(1, never).timestamp, 10 * Math.log2(10), 1e-9);
+  });
+
+  it('Overflows linearly once full', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'spare' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: 200, overflowTargetId: 'spare', interestRate: Math.log(2) / 10 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+      ]
+    }]);
+    assert.deepEqual(snapshotTimes(history).map(time => Math.round(time * 1e9) / 1e9), [0, 10]);
+    const savings = history.get(1, never).accounts.get('savings', never);
+    assert.equal(savings.fillLevel, 200);
+    assert.isUndefined(savings.growthRate);
+    assert.closeTo(savings.overflowRate, 200 * Math.log(2) / 10, 1e-12);
+    assert.closeTo(levelAt(history, 'spare', 20), 200 * Math.log(2), 1e-9);
+  });
+
+  it('Fixed drains can empty an account that earns interest', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', interestRate: 0.1 },
+        { type: 'CreateOrUpdateAccount', accountId: 'rent' },
+        { type: 'UpdateDrain', sourceAccountId: 'savings', targetAccountId: 'rent', maxRate: 20 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+      ]
+    }]);
+    // 100 + (10 - 20) * (e^(0.1 t) - 1) / 0.1 = 0
+    assert.closeTo(history.get(1, never).timestamp, 10 * Math.log(2), 1e-9);
+    assert.equal(history.get(1, never).accounts.get('savings', never).fillLevel, 0);
+    assert.closeTo(history.get(1, never).accounts.get('rent', never).fillLevel, 200 * Math.log(2), 1e-9);
+  });
+
+  it('Balance-fraction drains', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'windfall' },
+        { type: 'CreateOrUpdateAccount', accountId: 'holiday', capacity: 50 },
+        { type: 'UpdateDrain', sourceAccountId: 'windfall', targetAccountId: 'holiday', maxRate: 0, balanceFraction: 0.1 },
+        { type: 'InjectMoney', accountId: 'windfall', amount: 100 },
+      ]
+    }]);
+    assert.closeTo(levelAt(history, 'windfall', 5), 100 * Math.exp(-0.5), 1e-9);
+    assert.closeTo(levelAt(history, 'holiday', 5), 100 * -Math.expm1(-0.5), 1e-9);
+    // The target of a curved inflow is solved numerically
+    assert.equal(history.size, 2);
+    assert.closeTo(history.get(1, never).timestamp, 10 * Math.log(2), 1e-9);
+    assert.equal(history.get(1, never).accounts.get('holiday', never).fillLevel, 50);
+    const state = calculateSnapshotAtTime(history, 20) || unexpected();
+    assert.closeTo(state.accounts.get('windfall', never).drainEffectiveRates.get('holiday', never), 10 * Math.exp(-2), 1e-9);
+    assert.closeTo(state.accounts.get('holiday', never).fillRate, 10 * Math.exp(-2), 1e-9);
+  });
+
+  it('Accounts without interest stay linear', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', interestRate: 0.1 },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'a', amount: 5 },
+      ]
+    }]);
+    const b = history.get(0, never).accounts.get('b', never);
+    assert.isUndefined(b.growthRate);
+    assert.isDefined(history.get(0, never).accounts.get('a', never).growthRate);
+    assert.equal(levelAt(history, 'b', 3), 3);
+  });
+});
+
+describe('Currencies', () => {
+  const setup: UserActionGroup = {
+    timestamp: 0,
+    actions: [
+      { type: 'SetConversionRate', fromCurrency: 'AUD', toCurrency: 'USD', rate: 0.5 },
+      { type: 'CreateOrUpdateAccount', accountId: 'aud', currency: 'AUD' },
+      { type: 'CreateOrUpdateAccount', accountId: 'usd', currency: 'USD' },
+      { type: 'UpdateDrain', sourceAccountId: 'usd', targetAccountId: 'aud', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'usd', amount: 100 },
+    ]
+  };
+  const account = (history: FinancialHistory, index: number, accountId: string) =>
+    history.get(index, never).accounts.get(accountId, never);
+
+  it('Converts flows between currencies', () => {
+    // Only the opposite direction has a rate, so its inverse is used
+    const history = computeFinancialHistory([setup]);
+    assert.equal(account(history, 0, 'usd').drainEffectiveRates.get('aud'), 1);
+    assert.equal(account(history, 0, 'aud').fillRate, 2);
+    assert.equal(account(history, 1, 'aud').fillLevel, 200);
+  });
+
+  it('Changing the rate converts flows at the new rate', () => {
+    const history = computeFinancialHistory([setup, {
+      timestamp: 10,
+      actions: [{ type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: 1.5 }]
+    }]);
+    assert.equal(account(history, 1, 'aud').fillRate, 1.5);
+    assert.equal(account(history, 2, 'aud').fillLevel, 20 + 90 * 1.5);
+  });
+
+  it('Converts transfers and once-off overflows', () => {
+    const flows: DiscreteFlow[] = [];
+    const history = computeFinancialHistory([setup, {
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'aud', capacity: 25, overflowTargetId: 'spare' },
+        { type: 'CreateOrUpdateAccount', accountId: 'spare', currency: 'USD' },
+        { type: 'Transfer', sourceAccountId: 'usd', targetAccountId: 'aud', amount: 10 },
+      ]
+    }], { onDiscreteFlow: flow => flow.timestamp === 10 && flows.push(flow) });
+    assert.deepEqual(flows, [
+      { timestamp: 10, kind: 'Transfer', sourceId: 'usd', targetId: 'aud', amount: 10, targetAmount: 20 },
+      { timestamp: 10, kind: 'Overflow', sourceId: 'aud', targetId: 'spare', amount: 15, targetAmount: 7.5 },
+    ]);
+    assert.equal(account(history, 1, 'spare').fillLevel, 7.5);
+    // The continuous overflow is converted too
+    assert.equal(account(history, 1, 'spare').fillRate, 1);
+  });
+
+  it('Flows between currencies need a rate', () => {
+    const diagnostics = validateActions([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'aud', currency: 'AUD' },
+        { type: 'CreateOrUpdateAccount', accountId: 'usd', currency: 'USD', overflowTargetId: 'aud' },
+        { type: 'UpdateDrain', sourceAccountId: 'usd', targetAccountId: 'aud', maxRate: 1 },
+        { type: 'SetConversionRate', fromCurrency: 'AUD', toCurrency: 'AUD', rate: 1 },
+      ]
+    }, {
+      timestamp: 10,
+      actions: [{ type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: 1.5 }]
+    }, {
+      timestamp: 20,
+      actions: [{ type: 'CreateOrUpdateAccount', accountId: 'aud', currency: 'EUR' }]
+    }]);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [
+      [0, 'InvalidConversionRate'],
+      [0, 'MissingConversionRate'],
+      [2, 'MissingConversionRate'],
+    ]);
+  });
+});
+
+
+describe('Capacity ramps and switching when full', () => {
+  const summarize = (history: FinancialHistory, accountId: string, otherAccountId: string) => history.map(snapshot => {
+    const account = snapshot.accounts.get(accountId, never);
+    const other = snapshot.accounts.get(otherAccountId, never);
+    return [snapshot.timestamp, account.fillLevel, account.capacity, account.fillRate, other.fillLevel];
+  }).toJS();
+
+  it('Catches a ramping capacity mid-segment and keeps up with it', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        // A sinking fund whose target grows by 1 per unit of time
+        { type: 'CreateOrUpdateAccount', accountId: 'fund', capacity: 10, overflowTargetId: 'savings', capacityRamp: { rate: 1, until: 40 } },
+        { type: 'InjectMoney', accountId: 'income', amount: 100 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'fund', maxRate: 2 },
+      ]
+    }]);
+    assert.deepEqual(summarize(history, 'fund', 'savings'), [
+      [0, 0, 10, 2, 0],
+      // Full, and overflowing what it doesn't need to keep up
+      [10, 20, 20, 1, 0],
+      // The end of the ramp
+      [40, 50, 50, 0, 30],
+      // Income runs out
+      [50, 50, 50, 0, 50],
+    ]);
+    assert.deepEqual(history.get(1, never).events.map(event => event.type).toArray(), ['AccountFilled', 'OverflowStarted']);
+    const midway = (calculateSnapshotAtTime(history, 25, {}) || never).accounts.get('fund', never);
+    assert.equal(midway.fillLevel, 35);
+    assert.equal(midway.capacity, 35);
+  });
+
+  it('A falling capacity reaches the balance and pushes out the rest', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'spare' },
+        { type: 'CreateOrUpdateAccount', accountId: 'allowance', capacity: 50, overflowTargetId: 'spare', capacityRamp: { rate: -2 } },
+        { type: 'InjectMoney', accountId: 'allowance', amount: 20 },
+      ]
+    }]);
+    assert.deepEqual(summarize(history, 'allowance', 'spare'), [
+      [0, 20, 50, 0, 0],
+      [15, 20, 20, -2, 0],
+      // The ramp stops at zero
+      [25, 0, 0, 0, 20],
+    ]);
+    assert.equal(history.get(2, never).accounts.get('allowance', never).capacityRate, 0);
+  });
+
+  it('A falling capacity that meets an empty account leaves it empty', () => {
+    // The capacity is projected over several segments, and the rounding errors
+    // add up to slightly less than zero by the time it reaches the balance
+    const actions: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'allowance', capacity: 10, capacityRamp: { rate: -1 } },
+        { type: 'CreateOrUpdateAccount', accountId: 'spending' },
+        { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+        { type: 'UpdateDrain', sourceAccountId: 'allowance', targetAccountId: 'spending', maxRate: 3 },
+        { type: 'UpdateDrain', sourceAccountId: 'spending', targetAccountId: 'bills', maxRate: 3 },
+        { type: 'InjectMoney', accountId: 'allowance', amount: 1 },
+        { type: 'InjectMoney', accountId: 'spending', amount: 17 },
+      ]
+    }];
+    const history = computeFinancialHistory(actions);
+    assert.deepEqual(summarize(history, 'allowance', 'bills').map(([timestamp]) => timestamp), [0, 1 / 3, 6, 10]);
+    assert.equal(history.get(3, never).accounts.get('allowance', never).fillLevel, 0);
+    assert.deepEqual(validateActions([...actions, {
+      timestamp: 10,
+      actions: [{ type: 'Withdraw', accountId: 'allowance', amount: 0 }]
+    }]), []);
+  });
+
+  it('Switches the overflow and marks the account when it fills', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'holiday' },
+        {
+          type: 'CreateOrUpdateAccount',
+          accountId: 'phone',
+          capacity: 100,
+          overflowTargetId: 'savings',
+          onFull: { overflowTargetId: 'holiday', mark: 'ready to purchase' }
+        },
+        { type: 'InjectMoney', accountId: 'income', amount: 1000 },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'phone', maxRate: 10 },
+        // The excess of a once-off overflow goes to the new target
+        { type: 'CreateOrUpdateAccount', accountId: 'bike', capacity: 100, overflowTargetId: 'savings', onFull: { overflowTargetId: 'holiday' } },
+        { type: 'InjectMoney', accountId: 'bike', amount: 150 },
+      ]
+    }]);
+    const [start, filled] = history.toArray();
+    assert.deepEqual(start.events.filter(event => event.type === 'OnFullApplied').toArray(), [
+      { type: 'OnFullApplied', timestamp: 0, accountId: 'bike', targetId: 'holiday', actionGroup: start.events.get(0, never).actionGroup }
+    ]);
+    assert.equal(start.accounts.get('holiday', never).fillLevel, 50);
+    assert.equal(start.accounts.get('savings', never).fillLevel, 0);
+
+    assert.equal(filled.timestamp, 10);
+    assert.deepEqual(filled.events.toArray(), [
+      { type: 'AccountFilled', timestamp: 10, accountId: 'phone' },
+      { type: 'OnFullApplied', timestamp: 10, accountId: 'phone', targetId: 'holiday', mark: 'ready to purchase' },
+      { type: 'OverflowStarted', timestamp: 10, accountId: 'phone', targetId: 'holiday' },
+    ]);
+    const phone = filled.accounts.get('phone', never);
+    assert.equal(phone.mark, 'ready to purchase');
+    assert.isUndefined(phone.onFull);
+    assert.equal(filled.accounts.get('holiday', never).fillRate, 10);
+    assert.equal(filled.accounts.get('savings', never).fillRate, 0);
+  });
+
+  it('Validates ramps and switch targets', () => {
+    const diagnostics = validateActions([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', capacityRamp: { rate: NaN } },
+        { type: 'CreateOrUpdateAccount', accountId: 'b', interestRate: 0.1, capacityRamp: { rate: 1 } },
+        { type: 'CreateOrUpdateAccount', accountId: 'c', overflowTargetId: 'a', onFull: { overflowTargetId: 'c' } },
+        { type: 'CreateOrUpdateAccount', accountId: 'a', onFull: { overflowTargetId: 'c' } },
+        { type: 'CreateOrUpdateAccount', accountId: 'd', onFull: { overflowTargetId: 'nowhere' } },
+      ]
+    }]);
+    assert.deepEqual(diagnostics.map(d => d.kind), [
+      'InvalidCapacityRamp',
+      'SelfReference',
+      'InvalidCapacityRamp',
+      'OverflowCycle',
+      'DanglingTarget',
+    ]);
+  });
+});
+
+describe('Account lifecycle', () => {
+  const setup: UserActionGroup = {
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'salary' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'phone', capacity: 100, overflowTargetId: 'savings' },
+      { type: 'InjectMoney', accountId: 'salary', amount: 1000 },
+      { type: 'UpdateDrain', sourceAccountId: 'salary', targetAccountId: 'phone', maxRate: 10 },
+    ]
+  };
+  const levels = (snapshot: HistorySnapshot) => snapshot.accounts.map(account => account.fillLevel).toJS();
+  const rates = (snapshot: HistorySnapshot) => snapshot.accounts.map(account => account.fillRate).toJS();
+
+  it('Freezing stops the flows into and out of an account', () => {
+    const history = computeFinancialHistory([setup, {
+      timestamp: 20,
+      actions: [{ type: 'FreezeAccount', accountId: 'phone' }]
+    }, {
+      timestamp: 25,
+      // Injections still apply, but nothing overflows
+      actions: [{ type: 'InjectMoney', accountId: 'phone', amount: 5 }]
+    }, {
+      timestamp: 30,
+      actions: [{ type: 'UnfreezeAccount', accountId: 'phone' }]
+    }]);
+    const snapshot = (timestamp: number) => history.find(snapshot => snapshot.timestamp === timestamp) || never;
+    assert.deepEqual(snapshot(20).events.map(event => event.type).toArray(), ['ActionApplied', 'AccountFrozen', 'OverflowStopped']);
+    assert.deepEqual(levels(snapshot(20)), { salary: 800, savings: 100, phone: 100 });
+    assert.deepEqual(rates(snapshot(20)), { salary: 0, savings: 0, phone: 0 });
+    assert.isTrue(snapshot(20).accounts.get('phone', never).frozen);
+    assert.deepEqual(levels(snapshot(25)), { salary: 800, savings: 100, phone: 105 });
+    assert.deepEqual(levels(snapshot(30)), { salary: 800, savings: 105, phone: 100 });
+    assert.deepEqual(rates(snapshot(30)), { salary: -10, savings: 10, phone: 0 });
+    assert.deepEqual(levels(history.get(history.size - 1, never)), { salary: 0, savings: 905, phone: 100 });
+  });
+
+  it('A frozen overflow target stops a full account following its falling capacity', () => {
+    // The fund drains at the same rate as its capacity falls, but the top-up
+    // takes it over capacity, and it can't overflow
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'spare' },
+        { type: 'CreateOrUpdateAccount', accountId: 'bills' },
+        { type: 'CreateOrUpdateAccount', accountId: 'fund', capacity: 10, overflowTargetId: 'spare', capacityRamp: { rate: -1 } },
+        { type: 'UpdateDrain', sourceAccountId: 'fund', targetAccountId: 'bills', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'fund', amount: 10 },
+        { type: 'FreezeAccount', accountId: 'spare' },
+      ]
+    }, {
+      timestamp: 2,
+      actions: [{ type: 'InjectMoney', accountId: 'fund', amount: 5 }]
+    }]);
+    assert.deepEqual(history.map(snapshot => [snapshot.timestamp, levels(snapshot)]).toJS(), [
+      [0, { spare: 0, bills: 0, fund: 10 }],
+      [2, { spare: 0, bills: 2, fund: 13 }],
+      // The end of the ramp
+      [10, { spare: 0, bills: 10, fund: 5 }],
+      [15, { spare: 0, bills: 15, fund: 0 }],
+    ]);
+  });
+
+  it('Closing an account moves its balance and inflows to the destination', () => {
+    const close: UserActionGroup = {
+      timestamp: 5,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'spare' },
+        { type: 'CloseAccount', accountId: 'phone', destinationAccountId: 'spare' },
+      ]
+    };
+    const history = computeFinancialHistory([setup, close]);
+    const closed = history.get(1, never);
+    assert.isFalse(closed.accounts.has('phone'));
+    assert.deepEqual(levels(closed), { salary: 950, savings: 0, spare: 50 });
+    assert.deepEqual(rates(closed), { salary: -10, savings: 0, spare: 10 });
+    assert.deepEqual(closed.events.get(1), {
+      type: 'AccountClosed', timestamp: 5, accountId: 'phone', destinationId: 'spare', actionGroup: close
+    });
+    // The history before it was closed is unchanged, and its final state is kept
+    assert.equal(history.get(0, never).accounts.get('phone', never).fillLevel, 0);
+    const [phone] = getClosedAccountViewsFromHistory(history, 50);
+    assert.equal(phone.accountId, 'phone');
+    assert.equal(phone.fillLevel, 50);
+    assert.equal(phone.closedAt, 5);
+    assert.equal(phone.destinationAccountId, 'spare');
+  });
+
+  it('Completing a purchase withdraws the capacity and closes the account', () => {
+    const flows: DiscreteFlow[] = [];
+    const purchase: UserActionGroup = {
+      timestamp: 12,
+      actions: [{ type: 'CompletePurchase', accountId: 'phone', destinationAccountId: 'savings' }]
+    };
+    const history = computeFinancialHistory([setup, purchase], { onDiscreteFlow: flow => flows.push(flow) });
+    const purchased = history.find(snapshot => snapshot.timestamp === 12) || never;
+    assert.deepEqual(levels(purchased), { salary: 880, savings: 20 });
+    assert.deepEqual(rates(purchased), { salary: -10, savings: 10 });
+    assert.deepEqual(flows.filter(flow => flow.timestamp === 12), [
+      { timestamp: 12, kind: 'Withdrawal', sourceId: 'phone', amount: 100 },
+    ]);
+    assert.equal(purchased.closedAccounts.get('phone', never).purchaseAmount, 100);
+
+    // Not enough saved yet
+    const diagnostics = validateActions([setup, { ...purchase, timestamp: 5 }]);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['Overdraw']);
+  });
+
+  it('Closing must be able to redirect the inflows', () => {
+    const diagnostics = validateActions([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'c' },
+        { type: 'CreateOrUpdateAccount', accountId: 'd' },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1 },
+        { type: 'UpdateDrain', sourceAccountId: 'c', targetAccountId: 'd', maxRate: 1 },
+        { type: 'UpdateDrain', sourceAccountId: 'd', targetAccountId: 'a', maxRate: 1 },
+      ]
+    }, {
+      timestamp: 1,
+      actions: [{ type: 'CloseAccount', accountId: 'a', destinationAccountId: 'a' }]
+    }, {
+      timestamp: 2,
+      // "a" would drain into "c", which drains into "a" through "d"
+      actions: [{ type: 'CloseAccount', accountId: 'b', destinationAccountId: 'c' }]
+    }, {
+      timestamp: 3,
+      // "c" would drain into itself
+      actions: [{ type: 'CloseAccount', accountId: 'd', destinationAccountId: 'c' }]
+    }, {
+      timestamp: 4,
+      actions: [{ type: 'FreezeAccount', accountId: 'b' }]
+    }]);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [
+      [1, 'SelfReference'],
+      [2, 'DrainCycle'],
+      [3, 'InvalidClose'],
+      [4, 'DanglingTarget'],
+    ]);
+  });
+
+  it('A closed account is gone for the rest of its action group', () => {
+    const diagnostics = validateActions([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'c' },
+      ]
+    }, {
+      timestamp: 1,
+      actions: [
+        { type: 'FreezeAccount', accountId: 'a' },
+        { type: 'CloseAccount', accountId: 'a', destinationAccountId: 'b' },
+        { type: 'Withdraw', accountId: 'a', amount: 0 },
+        { type: 'CloseAccount', accountId: 'a', destinationAccountId: 'c' },
+        { type: 'Transfer', sourceAccountId: 'b', targetAccountId: 'a', amount: 0 },
+      ]
+    }, {
+      timestamp: 2,
+      // Creating it again brings it back
+      actions: [
+        { type: 'CloseAccount', accountId: 'c', destinationAccountId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'c' },
+        { type: 'InjectMoney', accountId: 'c', amount: 1 },
+      ]
+    }]);
+    assert.deepEqual(diagnostics.map(d => [d.action.type, d.kind]), [
+      ['Withdraw', 'DanglingTarget'],
+      ['CloseAccount', 'DanglingTarget'],
+      ['Transfer', 'DanglingTarget'],
+    ]);
+  });
 });
@@ -0,0 +1,518 @@
+import _ from 'lodash';
+import { assert } from 'chai';
+import { computeFinancialHistory, validateActions, AccountState, FinancialHistory, HistorySnapshot } from '../lib/financial-model';
+import { computeLedger } from '../lib/ledger';
+import { conversionFactor } from '../lib/currencies';
+import { IceTrayValidationError } from '../lib/validation';
+import { checkActionGroup, serializeActionLog, ActionLogFormatError } from '../lib/action-log';
+import {
+  UserAction, UserActionGroup, CreateOrUpdateAccount, UpdateDrain, InjectMoney, Withdraw, Transfer, ScheduleRecurring
+} from '../lib/user-actions';
+import { AccountId, CurrencyCode, Money, Timestamp } from '../lib/general';
+import { never } from '../lib/utils';
+
+type InvariantKind =
+  | 'NegativeFillLevel'
+  | 'OverCapacity' // An account with an overflow target is fuller than its capacity
+  | 'DrainOverSize' // A drain is running faster than its max rate
+  | 'InflowMismatch' // A target's record of its inflow from a source doesn't match the source's outflow
+  | 'UnbalancedRates' // An account's fill rate isn't its inflow less its outflow, creating or destroying money
+  | 'TimestampDecreased'
+
+interface InvariantViolation {
+  kind: InvariantKind;
+  // The index of the snapshot in the history
+  snapshotIndex: number;
+  timestamp: Timestamp;
+  accountId?: AccountId;
+  message: string;
+}
+
+// How far apart two amounts or rates can be and still be considered equal,
+// relative to their size (or absolute, for sizes below 1)
+const tolerance = 1e-6;
+const close = (a: number, b: number) => Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * Checks that every snapshot in the history is internally consistent. These
+ * are properties that the engine should maintain for any valid actions, so a
+ * violation is a bug in the engine rather than in the actions.
+ *
+ * Money conservation across discrete flows (injections, withdrawals and
+ * transfers) is checked by the ledger, since it needs the flows between
+ * snapshots. The checks here cover the continuous flows.
+ */
+function checkHistoryInvariants(history: FinancialHistory): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+  let previous: HistorySnapshot | undefined;
+  history.forEach((snapshot, snapshotIndex) => {
+    if (previous && snapshot.timestamp < previous.timestamp) {
+      violations.push({
+        kind: 'TimestampDecreased',
+        snapshotIndex,
+        timestamp: snapshot.timestamp,
+        message: `Snapshot at ${snapshot.timestamp} comes after a snapshot at ${previous.timestamp}`
+      });
+    }
+    for (const violation of checkSnapshotInvariants(snapshot)) {
+      violations.push({ ...violation, snapshotIndex });
+    }
+    previous = snapshot;
+  });
+  return violations;
+}
+
+// The violations for a single snapshot, with a `snapshotIndex` of 0
+function checkSnapshotInvariants(snapshot: HistorySnapshot): InvariantViolation[] {
+  const { timestamp, accounts } = snapshot;
+  const violations: InvariantViolation[] = [];
+  const report = (kind: InvariantKind, accountId: AccountId, message: string) =>
+    violations.push({ kind, snapshotIndex: 0, timestamp, accountId, message });
+  const conversion = (source: AccountState, target: AccountState) =>
+    conversionFactor(snapshot.conversionRates, source.currency, target.currency) || 1;
+
+  for (const [accountId, account] of accounts) {
+    if (account.fillLevel < 0 && !close(account.fillLevel, 0)) {
+      report('NegativeFillLevel', accountId, `"${accountId}" has a fill level of ${account.fillLevel}`);
+    }
+
+    // A frozen account, or one that overflows into a frozen account, can't
+    // overflow, so it can be filled past capacity
+    const overflowTarget = account.overflowTargetId !== undefined ? accounts.get(account.overflowTargetId) : undefined;
+    if (overflowTarget && !account.frozen && !overflowTarget.frozen &&
+      account.fillLevel > account.capacity && !close(account.fillLevel, account.capacity)) {
+      report('OverCapacity', accountId, `"${accountId}" has a fill level of ${account.fillLevel} but a capacity of ${account.capacity}`);
+    }
+
+    for (const [targetAccountId, rate] of account.drainEffectiveRates) {
+      const size = account.drainSizes.get(targetAccountId, 0);
+      if (!account.drainFractions.has(targetAccountId) && rate > size && !close(rate, size)) {
+        report('DrainOverSize', accountId, `The drain from "${accountId}" to "${targetAccountId}" has a rate of ${rate} but a max rate of ${size}`);
+      }
+    }
+
+    // Each inflow recorded by this account should match the outflow of its
+    // source, including sources that no longer flow into it (which should be
+    // recorded as zero)
+    for (const [sourceAccountId, inflowRate] of account.drainInflows) {
+      const source = accounts.get(sourceAccountId);
+      const expected = source ? source.drainEffectiveRates.get(accountId, 0) * conversion(source, account) : 0;
+      if (!close(inflowRate, expected)) {
+        report('InflowMismatch', accountId, `"${accountId}" has a drain inflow of ${inflowRate} from "${sourceAccountId}", which drains ${expected} into it`);
+      }
+    }
+    for (const [sourceAccountId, inflowRate] of account.overflowInflows) {
+      const source = accounts.get(sourceAccountId);
+      const expected = source && source.overflowTargetId === accountId ? source.overflowRate * conversion(source, account) : 0;
+      if (!close(inflowRate, expected)) {
+        report('InflowMismatch', accountId, `"${accountId}" has an overflow inflow of ${inflowRate} from "${sourceAccountId}", which overflows ${expected} into it`);
+      }
+    }
+    // ... and each outflow should be recorded by its target
+    for (const [targetAccountId, rate] of account.drainEffectiveRates) {
+      const target = accounts.get(targetAccountId);
+      if (!close(rate, 0) && !(target && target.drainInflows.has(accountId))) {
+        report('InflowMismatch', accountId, `"${accountId}" drains ${rate} into "${targetAccountId}", which doesn't record it`);
+      }
+    }
+    if (!close(account.overflowRate, 0) && !(overflowTarget && overflowTarget.overflowInflows.has(accountId))) {
+      report('InflowMismatch', accountId, `"${accountId}" overflows ${account.overflowRate} into "${account.overflowTargetId}", which doesn't record it`);
+    }
+
+    const sum = (rates: Iterable<number>) => [...rates].reduce((a, x) => a + x, 0);
+    const inflow = sum(account.drainInflows.values()) + sum(account.overflowInflows.values()) +
+      (account.frozen ? 0 : account.interestRate * account.fillLevel);
+    const outflow = sum(account.drainEffectiveRates.values()) + account.overflowRate;
+    if (!close(account.fillRate, inflow - outflow)) {
+      report('UnbalancedRates', accountId, `"${accountId}" has a fill rate of ${account.fillRate}, but an inflow of ${inflow} and an outflow of ${outflow}`);
+    }
+  }
+  return violations;
+}
+
+// A small seeded PRNG (mulberry32), so that a failing seed can be replayed
+type Random = () => number;
+
+function seededRandom(seed: number): Random {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const integer = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const chance = (random: Random, probability: number) => random() < probability;
+const pick = <T>(random: Random, values: T[]) => values[integer(random, 0, values.length - 1)];
+
+// Builders for the actions that the tests spell out often
+const inject = (accountId: AccountId, amount: Money): InjectMoney => ({ type: 'InjectMoney', accountId, amount });
+const withdraw = (accountId: AccountId, amount: Money): Withdraw => ({ type: 'Withdraw', accountId, amount, shortfall: 'Clamp' });
+const transfer = (sourceAccountId: AccountId, targetAccountId: AccountId, amount: Money): Transfer =>
+  ({ type: 'Transfer', sourceAccountId, targetAccountId, amount, shortfall: 'Clamp' });
+const account = (accountId: AccountId, fields: Omit<CreateOrUpdateAccount, 'type' | 'accountId'> = {}): CreateOrUpdateAccount =>
+  ({ type: 'CreateOrUpdateAccount', accountId, ...fields });
+const drain = (sourceAccountId: AccountId, targetAccountId: AccountId, maxRate: number): UpdateDrain =>
+  ({ type: 'UpdateDrain', sourceAccountId, targetAccountId, maxRate });
+
+const currencies: CurrencyCode[] = ['AUD', 'USD'];
+
+/**
+ * A random action log over a handful of accounts `a0`, `a1`, ... Money only
+ * overflows and drains from lower to higher numbered accounts, so the graph
+ * can't have cycles, but otherwise the actions are unconstrained: actions that
+ * would make the log invalid (such as referring to a closed account, or
+ * completing a purchase that isn't funded yet) are dropped as they're
+ * generated. Withdrawals and transfers clamp rather than overdraw.
+ */
+function generateActions(random: Random): UserActionGroup[] {
+  const accountCount = integer(random, 2, 5);
+  const accountIds = Array.from({ length: accountCount }, (_, i) => `a${i}`);
+  const later = (accountId: AccountId) => accountIds.slice(accountIds.indexOf(accountId) + 1);
+  const amount = () => integer(random, 1, 30);
+  const rate = () => integer(random, 1, 8) / 2;
+  // Some logs have accounts in different currencies
+  const currency = chance(random, 0.3) ? () => pick(random, currencies) : () => undefined;
+  const conversionRate = () => integer(random, 1, 4) / 2;
+
+  const createAccount = (accountId: AccountId): CreateOrUpdateAccount => {
+    const action = account(accountId, { capacity: pick(random, [0, 0, integer(random, 1, 20)]) });
+    const targets = later(accountId);
+    if (targets.length && chance(random, 0.6)) {
+      action.overflowTargetId = pick(random, targets);
+    }
+    if (chance(random, 0.2)) {
+      action.inflowPolicy = 'OverflowFirst';
+    }
+    const accountCurrency = currency();
+    if (accountCurrency !== undefined) {
+      action.currency = accountCurrency;
+    }
+    if (chance(random, 0.15)) {
+      action.interestRate = pick(random, [-1, 1, 2]) / 20;
+    } else if (chance(random, 0.15)) {
+      action.capacityRamp = chance(random, 0.5)
+        ? { rate: pick(random, [-2, -1, 1, 2]) / 2 }
+        : { rate: pick(random, [-2, -1, 1, 2]) / 2, until: integer(random, 1, 30) };
+    }
+    if (targets.length && chance(random, 0.1)) {
+      action.onFull = { overflowTargetId: pick(random, targets), mark: 'full' };
+    }
+    return action;
+  };
+
+  const updateDrain = (sourceAccountId: AccountId): UpdateDrain | undefined => {
+    const targets = later(sourceAccountId);
+    if (!targets.length) {
+      return undefined;
+    }
+    const action = drain(sourceAccountId, pick(random, targets), rate());
+    if (chance(random, 0.15)) {
+      action.maxRate = 0;
+      action.balanceFraction = pick(random, [1, 2, 5]) / 10;
+      return action;
+    }
+    if (chance(random, 0.3)) {
+      action.priority = integer(random, 0, 2);
+    }
+    if (chance(random, 0.2)) {
+      action.weight = integer(random, 1, 3);
+    }
+    if (chance(random, 0.1)) {
+      action.rateSchedule = [{ from: integer(random, 1, 15), maxRate: rate() }, { from: integer(random, 16, 30), maxRate: 0 }];
+    }
+    return action;
+  };
+
+  const scheduleRecurring = (accountId: AccountId): ScheduleRecurring => ({
+    type: 'ScheduleRecurring',
+    scheduleId: `s${integer(random, 0, 1)}`,
+    start: integer(random, 0, 20),
+    period: integer(random, 1, 5),
+    count: integer(random, 1, 5),
+    action: inject(accountId, amount())
+  });
+
+  const randomAction = (): UserAction | undefined => {
+    const accountId = pick(random, accountIds);
+    const otherId = pick(random, accountIds.filter(id => id !== accountId));
+    const destinations = later(accountId);
+    switch (integer(random, 0, 14)) {
+      case 0: case 1: return inject(accountId, amount());
+      case 2: return withdraw(accountId, amount());
+      case 3: return transfer(accountId, otherId, amount());
+      case 4: return updateDrain(accountId);
+      case 5: return { type: 'DeleteDrain', sourceAccountId: accountId, targetAccountId: otherId };
+      case 6: return createAccount(accountId);
+      case 7: return { type: chance(random, 0.5) ? 'FreezeAccount' : 'UnfreezeAccount', accountId };
+      case 8: return destinations.length
+        ? { type: 'CloseAccount', accountId, destinationAccountId: pick(random, destinations) }
+        : undefined;
+      case 9: return destinations.length
+        ? { type: 'CompletePurchase', accountId, destinationAccountId: pick(random, destinations) }
+        : undefined;
+      case 10: return { type: 'DeleteAccount', accountId };
+      case 11: return scheduleRecurring(accountId);
+      case 12: return { type: 'CancelSchedule', scheduleId: `s${integer(random, 0, 1)}` };
+      case 13: return { type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: conversionRate() };
+      default: return account(accountId, { capacity: integer(random, 0, 20) });
+    }
+  };
+
+  const actions: UserActionGroup[] = [];
+  // An action that makes the engine throw is kept, since that's a problem for
+  // `findProblem` to find
+  const isValid = () => {
+    try {
+      return validateActions(actions).length === 0;
+    } catch (e) {
+      return true;
+    }
+  };
+  const addActions = (timestamp: number, candidates: (UserAction | undefined)[]) => {
+    const actionGroup: UserActionGroup = { timestamp, actions: [] };
+    actions.push(actionGroup);
+    for (const action of candidates) {
+      if (action) {
+        actionGroup.actions.push(action);
+        if (!isValid()) {
+          actionGroup.actions.pop();
+        }
+      }
+    }
+    if (!actionGroup.actions.length) {
+      actions.pop();
+    }
+  };
+
+  addActions(0, [
+    { type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: conversionRate() },
+    ...[...accountIds].reverse().map(createAccount),
+    ...accountIds.map(accountId => chance(random, 0.6) ? updateDrain(accountId) : undefined),
+    ...accountIds.map(accountId => chance(random, 0.5) ? inject(accountId, amount()) : undefined),
+  ]);
+  let timestamp = 0;
+  for (let i = integer(random, 2, 8); i > 0; i--) {
+    // Some groups are at the same time as the one before, or as a nonlinearity
+    timestamp += integer(random, 0, 6);
+    addActions(timestamp, Array.from({ length: integer(random, 1, 3) }, randomAction));
+  }
+  return actions;
+}
+
+// The times to check the ledger from: the start of the history, and points
+// part way through the segments between the action groups
+function ledgerStartTimes(actions: UserActionGroup[]): Timestamp[] {
+  const times = _.uniq(_.sortBy(actions.map(actionGroup => actionGroup.timestamp)));
+  return [-Infinity, ...times.map((time, i) => i + 1 < times.length ? (time + times[i + 1]) / 2 : time + 2.5)];
+}
+
+// A description of the first problem with the actions, undefined if there
+// are none, or 'Invalid' if the actions aren't valid (which isn't a problem
+// with the engine). Withdrawals and transfers that clamp should never be
+// rejected, so a rejected action group is a problem.
+function findProblem(actions: UserActionGroup[]): string | undefined {
+  try {
+    const unclamped = actions.some(actionGroup => actionGroup.actions.some(action =>
+      (action.type === 'Withdraw' || action.type === 'Transfer') && action.shortfall !== 'Clamp'));
+    if (unclamped || validateActions(actions).length) {
+      return 'Invalid';
+    }
+    // Generated actions are all before 50. Much later than that, interest can
+    // grow balances past the precision of the checks (or past the largest
+    // number).
+    const until = 100;
+    const history = computeFinancialHistory(actions).filter(snapshot => snapshot.timestamp < until);
+    const [violation] = checkHistoryInvariants(history);
+    if (violation) {
+      return `${violation.kind}: ${violation.message} (at ${violation.timestamp})`;
+    }
+    for (const from of ledgerStartTimes(actions)) {
+      const check = computeLedger(actions, from, until).conservationByCurrency.find(check => !check.conserved);
+      if (check) {
+        return `NotConserved: The ${check.currency || 'unconverted'} balances from ${from} are off by ${check.discrepancy}`;
+      }
+    }
+    return undefined;
+  } catch (e) {
+    if (e instanceof IceTrayValidationError) {
+      return `Rejected: ${e.message}`;
+    }
+    return `${e.name}: ${e.message}`;
+  }
+}
+
+/**
+ * Repeatedly simplifies the failing actions (removing action groups, actions
+ * and optional fields, and making numbers smaller) for as long as they still
+ * fail in the same way, which leaves a minimal reproducer.
+ */
+function shrink(actions: UserActionGroup[], problemOf: (actions: UserActionGroup[]) => string | undefined): UserActionGroup[] {
+  const kindOf = (problem: string | undefined) => problem && problem.split(':')[0];
+  const kind = kindOf(problemOf(actions));
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (const candidate of simplifications(actions)) {
+      const problem = problemOf(candidate);
+      if (problem !== 'Invalid' && kindOf(problem) === kind) {
+        actions = candidate;
+        improved = true;
+        break;
+      }
+    }
+  }
+  return actions;
+}
+
+function* simplifications(actions: UserActionGroup[]): IterableIterator<UserActionGroup[]> {
+  const withGroup = (i: number, actionGroup: UserActionGroup | undefined) => [
+    ...actions.slice(0, i),
+    ...(actionGroup && actionGroup.actions.length ? [actionGroup] : []),
+    ...actions.slice(i + 1)
+  ];
+  for (let i = 0; i < actions.length; i++) {
+    yield withGroup(i, undefined);
+  }
+  for (let i = 0; i < actions.length; i++) {
+    const actionGroup = actions[i];
+    for (let j = 0; j < actionGroup.actions.length; j++) {
+      const withAction = (action: UserAction | undefined) => withGroup(i, {
+        ...actionGroup,
+        actions: [...actionGroup.actions.slice(0, j), ...(action ? [action] : []), ...actionGroup.actions.slice(j + 1)]
+      });
+      yield withAction(undefined);
+      // Simpler versions of the action are checked against the action log
+      // schema, which rejects actions without their required fields
+      const fields: { [key: string]: unknown } = { ...actionGroup.actions[j] };
+      const candidates = Object.keys(fields).map(key => {
+        const value = fields[key];
+        const smaller = typeof value === 'number' ? _.uniq([0, Math.trunc(value / 2)]).filter(x => x !== value) : [];
+        return [_.omit(fields, key), ...smaller.map(x => ({ ...fields, [key]: x }))];
+      });
+      for (const candidate of _.flatten(candidates)) {
+        const action = decodeAction(candidate);
+        if (action) {
+          yield withAction(action);
+        }
+      }
+    }
+  }
+  // Moves groups closer together in time
+  for (let i = 1; i < actions.length; i++) {
+    const gap = actions[i].timestamp - actions[i - 1].timestamp;
+    if (gap > 0) {
+      yield actions.map((actionGroup, j) => j >= i ? { ...actionGroup, timestamp: actionGroup.timestamp - Math.ceil(gap / 2) } : actionGroup);
+    }
+  }
+}
+
+function decodeAction(value: unknown): UserAction | undefined {
+  try {
+    return checkActionGroup({ timestamp: 0, actions: [value] }).actions[0];
+  } catch (e) {
+    if (e instanceof ActionLogFormatError) {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+describe('Invariants', () => {
+  it('Random action logs', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const actions = generateActions(seededRandom(seed));
+      const problem = findProblem(actions);
+      if (problem !== undefined) {
+        const minimal = shrink(actions, findProblem);
+        assert.fail(`Seed ${seed}: ${findProblem(minimal)}\n${serializeActionLog(minimal)}`);
+      }
+    }
+  });
+
+  it('Covers every kind of action', () => {
+    const types = new Set<string>();
+    for (let seed = 1; seed <= 200; seed++) {
+      for (const actionGroup of generateActions(seededRandom(seed))) {
+        for (const action of actionGroup.actions) {
+          types.add(action.type);
+        }
+      }
+    }
+    assert.sameMembers([...types], [
+      'CreateOrUpdateAccount', 'UpdateDrain', 'DeleteDrain', 'DeleteAccount', 'FreezeAccount', 'UnfreezeAccount',
+      'CloseAccount', 'CompletePurchase', 'InjectMoney', 'Withdraw', 'Transfer', 'ScheduleRecurring', 'CancelSchedule',
+      'SetConversionRate'
+    ]);
+  });
+
+  it('Simultaneous fill and empty, and starved drain chains', () => {
+    // a0 empties at the same time as a1 fills, and a2 only gets what's left
+    // of a1's inflow once a1 is empty
+    const actions: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        account('a0'),
+        account('a1', { capacity: 4, overflowTargetId: 'a3' }),
+        account('a2'),
+        account('a3'),
+        drain('a0', 'a1', 2),
+        drain('a1', 'a2', 1),
+        drain('a2', 'a3', 3),
+        inject('a0', 8),
+      ]
+    }, {
+      timestamp: 4,
+      actions: [withdraw('a1', 4)]
+    }];
+    const history = computeFinancialHistory(actions);
+    assert.deepEqual(checkHistoryInvariants(history), []);
+    const at4 = history.find(snapshot => snapshot.timestamp === 4) || never;
+    assert.deepEqual(at4.events.map(event => event.type).toArray().sort(), ['AccountEmptied', 'AccountFilled', 'DrainStarved']);
+    assert.equal(findProblem(actions), undefined);
+  });
+
+  it('Violations', () => {
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        account('a', { capacity: 5, overflowTargetId: 'b' }),
+        account('b'),
+        drain('a', 'b', 1),
+        inject('a', 10),
+      ]
+    }]);
+    assert.deepEqual(checkHistoryInvariants(history), []);
+    const snapshot: HistorySnapshot = history.get(0, never);
+    const broken = snapshot
+      .setIn(['accounts', 'a', 'fillLevel'], 6)
+      .setIn(['accounts', 'a', 'drainEffectiveRates', 'b'], 2)
+      .setIn(['accounts', 'b', 'fillLevel'], -1);
+    assert.deepEqual(checkSnapshotInvariants(broken).map(violation => [violation.kind, violation.accountId]), [
+      ['OverCapacity', 'a'],
+      ['DrainOverSize', 'a'],
+      ['UnbalancedRates', 'a'],
+      ['NegativeFillLevel', 'b'],
+      ['InflowMismatch', 'b'],
+    ]);
+    const reversed = history.push(snapshot.set('timestamp', -1));
+    assert.deepEqual(checkHistoryInvariants(reversed).map(violation => [violation.kind, violation.snapshotIndex]), [
+      ['TimestampDecreased', history.size]
+    ]);
+  });
+
+  it('Shrinking', () => {
+    // A stand-in for an engine bug: any injection of more than 20
+    const problemOf = (actions: UserActionGroup[]) => actions.some(actionGroup =>
+      actionGroup.actions.some(action => action.type === 'InjectMoney' && action.amount > 20))
+      ? 'BigInjection: found' : undefined;
+    const seed = [...Array(100).keys()].find(seed => problemOf(generateActions(seededRandom(seed))) !== undefined);
+    assert.isDefined(seed);
+    const minimal = shrink(generateActions(seededRandom(seed || 0)), problemOf);
+    assert.lengthOf(minimal, 1);
+    assert.lengthOf(minimal[0].actions, 1);
+    const [action] = minimal[0].actions;
+    assert.isTrue(action.type === 'InjectMoney' && action.amount > 20);
+  });
+});
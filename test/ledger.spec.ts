@@ -0,0 +1,188 @@
+import { computeLedger } from '../lib/ledger';
+import { minorUnitArithmetic } from '../lib/money-arithmetic';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+import { never } from '../lib/utils';
+
+describe('computeLedger', () => {
+  const actions: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'expenses', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 20 },
+    ]
+  }, {
+    timestamp: 4,
+    actions: [
+      { type: 'InjectMoney', accountId: 'savings', amount: -3 },
+    ]
+  }];
+
+  it('Integrates flows between accounts', () => {
+    const ledger = computeLedger(actions, 0, 8);
+    assert.deepEqual(ledger.edges, [
+      { sourceId: 'income', targetId: 'expenses', kind: 'Drain', amount: 8 },
+      { sourceId: 'income', targetId: 'savings', kind: 'Overflow', amount: 10 },
+    ]);
+    assert.deepEqual(ledger.injections, [{ accountId: 'income', amount: 20 }]);
+    assert.deepEqual(ledger.withdrawals, [{ accountId: 'savings', amount: 3 }]);
+    assert.deepEqual(ledger.conservation, {
+      openingBalance: 0,
+      closingBalance: 17,
+      injected: 20,
+      withdrawn: 3,
+      interest: 0,
+      converted: 0,
+      sinkBalance: 15,
+      discrepancy: 0,
+      conserved: true
+    });
+  });
+
+  it('Partial interval', () => {
+    const ledger = computeLedger(actions, 2, 5);
+    assert.deepEqual(ledger.edges, [
+      { sourceId: 'income', targetId: 'expenses', kind: 'Drain', amount: 3 },
+    ]);
+    assert.deepEqual(ledger.injections, []);
+    assert.equal(ledger.conservation.openingBalance, 20);
+    assert.equal(ledger.conservation.closingBalance, 17);
+    assert.isTrue(ledger.conservation.conserved);
+  });
+
+  it('Continuous overflow with exact arithmetic', () => {
+    const ledger = computeLedger([...actions, {
+      timestamp: 9,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'salary' },
+        { type: 'InjectMoney', accountId: 'salary', amount: 50.1 },
+        { type: 'UpdateDrain', sourceAccountId: 'salary', targetAccountId: 'income', maxRate: 1.3 },
+      ]
+    }], 0, 100, { arithmetic: minorUnitArithmetic() });
+    const overflow = ledger.edges.find(edge => edge.sourceId === 'income' && edge.kind === 'Overflow');
+    assert.isAbove(overflow ? overflow.amount : 0, 10);
+    assert.equal(ledger.conservation.discrepancy, 0);
+    assert.equal(ledger.conservation.closingBalance, 67.1);
+  });
+
+  it('Interest and balance-fraction drains', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: 1000, interestRate: 0.05 },
+        { type: 'CreateOrUpdateAccount', accountId: 'tithe' },
+        { type: 'UpdateDrain', sourceAccountId: 'savings', targetAccountId: 'tithe', maxRate: 0, balanceFraction: 0.01 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+      ]
+    }], 0, 10);
+    // The balance grows at 4% net, so the integral of the balance is
+    // 100 * (e^0.4 - 1) / 0.04
+    const integral = 100 * Math.expm1(0.4) / 0.04;
+    const [edge] = ledger.edges;
+    assert.closeTo(edge.amount, 0.01 * integral, 1e-9);
+    assert.closeTo(ledger.interest[0].amount, 0.05 * integral, 1e-9);
+    assert.closeTo(ledger.conservation.closingBalance, 100 + 0.05 * integral, 1e-9);
+    assert.isTrue(ledger.conservation.conserved);
+  });
+
+  it('Starts part way through a curved segment', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', interestRate: 0.1 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+      ]
+    }], 10, 20);
+    const opening = 100 * Math.E;
+    assert.closeTo(ledger.conservation.openingBalance, opening, 1e-9);
+    assert.closeTo(ledger.interest[0].amount, opening * Math.expm1(1), 1e-9);
+    assert.closeTo(ledger.conservation.discrepancy, 0, 1e-9);
+    assert.isTrue(ledger.conservation.conserved);
+  });
+
+  it('Balance-fraction drains from an empty account', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'tithe', currency: 'AUD' },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'savings', maxRate: 1 },
+        { type: 'UpdateDrain', sourceAccountId: 'savings', targetAccountId: 'tithe', maxRate: 0, balanceFraction: 0.1 },
+        { type: 'InjectMoney', accountId: 'income', amount: 1 },
+      ]
+    }], 0, 1);
+    // The savings fill at 1 less 10% of the balance, so the balance is
+    // 10 * (1 - e^(-0.1t))
+    const integral = 10 * (1 + Math.expm1(-0.1) / 0.1);
+    const tithe = ledger.edges.find(edge => edge.targetId === 'tithe') || never;
+    assert.closeTo(tithe.amount, 0.1 * integral, 1e-9);
+    assert.isTrue(ledger.conservation.conserved);
+  });
+
+  it('Frozen accounts earn no interest', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', interestRate: 0.1 },
+        { type: 'CreateOrUpdateAccount', accountId: 'deposit', interestRate: 0.1 },
+        { type: 'CreateOrUpdateAccount', accountId: 'tithe' },
+        { type: 'UpdateDrain', sourceAccountId: 'savings', targetAccountId: 'tithe', maxRate: 0, balanceFraction: 0.1 },
+        { type: 'InjectMoney', accountId: 'savings', amount: 100 },
+        { type: 'InjectMoney', accountId: 'deposit', amount: 100 },
+        // The tithe can't receive, so the savings keep their interest
+        { type: 'FreezeAccount', accountId: 'tithe' },
+        { type: 'FreezeAccount', accountId: 'deposit' },
+      ]
+    }], 0, 10);
+    assert.deepEqual(ledger.edges, []);
+    assert.deepEqual(ledger.interest.map(entry => entry.accountId), ['savings']);
+    assert.closeTo(ledger.interest[0].amount, 100 * Math.expm1(1), 1e-9);
+    assert.isTrue(ledger.conservation.conserved);
+  });
+
+  it('Checks conservation per currency', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'SetConversionRate', fromCurrency: 'USD', toCurrency: 'AUD', rate: 1.5 },
+        { type: 'CreateOrUpdateAccount', accountId: 'wallet', currency: 'USD', capacity: 10, overflowTargetId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', currency: 'AUD' },
+        { type: 'CreateOrUpdateAccount', accountId: 'rent', currency: 'AUD' },
+        { type: 'UpdateDrain', sourceAccountId: 'wallet', targetAccountId: 'rent', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'wallet', amount: 20 },
+      ]
+    }], 0, 4);
+    assert.deepEqual(ledger.edges, [
+      { sourceId: 'wallet', targetId: 'rent', kind: 'Drain', amount: 4, convertedAmount: 6 },
+      { sourceId: 'wallet', targetId: 'savings', kind: 'Overflow', amount: 10, convertedAmount: 15 },
+    ]);
+    assert.deepEqual(ledger.conservationByCurrency.map(check => [check.currency, check.converted, check.closingBalance]), [
+      ['USD', -14, 6],
+      ['AUD', 21, 21],
+    ]);
+    assert.isTrue(ledger.conservation.conserved);
+    assert.equal(ledger.conservation.converted, 7);
+  });
+
+  it('Flows to accounts without a currency leave the currency', () => {
+    const ledger = computeLedger([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'wallet', currency: 'USD' },
+        { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+        { type: 'UpdateDrain', sourceAccountId: 'wallet', targetAccountId: 'expenses', maxRate: 1 },
+        { type: 'InjectMoney', accountId: 'wallet', amount: 10 },
+      ]
+    }], 0, 4);
+    assert.deepEqual(ledger.edges, [{ sourceId: 'wallet', targetId: 'expenses', kind: 'Drain', amount: 4 }]);
+    assert.deepEqual(ledger.conservationByCurrency.map(check => [check.currency, check.converted, check.closingBalance, check.conserved]), [
+      ['USD', -4, 6, true],
+      [undefined, 4, 4, true],
+    ]);
+    assert.equal(ledger.conservation.converted, 0);
+  });
+});
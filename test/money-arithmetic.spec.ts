@@ -0,0 +1,141 @@
+import _ from 'lodash';
+import { AccountState, computeFinancialHistory } from '../lib/financial-model';
+import { MoneyArithmetic, minorUnitArithmetic, numberArithmetic } from '../lib/money-arithmetic';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+import { never } from '../lib/utils';
+
+describe('minorUnitArithmetic', () => {
+  const arithmetic = minorUnitArithmetic(100);
+
+  it('Counts whole minor units', () => {
+    assert.equal(arithmetic.fromNumber(11.999999997), 1200);
+    assert.equal(arithmetic.toNumber(1200), 12);
+    assert.equal(arithmetic.toNumber(arithmetic.add(arithmetic.fromNumber(0.1), arithmetic.fromNumber(0.2))), 0.3);
+    assert.equal(arithmetic.convert(1000, 1 / 3), 333);
+  });
+
+  it('Rounds amounts that are JS numbers', () => {
+    const amounts = numberArithmetic(arithmetic);
+    assert.equal(amounts.fromNumber(11.999999997), 12);
+    assert.equal(amounts.add(0.1, 0.2), 0.3);
+    assert.equal(amounts.subtract(0.3, 0.1), 0.2);
+  });
+
+  it('Conserves money when projecting', () => {
+    const levels = arithmetic.projectLevels([1000, 0, 0], [-1, 1 / 3, 2 / 3], 1, [undefined, undefined, undefined]);
+    assert.deepEqual(levels, [900, 33, 67]);
+  });
+
+  it('Pinned levels are exact', () => {
+    const levels = arithmetic.projectLevels([1000, 0], [-3, 3], 10 / 3 + 1e-12, [0, undefined]);
+    assert.deepEqual(levels, [0, 1000]);
+  });
+
+  it('Empties an account that is rounded down to zero before it was expected to', () => {
+    // 11.67 empties at 2.5 per unit of time a little after 6, but the exact
+    // balance was a third of a cent less than that
+    const history = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: 11, overflowTargetId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'c', targetAccountId: 'a', maxRate: 2.5 },
+        { type: 'InjectMoney', accountId: 'a', amount: 9 },
+        { type: 'InjectMoney', accountId: 'c', amount: 15 },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1 },
+      ]
+    }, {
+      timestamp: 6,
+      actions: [{ type: 'InjectMoney', accountId: 'b', amount: 0 }]
+    }], { arithmetic, horizon: 10 });
+    const last = history.get(history.size - 1, never);
+    assert.equal(last.accounts.get('c', never).fillLevel, 0);
+    assert.equal(last.accounts.get('c', never).fillRate, 0);
+  });
+
+  it('Balances add up to the injected amounts after many nonlinearities', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 100, overflowTargetId: 'savings-gate' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings-gate', capacity: 20, overflowTargetId: 'purchases' },
+        { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'purchases' },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'expenses', maxRate: 200 / 7 },
+        { type: 'UpdateDrain', sourceAccountId: 'savings-gate', targetAccountId: 'savings', maxRate: 10 / 7 },
+      ]
+    }];
+    let injectedMinorUnits = 0;
+    for (let day = 1; day <= 2000; day++) {
+      const amount = [0.01, 33.33, 12.1, 50.07][day % 4];
+      injectedMinorUnits += Math.round(amount * 100);
+      actions.push({ timestamp: day, actions: [{ type: 'InjectMoney', accountId: 'income', amount }] });
+    }
+
+    const history = computeFinancialHistory(actions, { arithmetic });
+    assert.isAbove(history.size, 3000);
+    for (const snapshot of history) {
+      let totalMinorUnits = 0;
+      for (const account of snapshot.accounts.values()) {
+        assert.equal(account.fillLevel, Math.round(account.fillLevel * 100) / 100);
+        totalMinorUnits += Math.round(account.fillLevel * 100);
+      }
+      assert.isAtMost(totalMinorUnits, injectedMinorUnits);
+    }
+    const finalAccounts = history.get(history.size - 1, never).accounts;
+    const finalMinorUnits = finalAccounts.reduce((a, account) => a + Math.round(account.fillLevel * 100), 0);
+    assert.equal(finalMinorUnits, injectedMinorUnits);
+  });
+});
+
+describe('A custom numeric backend', () => {
+  // Balances are boxed counts of tenths of a minor unit, so the engine can only
+  // work with them through the backend
+  interface Tenths { tenths: number; }
+  const box = (tenths: number): Tenths => ({ tenths });
+  const tenths = minorUnitArithmetic(1000);
+  const arithmetic: MoneyArithmetic<Tenths> = {
+    fromNumber: amount => box(tenths.fromNumber(amount)),
+    toNumber: amount => tenths.toNumber(amount.tenths),
+    add: (a, b) => box(a.tenths + b.tenths),
+    subtract: (a, b) => box(a.tenths - b.tenths),
+    convert: (amount, conversionRate) => box(tenths.convert(amount.tenths, conversionRate)),
+    projectLevels: (levels, rates, deltaTime, pinnedLevels) => tenths.projectLevels(
+      levels.map(level => level.tenths),
+      rates,
+      deltaTime,
+      pinnedLevels.map(level => level && level.tenths)
+    ).map(box)
+  };
+  const exactTenths = (account: AccountState) =>
+    account.exactFillLevel !== undefined ? (account.exactFillLevel as Tenths).tenths : account.fillLevel * 1000;
+
+  it('Keeps the balances in its representation', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'expenses' },
+        { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'expenses', maxRate: 1 / 3 },
+        { type: 'InjectMoney', accountId: 'income', amount: 12.3456 },
+      ]
+    }, {
+      timestamp: 7,
+      actions: [{ type: 'Transfer', sourceAccountId: 'income', targetAccountId: 'savings', amount: 1 }]
+    }];
+
+    const history = computeFinancialHistory(actions, { arithmetic });
+    const last = history.get(history.size - 1, never);
+    assert.isDefined(last.accounts.get('income', never).exactFillLevel);
+    for (const snapshot of history) {
+      for (const account of snapshot.accounts.values()) {
+        assert.equal(account.fillLevel, exactTenths(account) / 1000);
+        assert.isTrue(Number.isInteger(exactTenths(account)));
+      }
+    }
+    assert.equal(_.sum([...last.accounts.values()].map(exactTenths)), 12346);
+  });
+});
@@ -0,0 +1,75 @@
+import { assert } from 'chai';
+import { compareScenario } from '../lib/scenarios';
+import { computeFinancialHistory } from '../lib/financial-model';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('compareScenario', () => {
+  const base: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: 10, overflowTargetId: 'laptop' },
+      { type: 'CreateOrUpdateAccount', accountId: 'laptop', capacity: 20 },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'savings', maxRate: 1 },
+      { type: 'InjectMoney', accountId: 'income', amount: 100 },
+    ]
+  }, {
+    timestamp: 20,
+    actions: [{ type: 'InjectMoney', accountId: 'income', amount: 10 }]
+  }];
+
+  // What if I raise my savings drain at time 5?
+  const hypothetical: UserActionGroup[] = [{
+    timestamp: 5,
+    actions: [{ type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'savings', maxRate: 2 }]
+  }];
+
+  it('Computes both histories', () => {
+    const { base: baseHistory, scenario } = compareScenario(base, hypothetical);
+    assert.deepEqual(baseHistory.toJS(), computeFinancialHistory(base).toJS());
+    assert.deepEqual(scenario.toJS(), computeFinancialHistory([...base, ...hypothetical]).toJS());
+    // The part of the history before the hypothetical actions is shared
+    assert.strictEqual(scenario.get(0), baseHistory.get(0));
+  });
+
+  it('Diff', () => {
+    const { diff } = compareScenario(base, hypothetical, { sampleTimes: [5, 10] });
+    assert.deepEqual(diff.balanceChanges, [
+      { accountId: 'income', timestamp: 10, base: 90, scenario: 85 },
+      { accountId: 'laptop', timestamp: 10, base: 0, scenario: 5 },
+    ]);
+    assert.deepEqual(diff.projectionChanges, [
+      { accountId: 'income', base: { projectedToRunOut: 110 }, scenario: { projectedToRunOut: 57.5 } },
+      { accountId: 'savings', base: { projectedToReachCapacity: 10 }, scenario: { projectedToReachCapacity: 7.5 } },
+      { accountId: 'laptop', base: { projectedToReachCapacity: 30 }, scenario: { projectedToReachCapacity: 17.5 } },
+    ]);
+    // Both end up with all the money in the laptop account, but the drain rate differs
+    assert.deepEqual(diff.changedAccountIds, ['income']);
+  });
+
+  it('Expands schedules without an end equally far in both histories', () => {
+    const withRent: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income' },
+        { type: 'CreateOrUpdateAccount', accountId: 'rent' },
+        {
+          type: 'ScheduleRecurring',
+          scheduleId: 'rent',
+          start: 0,
+          period: 10,
+          action: { type: 'InjectMoney', accountId: 'rent', amount: 10 }
+        },
+      ]
+    }];
+    const bonus: UserActionGroup[] = [{
+      timestamp: 40,
+      actions: [{ type: 'InjectMoney', accountId: 'income', amount: 5 }]
+    }];
+    const { diff } = compareScenario(withRent, bonus, { sampleTimes: [45] });
+    assert.deepEqual(diff.balanceChanges, [
+      { accountId: 'income', timestamp: 45, base: 0, scenario: 5 },
+    ]);
+    assert.deepEqual(diff.changedAccountIds, ['income']);
+  });
+});
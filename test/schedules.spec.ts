@@ -0,0 +1,106 @@
+import { computeFinancialHistory, calculateStateAtTime, validateActions } from '../lib/financial-model';
+import { FinancialEngine } from '../lib/financial-engine';
+import { getAccountViews } from '../lib/account-state';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+import { never } from '../lib/utils';
+
+describe('Recurring actions', () => {
+  const setup: UserActionGroup = {
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income' },
+    ]
+  };
+  const salary = (timestamp: number, schedule: { start: number, period: number, end?: number, count?: number }, amount = 100): UserActionGroup => ({
+    timestamp,
+    actions: [{
+      type: 'ScheduleRecurring',
+      scheduleId: 'salary',
+      ...schedule,
+      action: { type: 'InjectMoney', accountId: 'income', amount }
+    }]
+  });
+
+  it('Expands a schedule with a count', () => {
+    const history = computeFinancialHistory([setup, salary(0, { start: 7, period: 14, count: 3 })]);
+    assert.deepEqual(history.map(s => s.timestamp).toArray(), [0, 0, 7, 21, 35]);
+    assert.equal(history.get(history.size - 1, never).accounts.get('income', never).fillLevel, 300);
+  });
+
+  it('Skips occurrences before the schedule takes effect', () => {
+    const accounts = calculateStateAtTime([setup, salary(10, { start: 0, period: 7, end: 30 })], 100);
+    // Occurrences at 14, 21 and 28
+    assert.equal(accounts.get('income', never).fillLevel, 300);
+  });
+
+  it('Expands schedules without an end up to the last action group by default', () => {
+    const actions = [setup, salary(0, { start: 0, period: 7 }), {
+      timestamp: 20,
+      actions: [{ type: 'InjectMoney', accountId: 'income', amount: 1 }]
+    } as UserActionGroup];
+    // Occurrences at 0, 7 and 14
+    const history = computeFinancialHistory(actions);
+    assert.equal(history.get(history.size - 1, never).accounts.get('income', never).fillLevel, 301);
+    assert.throws(() => computeFinancialHistory(actions, { horizon: Infinity }), RangeError);
+    const later = computeFinancialHistory(actions, { horizon: 70 });
+    assert.equal(later.get(later.size - 1, never).accounts.get('income', never).fillLevel, 1101);
+    // The state at a time only needs the schedule up to that time
+    assert.equal(calculateStateAtTime(actions, 15).get('income', never).fillLevel, 300);
+  });
+
+  it('Expands schedules without an end as far as the projections need', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 1000, overflowTargetId: 'savings' },
+        { type: 'CreateOrUpdateAccount', accountId: 'savings' },
+      ]
+    }, salary(0, { start: 0, period: 7 })];
+    const [income] = getAccountViews(actions, 15);
+    assert.equal(income.fillLevel, 300);
+    // The tenth occurrence fills it
+    assert.equal(income.projectedToReachCapacity, 63);
+  });
+
+  it('The engine expands schedules without an end as far as it is asked', () => {
+    const actions = [setup, salary(0, { start: 0, period: 7 })];
+    const engine = new FinancialEngine(actions);
+    assert.equal(engine.calculateStateAtTime(15).get('income', never).fillLevel, 300);
+    assert.equal(engine.calculateStateAtTime(71).get('income', never).fillLevel, 1100);
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory(actions, { horizon: 71 }).toJS());
+
+    // An action group after the horizon takes the schedule up to it
+    engine.addActionGroup({ timestamp: 100, actions: [{ type: 'InjectMoney', accountId: 'income', amount: 1 }] });
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory(engine.actions as UserActionGroup[]).toJS());
+  });
+
+  it('Modify and cancel a schedule', () => {
+    const actions: UserActionGroup[] = [
+      setup,
+      salary(0, { start: 0, period: 10 }),
+      salary(25, { start: 30, period: 5 }, 1),
+      { timestamp: 42, actions: [{ type: 'CancelSchedule', scheduleId: 'salary' }] },
+    ];
+    const accounts = calculateStateAtTime(actions, 100);
+    // 100 at 0, 10 and 20, and then 1 at 30, 35 and 40
+    assert.equal(accounts.get('income', never).fillLevel, 303);
+  });
+
+  it('Reports overdraws by recurring actions', () => {
+    const actions = [setup, salary(0, { start: 1, period: 1, count: 4 }, -1), {
+      timestamp: 0,
+      actions: [{ type: 'InjectMoney', accountId: 'income', amount: 3 }]
+    } as UserActionGroup];
+    const diagnostics = validateActions(actions, { horizon: 10 });
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [[1, 'Overdraw']]);
+  });
+
+  it('Incremental recomputation with schedules', () => {
+    const options = { horizon: 100 };
+    const engine = new FinancialEngine([setup, salary(0, { start: 0, period: 10 })], options);
+    const change: UserActionGroup = { timestamp: 33, actions: [{ type: 'InjectMoney', accountId: 'income', amount: 5 }] };
+    engine.addActionGroup(change);
+    assert.deepEqual(engine.history.toJS(), computeFinancialHistory(engine.actions as UserActionGroup[], options).toJS());
+  });
+});
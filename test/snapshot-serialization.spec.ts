@@ -0,0 +1,72 @@
+import { assert } from 'chai';
+import { serializeSnapshot, deserializeSnapshot } from '../lib/snapshot-serialization';
+import { computeFinancialHistory } from '../lib/financial-model';
+import { FinancialEngine } from '../lib/financial-engine';
+import { UserActionGroup } from '../lib/user-actions';
+import { never } from '../lib/utils';
+
+describe('Snapshot serialization', () => {
+  const before: UserActionGroup[] = [{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income', capacity: 10, overflowTargetId: 'savings' },
+      { type: 'CreateOrUpdateAccount', accountId: 'savings', groupId: 'long-term' },
+      { type: 'CreateOrUpdateAccount', accountId: '1' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: '1', maxRate: 1, priority: 2 },
+      { type: 'ScheduleRecurring', scheduleId: 'salary', start: 0, period: 7, count: 3, action: { type: 'InjectMoney', accountId: 'income', amount: 12 } },
+    ]
+  }];
+  const after: UserActionGroup[] = [{
+    timestamp: 10,
+    actions: [
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'savings', maxRate: 0.5 },
+      { type: 'Withdraw', accountId: 'savings', amount: 1 },
+    ]
+  }];
+  const checkpointTime = 8;
+  const fullHistory = computeFinancialHistory([...before, ...after]);
+  const checkpoint = computeFinancialHistory(before)
+    .findLast(snapshot => snapshot.timestamp <= checkpointTime) || never;
+
+  it('Round trip', () => {
+    const text = JSON.stringify(serializeSnapshot(checkpoint));
+    const restored = deserializeSnapshot(JSON.parse(text));
+    assert.deepEqual(restored.toJS(), checkpoint.toJS());
+    // Order of accounts is preserved, even for accounts with numeric IDs
+    assert.deepEqual([...restored.accounts.keys()], [...checkpoint.accounts.keys()]);
+    assert.throws(() => deserializeSnapshot({ ...serializeSnapshot(checkpoint), version: 2 }), /version 2/);
+  });
+
+  it('Round trip of an uncapped account', () => {
+    const uncapped = computeFinancialHistory([{
+      timestamp: 0,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'savings', capacity: Infinity },
+        { type: 'ScheduleRecurring', scheduleId: 'salary', start: 0, period: 7, end: Infinity, action: { type: 'InjectMoney', accountId: 'savings', amount: 12 } },
+      ]
+    }], { horizon: 10 }).get(0, never);
+    const restored = deserializeSnapshot(JSON.parse(JSON.stringify(serializeSnapshot(uncapped))));
+    assert.deepEqual(restored.toJS(), uncapped.toJS());
+    const history = computeFinancialHistory([{
+      timestamp: 20,
+      actions: [{ type: 'InjectMoney', accountId: 'savings', amount: 1 }]
+    }], { initialSnapshot: restored, horizon: 20 });
+    assert.equal(history.last(never).accounts.get('savings', never).fillLevel, 37);
+  });
+
+  it('Continue from a snapshot', () => {
+    const initialSnapshot = deserializeSnapshot(JSON.parse(JSON.stringify(serializeSnapshot(checkpoint))));
+    const history = computeFinancialHistory(after, { initialSnapshot });
+    const expected = fullHistory.skipWhile(snapshot => snapshot.timestamp < checkpoint.timestamp);
+    assert.deepEqual(history.toJS(), expected.toJS());
+
+    const engine = new FinancialEngine(after, { initialSnapshot });
+    assert.deepEqual(engine.history.toJS(), expected.toJS());
+    assert.throws(() => engine.addActionGroup({ timestamp: 1, actions: [] }), RangeError);
+  });
+
+  it('Actions must be after the snapshot', () => {
+    assert.throws(() => computeFinancialHistory(before, { initialSnapshot: checkpoint }), RangeError,
+      'Action group at 0 is not after the initial snapshot at 7');
+  });
+});
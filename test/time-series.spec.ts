@@ -0,0 +1,71 @@
+import { getBalancePolylines, resampleBalances, timeSeriesToCsv, timeSeriesToJson } from '../lib/time-series';
+import { computeFinancialHistory } from '../lib/financial-model';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('Time series', () => {
+  const history = computeFinancialHistory([{
+    timestamp: 0,
+    actions: [
+      { type: 'CreateOrUpdateAccount', accountId: 'income' },
+      { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: 10, overflowTargetId: 'b' },
+      { type: 'CreateOrUpdateAccount', accountId: 'b' },
+      { type: 'UpdateDrain', sourceAccountId: 'income', targetAccountId: 'a', maxRate: 2 },
+      { type: 'InjectMoney', accountId: 'income', amount: 100 },
+    ]
+  }, {
+    timestamp: 3,
+    actions: [{ type: 'InjectMoney', accountId: 'a', amount: 1 }]
+  }] as UserActionGroup[]);
+
+  it('Breakpoint polylines', () => {
+    assert.deepEqual(getBalancePolylines(history, ['a', 'b'], 1, 8), [{
+      accountId: 'a',
+      points: [
+        { timestamp: 1, fillLevel: 2 },
+        { timestamp: 3, fillLevel: 6 },
+        { timestamp: 3, fillLevel: 7 },
+        { timestamp: 4.5, fillLevel: 10 },
+        { timestamp: 8, fillLevel: 10 },
+      ]
+    }, {
+      accountId: 'b',
+      points: [
+        { timestamp: 1, fillLevel: 0 },
+        { timestamp: 3, fillLevel: 0 },
+        { timestamp: 4.5, fillLevel: 0 },
+        { timestamp: 8, fillLevel: 7 },
+      ]
+    }]);
+  });
+
+  it('Accounts that do not exist yet have no points', () => {
+    assert.deepEqual(getBalancePolylines(history, ['a'], -5, -1), [{ accountId: 'a', points: [] }]);
+    assert.deepEqual(getBalancePolylines(history, ['a'], -5, 1)[0].points, [
+      { timestamp: 0, fillLevel: 0 },
+      { timestamp: 1, fillLevel: 2 },
+    ]);
+  });
+
+  it('Resampling', () => {
+    const series = resampleBalances(history, ['a'], 0, 6, 2);
+    assert.deepEqual(series, [{
+      accountId: 'a',
+      points: [
+        { timestamp: 2, fillLevel: 4 },
+        { timestamp: 4, fillLevel: 9 },
+        { timestamp: 6, fillLevel: 10 },
+      ]
+    }]);
+    assert.throws(() => resampleBalances(history, ['a'], 0, 6, 0), RangeError);
+  });
+
+  it('Serialization', () => {
+    const series = [
+      { accountId: 'a', points: [{ timestamp: 2, fillLevel: 4 }] },
+      { accountId: 'Phone, "new"', points: [{ timestamp: 2, fillLevel: 0.5 }] },
+    ];
+    assert.equal(timeSeriesToCsv(series), 'accountId,timestamp,fillLevel\na,2,4\n"Phone, ""new""",2,0.5\n');
+    assert.deepEqual(JSON.parse(timeSeriesToJson(series)), series);
+  });
+});
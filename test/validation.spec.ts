@@ -0,0 +1,198 @@
+import { computeFinancialHistory, validateActions } from '../lib/financial-model';
+import { IceTrayValidationError } from '../lib/validation';
+import { assert } from 'chai';
+import { UserActionGroup } from '../lib/user-actions';
+
+describe('validateActions', () => {
+  it('Valid actions', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: 10, overflowTargetId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'b', targetAccountId: 'c', maxRate: 1 },
+        { type: 'CreateOrUpdateAccount', accountId: 'c' },
+        { type: 'InjectMoney', accountId: 'a', amount: 15 },
+      ]
+    }, {
+      timestamp: 12,
+      actions: [
+        { type: 'InjectMoney', accountId: 'c', amount: -2 },
+      ]
+    }];
+    assert.deepEqual(validateActions(actions), []);
+  });
+
+  it('Overflow cycle', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+      ]
+    }, {
+      timestamp: 20,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'b', overflowTargetId: 'a' },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [[1, 'OverflowCycle']]);
+    assert.throws(() => computeFinancialHistory(actions), IceTrayValidationError);
+  });
+
+  it('Drain cycle', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'b', targetAccountId: 'a', maxRate: 1 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['DrainCycle']);
+  });
+
+  it('Self reference and negative rate', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: 'a' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: -1 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['SelfReference', 'NegativeRate']);
+  });
+
+  it('Invalid drain policy', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1, weight: 0 },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1, priority: NaN },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1, priority: -1, weight: 0.5 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['InvalidDrainPolicy', 'InvalidDrainPolicy']);
+  });
+
+  it('Invalid amount', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'Withdraw', accountId: 'a', amount: -1 },
+        { type: 'Transfer', sourceAccountId: 'a', targetAccountId: 'b', amount: NaN },
+        { type: 'Transfer', sourceAccountId: 'a', targetAccountId: 'c', amount: 0 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => d.kind), ['InvalidAmount', 'InvalidAmount', 'DanglingTarget']);
+  });
+
+  it('Values that are not finite', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', capacity: NaN },
+        { type: 'CreateOrUpdateAccount', accountId: 'b', capacity: -1 },
+        // An account without a limit
+        { type: 'CreateOrUpdateAccount', accountId: 'c', capacity: Infinity },
+        { type: 'InjectMoney', accountId: 'c', amount: Infinity },
+        { type: 'InjectMoney', accountId: 'c', amount: NaN },
+        { type: 'UpdateDrain', sourceAccountId: 'c', targetAccountId: 'a', maxRate: Infinity },
+        { type: 'UpdateDrain', sourceAccountId: 'c', targetAccountId: 'b', maxRate: NaN },
+        {
+          type: 'UpdateDrain',
+          sourceAccountId: 'c',
+          targetAccountId: 'a',
+          maxRate: 1,
+          rateSchedule: [{ from: 20, maxRate: Infinity }]
+        },
+        {
+          type: 'ScheduleRecurring',
+          scheduleId: 'salary',
+          start: 10,
+          period: 1,
+          count: 2,
+          action: { type: 'InjectMoney', accountId: 'c', amount: NaN }
+        },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => d.kind), [
+      'InvalidCapacity', 'InvalidCapacity', 'InvalidAmount', 'InvalidAmount', 'InvalidRate', 'InvalidRate', 'InvalidRate',
+      'InvalidAmount'
+    ]);
+    assert.throws(() => computeFinancialHistory(actions), IceTrayValidationError);
+  });
+
+  it('Interest and balance fractions', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', interestRate: Infinity },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'c', overflowTargetId: 'b' },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 1, balanceFraction: 0.1 },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'c', maxRate: 0, balanceFraction: 0.1 },
+        { type: 'UpdateDrain', sourceAccountId: 'a', targetAccountId: 'b', maxRate: 0, balanceFraction: 0.1 },
+      ]
+    }, {
+      timestamp: 20,
+      actions: [
+        // Makes "b" stop being a sink
+        { type: 'CreateOrUpdateAccount', accountId: 'b', interestRate: 0.01 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [
+      [0, 'InvalidInterestRate'],
+      [0, 'InvalidDrainPolicy'],
+      [0, 'UnsupportedBalanceFraction'],
+      [1, 'UnsupportedBalanceFraction'],
+    ]);
+  });
+
+  it('Dangling target', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a', overflowTargetId: 'b' },
+        { type: 'CreateOrUpdateAccount', accountId: 'b' },
+      ]
+    }, {
+      timestamp: 20,
+      actions: [
+        { type: 'DeleteAccount', accountId: 'b' },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [[1, 'DanglingTarget']]);
+  });
+
+  it('Overdraw', () => {
+    const actions: UserActionGroup[] = [{
+      timestamp: 20,
+      actions: [
+        { type: 'InjectMoney', accountId: 'a', amount: -6 },
+      ]
+    }, {
+      timestamp: 10,
+      actions: [
+        { type: 'CreateOrUpdateAccount', accountId: 'a' },
+        { type: 'InjectMoney', accountId: 'a', amount: 5 },
+      ]
+    }];
+    const diagnostics = validateActions(actions);
+    assert.deepEqual(diagnostics.map(d => [d.actionGroupIndex, d.kind]), [[0, 'Overdraw']]);
+    assert.throws(() => computeFinancialHistory(actions), IceTrayValidationError);
+  });
+});